@@ -0,0 +1,43 @@
+/**
+ * Recorded Binance spot API responses. The bulk book ticker is trimmed to a
+ * handful of pairs; the real endpoint returns every listed market.
+ */
+
+// GET /api/v3/depth?symbol=BTCUSDT&limit=5
+export const BINANCE_DEPTH_BTCUSDT = {
+  lastUpdateId: 47617381043,
+  bids: [
+    ['67241.99000000', '3.41822000'],
+    ['67241.98000000', '0.00020000'],
+    ['67241.80000000', '0.00750000'],
+    ['67241.61000000', '0.07100000'],
+    ['67241.60000000', '0.00008000']
+  ],
+  asks: [
+    ['67242.00000000', '2.88617000'],
+    ['67242.01000000', '0.00016000'],
+    ['67242.02000000', '0.00029000'],
+    ['67242.17000000', '0.08920000'],
+    ['67242.40000000', '0.00741000']
+  ]
+};
+
+// GET /api/v3/depth for a pair that is listed but not trading
+export const BINANCE_DEPTH_EMPTY = {
+  lastUpdateId: 3019271,
+  bids: [],
+  asks: []
+};
+
+// GET /api/v3/ticker/bookTicker
+export const BINANCE_BOOK_TICKERS = [
+  { symbol: 'ETHBTC', bidPrice: '0.05198000', bidQty: '29.81250000', askPrice: '0.05199000', askQty: '14.13100000' },
+  { symbol: 'BTCUSDT', bidPrice: '67241.99000000', bidQty: '3.41822000', askPrice: '67242.00000000', askQty: '2.88617000' },
+  { symbol: 'ETHUSDT', bidPrice: '3495.51000000', bidQty: '21.96560000', askPrice: '3495.52000000', askQty: '12.29970000' },
+  { symbol: 'SOLUSDT', bidPrice: '171.36000000', bidQty: '412.47600000', askPrice: '171.37000000', askQty: '280.31800000' },
+  { symbol: 'LUNAUSDT', bidPrice: '0.00000000', bidQty: '0.00000000', askPrice: '0.00000000', askQty: '0.00000000' },
+  { symbol: 'BTCUSDC', bidPrice: '67245.01000000', bidQty: '0.19731000', askPrice: '67245.02000000', askQty: '0.04680000' }
+];
+
+// HTTP 400 body for an unlisted pair
+export const BINANCE_INVALID_SYMBOL = { code: -1121, msg: 'Invalid symbol.' };
@@ -0,0 +1,90 @@
+/**
+ * Local stand-in for an Ethereum JSON-RPC node. It serves eth_call from a
+ * table of canned results keyed by contract and calldata; calls it doesn't
+ * know return a zero word, the way a factory reports a missing pool. Tests
+ * point providers at `url` once `start` resolves.
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+interface JsonRpcRequest {
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+const ZERO_WORD = '0x' + '0'.repeat(64);
+
+export function word(value: bigint | number | string): string {
+  return BigInt(value).toString(16).padStart(64, '0');
+}
+
+export function returnData(...values: Array<bigint | number | string>): string {
+  return '0x' + values.map(word).join('');
+}
+
+export class JsonRpcStandIn {
+  url = '';
+  requests: JsonRpcRequest[] = [];
+  private calls = new Map<string, string>();
+  private reverts = new Set<string>();
+  private server: Server | null = null;
+
+  setCall(to: string, data: string, result: string): void {
+    this.calls.set(this.key(to, data), result);
+  }
+
+  // Makes the call fail the way a reverting contract does
+  setRevert(to: string, data: string): void {
+    this.reverts.add(this.key(to, data));
+  }
+
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => this.handle(request, response));
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      const closed = new Promise<void>(resolve => server.close(() => resolve()));
+      server.closeAllConnections();
+      await closed;
+    }
+  }
+
+  private key(to: string, data: string): string {
+    return `${to.toLowerCase()}:${data.toLowerCase()}`;
+  }
+
+  private handle(request: IncomingMessage, response: ServerResponse): void {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const rpc: JsonRpcRequest = JSON.parse(body);
+      this.requests.push(rpc);
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify({ jsonrpc: '2.0', id: rpc.id, ...this.answer(rpc) }));
+    });
+  }
+
+  private answer(rpc: JsonRpcRequest): { result: string } | { error: { code: number; message: string } } {
+    if (rpc.method !== 'eth_call') {
+      return { error: { code: -32601, message: `Method ${rpc.method} not supported` } };
+    }
+
+    const [{ to, data }] = rpc.params as Array<{ to: string; data: string }>;
+    const key = this.key(to, data);
+
+    if (this.reverts.has(key)) {
+      return { error: { code: 3, message: 'execution reverted' } };
+    }
+    return { result: this.calls.get(key) ?? ZERO_WORD };
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Recorded Pyth Hermes `/v2/updates/price/latest?parsed=true` responses.
+ * Binary update data is truncated; the provider only reads `parsed`.
+ * All updates were published at PYTH_PUBLISH_TIME.
+ */
+
+export const PYTH_PUBLISH_TIME = 1717632000; // 2024-06-06T00:00:00Z
+
+export const PYTH_BTC_ID = 'e62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43';
+export const PYTH_ETH_ID = 'ff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace';
+
+export const PYTH_LATEST_BTC = {
+  binary: { encoding: 'hex', data: ['504e41550100000003b801000000040d00...'] },
+  parsed: [
+    {
+      id: PYTH_BTC_ID,
+      price: { price: '7106278495000', conf: '3285180000', expo: -8, publish_time: PYTH_PUBLISH_TIME },
+      ema_price: { price: '7098836600000', conf: '3412940000', expo: -8, publish_time: PYTH_PUBLISH_TIME },
+      metadata: { slot: 143587723, proof_available_time: 1717632001, prev_publish_time: 1717631999 }
+    }
+  ]
+};
+
+export const PYTH_LATEST_BTC_ETH = {
+  binary: { encoding: 'hex', data: ['504e41550100000003b801000000040d00...'] },
+  parsed: [
+    PYTH_LATEST_BTC.parsed[0],
+    {
+      id: PYTH_ETH_ID,
+      price: { price: '381264499999', conf: '213917420', expo: -8, publish_time: PYTH_PUBLISH_TIME },
+      ema_price: { price: '380918000000', conf: '221548860', expo: -8, publish_time: PYTH_PUBLISH_TIME },
+      metadata: { slot: 143587723, proof_available_time: 1717632001, prev_publish_time: 1717631999 }
+    }
+  ]
+};
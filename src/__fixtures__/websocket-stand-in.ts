@@ -0,0 +1,93 @@
+/**
+ * In-process stand-in for an exchange WebSocket server. Its `factory` plugs
+ * into StreamingPriceProvider as the socketFactory; tests then push ticker
+ * messages, drop connections or refuse new ones to exercise reconnects.
+ */
+import { WebSocketLike } from '../providers/streaming-price-provider.js';
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+export class StandInSocket implements WebSocketLike {
+  readyState = CONNECTING;
+  sent: string[] = [];
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+
+  constructor(readonly url: string, private server: StandInWebSocketServer) {}
+
+  send(data: string): void {
+    if (this.readyState !== OPEN) {
+      throw new Error('Socket is not open');
+    }
+    this.sent.push(data);
+    this.server.received.push(data);
+  }
+
+  close(): void {
+    if (this.readyState === CLOSED) {
+      return;
+    }
+    this.readyState = CLOSED;
+    this.onclose?.({ code: 1000 });
+  }
+
+  // Server side of the connection
+  accept(): void {
+    this.readyState = OPEN;
+    this.onopen?.({});
+  }
+
+  deliver(data: string): void {
+    if (this.readyState === OPEN) {
+      this.onmessage?.({ data });
+    }
+  }
+
+  drop(): void {
+    if (this.readyState === CLOSED) {
+      return;
+    }
+    this.readyState = CLOSED;
+    this.onerror?.({});
+    this.onclose?.({ code: 1006 });
+  }
+}
+
+export class StandInWebSocketServer {
+  sockets: StandInSocket[] = [];
+  received: string[] = [];
+  refuseConnections = false;
+
+  readonly factory = (url: string): WebSocketLike => {
+    const socket = new StandInSocket(url, this);
+    this.sockets.push(socket);
+
+    // Like a real socket, the outcome arrives after the constructor returns
+    queueMicrotask(() => {
+      if (this.refuseConnections) {
+        socket.drop();
+      } else {
+        socket.accept();
+      }
+    });
+
+    return socket;
+  };
+
+  get openSockets(): StandInSocket[] {
+    return this.sockets.filter(socket => socket.readyState === OPEN);
+  }
+
+  broadcast(message: unknown): void {
+    const data = typeof message === 'string' ? message : JSON.stringify(message);
+    this.openSockets.forEach(socket => socket.deliver(data));
+  }
+
+  dropConnections(): void {
+    this.openSockets.forEach(socket => socket.drop());
+  }
+}
@@ -1,6 +1,11 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { AssetValuator } from './asset-valuator.js';
 import { PriceProvider, PriceData } from './types.js';
+import { TestPriceProvider } from './providers/test-price-provider.js';
+import { normalizeAssetKey } from './utils/asset-id.js';
+import { DataModelConverter } from './converters/data-model-converter.js';
+import { StaticFxRateSource } from './fx/static-fx-rate-source.js';
+import { OperationAbortedException, RateLimitExceededException, StaleDataException } from './errors.js';
 
 // Mock provider for testing
 class MockPriceProvider implements PriceProvider {
@@ -41,6 +46,22 @@ class MockPriceProvider implements PriceProvider {
   }
 }
 
+class FixedPriceProvider implements PriceProvider {
+  constructor(private prices: Record<string, number>) {}
+
+  async fetchPrice(symbol: string): Promise<PriceData> {
+    const price = this.prices[normalizeAssetKey(symbol)];
+    if (price === undefined) {
+      throw new Error(`Price not found for ${symbol}`);
+    }
+    return { symbol: normalizeAssetKey(symbol), price, timestamp: new Date() };
+  }
+
+  async fetchMultiplePrices(symbols: string[]): Promise<PriceData[]> {
+    return Promise.all(symbols.map(symbol => this.fetchPrice(symbol)));
+  }
+}
+
 describe('AssetValuator', () => {
   let valuator: AssetValuator;
 
@@ -149,6 +170,18 @@ describe('AssetValuator', () => {
       expect(result.price).toBe(50000);
     });
 
+    it('should refetch on the read right after a clear', async () => {
+      const provider = new FixedPriceProvider({ BTC: 50000 });
+      const fetchPrice = vi.spyOn(provider, 'fetchPrice');
+      const cleared = new AssetValuator(provider);
+
+      await cleared.getPrice('BTC');
+      cleared.clearCache();
+      await cleared.getPrice('BTC');
+
+      expect(fetchPrice).toHaveBeenCalledTimes(2);
+    });
+
     it('should respect cache timeout', async () => {
       valuator.setCacheTimeout(100); // 100ms timeout
       
@@ -161,5 +194,582 @@ describe('AssetValuator', () => {
       const result = await valuator.getPrice('BTC', 'USD');
       expect(result.price).toBe(50000);
     });
+
+    it('should apply a new cache timeout to prices already cached', async () => {
+      vi.useFakeTimers();
+      try {
+        const provider = new FixedPriceProvider({ BTC: 50000 });
+        const fetchPrice = vi.spyOn(provider, 'fetchPrice');
+        const retimed = new AssetValuator(provider);
+        await retimed.getPrice('BTC');
+
+        vi.advanceTimersByTime(2000);
+        retimed.setCacheTimeout(1000);
+        await retimed.getPrice('BTC');
+
+        expect(fetchPrice).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should keep stablecoins longer than majors and report hits per tier', async () => {
+      vi.useFakeTimers();
+      try {
+        const provider = new FixedPriceProvider({ BTC: 50000, USDC: 1 });
+        const fetchPrice = vi.spyOn(provider, 'fetchPrice');
+        const tiered = new AssetValuator(provider);
+        await tiered.getPrice('BTC');
+        await tiered.getPrice('USDC');
+
+        vi.advanceTimersByTime(2 * 60 * 1000);
+        await tiered.getPrice('BTC');
+        await tiered.getPrice('USDC');
+
+        expect(fetchPrice.mock.calls.map(([symbol]) => symbol)).toEqual(['BTC', 'USDC', 'BTC']);
+        expect(tiered.getCacheStats()).toMatchObject({
+          hot: { hits: 0, misses: 2 },
+          cold: { hits: 1, misses: 1 }
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should cache a quote once whatever its case', async () => {
+      const provider = new FixedPriceProvider({ BTC: 50000 });
+      const fetchPrice = vi.spyOn(provider, 'fetchPrice');
+      const cased = new AssetValuator(provider);
+
+      await cased.getPrice('BTC', 'usd');
+      await cased.getPrice('btc', 'USD');
+
+      expect(fetchPrice).toHaveBeenCalledTimes(1);
+      expect(cased.getCacheStats().hot).toEqual({ hits: 1, misses: 1 });
+    });
+  });
+
+  describe('stale prices', () => {
+    let provider: MockPriceProvider;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      provider = new MockPriceProvider();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.useRealTimers();
+    });
+
+    it('should flag fresh prices with their age', async () => {
+      const result = await new AssetValuator(provider).getPrice('BTC');
+
+      expect(result).toMatchObject({ isStale: false, ageMs: 0 });
+    });
+
+    it('should serve the cached price when the provider fails after the timeout', async () => {
+      const stale = new AssetValuator(provider, 'production', { staleness: { maxStaleMs: 60000 } });
+      await stale.getPrice('BTC');
+
+      vi.advanceTimersByTime(61000);
+      vi.spyOn(provider, 'fetchPrice').mockRejectedValue(new Error('API unavailable'));
+
+      expect(await stale.getPrice('BTC')).toMatchObject({ price: 50000, isStale: true, ageMs: 61000 });
+    });
+
+    it('should rethrow the provider error past the staleness limit', async () => {
+      const stale = new AssetValuator(provider, 'production', { staleness: { maxStaleMs: 60000 } });
+      await stale.getPrice('BTC');
+
+      vi.advanceTimersByTime(120000);
+      vi.spyOn(provider, 'fetchPrice').mockRejectedValue(new Error('API unavailable'));
+
+      await expect(stale.getPrice('BTC')).rejects.toThrow('API unavailable');
+    });
+
+    it('should throw StaleDataException past the limit when opted in', async () => {
+      const stale = new AssetValuator(provider, 'production', { staleness: { maxStaleMs: 60000, throwOnStale: true } });
+      await stale.getPrice('BTC');
+
+      vi.advanceTimersByTime(120000);
+      vi.spyOn(provider, 'fetchPrice').mockRejectedValue(new Error('API unavailable'));
+
+      const error = await stale.getPrice('BTC').catch(e => e);
+      expect(error).toBeInstanceOf(StaleDataException);
+      expect(error).toMatchObject({ symbol: 'BTC', ageMs: 120000, maxAgeMs: 120000 });
+    });
+
+    it('should answer at once and refresh in the background when revalidating', async () => {
+      const prices = { BTC: 50000 };
+      const revalidating = new AssetValuator(new FixedPriceProvider(prices), 'production', {
+        staleness: { staleWhileRevalidate: true }
+      });
+      await revalidating.getPrice('BTC');
+
+      vi.advanceTimersByTime(61000);
+      prices.BTC = 51000;
+
+      expect(await revalidating.getPrice('BTC')).toMatchObject({ price: 50000, isStale: true });
+      expect(await revalidating.getPrice('BTC')).toMatchObject({ price: 51000, isStale: false });
+    });
+
+    it('should fall back to cached prices when a batch fails', async () => {
+      const stale = new AssetValuator(provider);
+      await stale.getPrice('BTC');
+      await stale.getPrice('ETH');
+
+      vi.advanceTimersByTime(90000);
+      vi.spyOn(provider, 'fetchMultiplePrices').mockRejectedValue(new Error('API unavailable'));
+
+      const pending = stale.getPrices(['BTC', 'ETH']);
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect((await pending).map(p => [p.base, p.isStale, p.ageMs])).toEqual([
+        ['BTC', true, 90000],
+        ['ETH', true, 90000]
+      ]);
+    });
+  });
+
+  describe('cancellation', () => {
+    let provider: MockPriceProvider;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      provider = new MockPriceProvider();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.useRealTimers();
+    });
+
+    it('should reject an aborted call instead of serving the stale price', async () => {
+      const stale = new AssetValuator(provider, 'production', { staleness: { maxStaleMs: 60000 } });
+      await stale.getPrice('BTC');
+
+      vi.advanceTimersByTime(61000);
+      vi.spyOn(provider, 'fetchPrice').mockReturnValue(new Promise(() => {}));
+      const controller = new AbortController();
+
+      const pending = stale.getPrice('BTC', 'USD', { signal: controller.signal }).catch(e => e);
+      controller.abort();
+
+      expect(await pending).toBeInstanceOf(OperationAbortedException);
+    });
+
+    it('should reject once the deadline passes and abort the provider call', async () => {
+      const fetchPrice = vi.spyOn(provider, 'fetchPrice').mockReturnValue(new Promise(() => {}));
+
+      const pending = new AssetValuator(provider).getPrice('BTC', 'USD', { timeoutMs: 5000 }).catch(e => e);
+      await vi.advanceTimersByTimeAsync(5000);
+      const error = await pending;
+
+      expect(error).toBeInstanceOf(OperationAbortedException);
+      expect(error.timeoutMs).toBe(5000);
+      expect(fetchPrice.mock.calls[0][2]?.signal?.aborted).toBe(true);
+    });
+
+    it('should not call the provider when the signal is already aborted', async () => {
+      const fetchMultiplePrices = vi.spyOn(provider, 'fetchMultiplePrices');
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(new AssetValuator(provider).valuePortfolio(
+        [{ asset: 'BTC', amount: '1' }, { asset: 'EUR', amount: '100' }],
+        'USD',
+        { signal: controller.signal }
+      )).rejects.toThrow(OperationAbortedException);
+      expect(fetchMultiplePrices).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPricesDetailed', () => {
+    it('should list the symbols it could not price with a reason', async () => {
+      const result = await valuator.getPricesDetailed(['BTC', 'DOGE', 'ETH']);
+
+      expect(result.prices.map(p => p.base)).toEqual(['BTC', 'ETH']);
+      expect(result.failures).toEqual([
+        { symbol: 'DOGE', reason: 'unknown-asset', message: expect.stringContaining('DOGE') }
+      ]);
+    });
+
+    it('should report every symbol when the provider fails', async () => {
+      const provider = new MockPriceProvider();
+      vi.spyOn(provider, 'fetchMultiplePrices').mockRejectedValue(new RateLimitExceededException('mock', 1000));
+      const limited = new AssetValuator(provider);
+
+      const result = await limited.getPricesDetailed(['BTC', 'ETH']);
+
+      expect(result.prices).toEqual([]);
+      expect(result.failures.map(f => [f.symbol, f.reason])).toEqual([['BTC', 'rate-limited'], ['ETH', 'rate-limited']]);
+    });
+
+    it('should fall back to cached prices and flag ones past the staleness limit', async () => {
+      vi.useFakeTimers();
+      try {
+        const provider = new MockPriceProvider();
+        const stale = new AssetValuator(provider, 'production', { staleness: { maxStaleMs: 60000 } });
+        await stale.getPrice('BTC');
+        vi.advanceTimersByTime(100000);
+        await stale.getPrice('ETH');
+        vi.advanceTimersByTime(30000);
+        vi.spyOn(provider, 'fetchMultiplePrices').mockRejectedValue(new Error('API unavailable'));
+
+        const pending = stale.getPricesDetailed(['BTC', 'ETH']);
+        await vi.advanceTimersByTimeAsync(1);
+        const result = await pending;
+
+        expect(result.prices).toEqual([expect.objectContaining({ base: 'ETH', isStale: false })]);
+        expect(result.failures).toEqual([expect.objectContaining({ symbol: 'BTC', reason: 'stale-only' })]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('valuePortfolio', () => {
+    const holdings = [
+      { asset: 'BTC', amount: '0.5' },
+      { asset: 'ETH', amount: 5 },
+      { asset: 'DOGE', amount: 1000 },
+      { asset: 'USD', amount: '10000' }
+    ];
+
+    it('should total, weigh and list unpriced holdings from one batched fetch', async () => {
+      const provider = new MockPriceProvider();
+      const fetchMultiplePrices = vi.spyOn(provider, 'fetchMultiplePrices');
+      const fetchPrice = vi.spyOn(provider, 'fetchPrice');
+      const portfolio = await new AssetValuator(provider).valuePortfolio(holdings);
+
+      expect(fetchMultiplePrices).toHaveBeenCalledTimes(1);
+      expect(fetchMultiplePrices).toHaveBeenCalledWith(['BTC', 'ETH', 'DOGE'], 'USD', { signal: expect.any(AbortSignal) });
+      expect(fetchPrice).toHaveBeenCalledTimes(3); // Inside the batch only
+      expect(portfolio.total).toBe(50000);
+      expect(portfolio.lines.map(line => [line.asset, line.value, line.weight])).toEqual([
+        ['BTC', 25000, 0.5],
+        ['ETH', 15000, 0.3],
+        ['USD', 10000, 0.2]
+      ]);
+      expect(portfolio.lines[0].priceTimestamp).toBeInstanceOf(Date);
+      expect(portfolio.unpriced).toEqual([
+        expect.objectContaining({ symbol: 'DOGE', amount: '1000', reason: 'unknown-asset' })
+      ]);
+    });
+
+    it('should value a portfolio in a quote the provider derives through USD', async () => {
+      const usdOnly = Object.assign(new FixedPriceProvider({ BTC: 50000, ETH: 3000 }), { quoteCurrencies: ['USD'] });
+      const eurValuator = new AssetValuator(usdOnly, 'production', {
+        fxRateSource: new StaticFxRateSource({ EUR: 0.9 }),
+        precision: { mode: 'decimal' }
+      });
+
+      const portfolio = await eurValuator.valuePortfolio([
+        { asset: 'BTC', amount: '0.1' },
+        { asset: 'EUR', amount: '100.005' }
+      ], 'EUR');
+
+      expect(portfolio.quote).toBe('EUR');
+      expect(portfolio.lines.map(line => line.valueDecimal)).toEqual(['4500', '100']);
+      expect(portfolio.totalDecimal).toBe('4600');
+    });
+
+    it('should date a line by the cached price it fell back to', async () => {
+      vi.useFakeTimers();
+      try {
+        const provider = new MockPriceProvider();
+        const cached = new AssetValuator(provider);
+        const fetchedAt = Date.now();
+        await cached.getPrice('BTC');
+        vi.advanceTimersByTime(90000);
+        vi.spyOn(provider, 'fetchMultiplePrices').mockRejectedValue(new Error('API unavailable'));
+
+        const pending = cached.valuePortfolio([{ asset: 'BTC', amount: 1 }]);
+        await vi.advanceTimersByTimeAsync(1);
+        const portfolio = await pending;
+
+        expect(portfolio.lines[0].priceTimestamp.getTime()).toBe(fetchedAt);
+        expect(portfolio.lines[0].isStale).toBe(true);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should map onto the data-models portfolio shape', async () => {
+      const portfolio = await valuator.valuePortfolio(holdings);
+      const model = DataModelConverter.toPortfolioModel(portfolio);
+
+      expect(model.totalValue).toBe(50000);
+      expect(model.items[1]).toMatchObject({ assetSymbol: 'ETH', quantity: '5', allocationPercent: 30 });
+      expect(model.items[1].value.value).toBe(15000);
+      expect(DataModelConverter.fromAssetValueModel(model.items[1].price)).toMatchObject({ base: 'ETH', price: 3000 });
+      expect(model.unpricedAssets).toEqual([{ assetSymbol: 'DOGE', quantity: '1000', reason: 'unknown-asset' }]);
+    });
+  });
+
+  describe('historical prices', () => {
+    const at = new Date('2024-03-15T12:00:00Z');
+
+    it('should reject when the provider has no historical capability', async () => {
+      await expect(valuator.getHistoricalPrice('BTC', 'USD', at)).rejects.toThrow(/historical/);
+    });
+
+    it('should return the deterministic price for the requested day', async () => {
+      const historical = new AssetValuator(new TestPriceProvider());
+
+      const result = await historical.getHistoricalPrice('BTC', 'USD', at);
+
+      // 2024-03-15 is day 19797 since the epoch; 19797 % 21 = 15 -> +5%
+      expect(result.base).toBe('BTC');
+      expect(result.quote).toBe('USD');
+      expect(result.price).toBeCloseTo(42000);
+      expect(result.timestamp).toEqual(new Date('2024-03-15T00:00:00Z'));
+    });
+
+    it('should fetch historical prices for multiple symbols', async () => {
+      const historical = new AssetValuator(new TestPriceProvider());
+
+      const results = await historical.getHistoricalPrices(['ETH', 'USDC', 'UNKNOWN'], at);
+
+      expect(results.map(r => r.base)).toEqual(['ETH', 'USDC']);
+      expect(results[0].price).toBeCloseTo(2100);
+      expect(results[1].price).toBe(1);
+    });
+  });
+
+  describe('getPriceSeries', () => {
+    it('should return evenly bucketed daily candles', async () => {
+      const series = await new AssetValuator(new TestPriceProvider()).getPriceSeries('ETH', 'USD', {
+        from: new Date('2024-03-14T00:00:00Z'),
+        to: new Date('2024-03-16T00:00:00Z'),
+        interval: '1d'
+      });
+
+      expect(series.base).toBe('ETH');
+      expect(series.interval).toBe('1d');
+      expect(series.candles.map(c => c.timestamp.toISOString())).toEqual([
+        '2024-03-14T00:00:00.000Z',
+        '2024-03-15T00:00:00.000Z',
+        '2024-03-16T00:00:00.000Z'
+      ]);
+      expect(series.points[1].price).toBeCloseTo(2100);
+    });
+
+    it('should reject an empty range', async () => {
+      const at = new Date('2024-03-14T00:00:00Z');
+
+      await expect(
+        new AssetValuator(new TestPriceProvider()).getPriceSeries('ETH', 'USD', { from: at, to: at, interval: '1d' })
+      ).rejects.toThrow(/from/);
+    });
+  });
+
+  describe('provenance', () => {
+    const provenance = {
+      sources: [{ provider: 'alpha', price: 50000, timestamp: new Date(), outlier: false }],
+      spread: 0,
+      outliersDropped: 0,
+      confidence: 0.5
+    };
+
+    it('should expose provider provenance on getPrice and keep it when cached', async () => {
+      const provider = new MockPriceProvider();
+      const fetchPrice = provider.fetchPrice.bind(provider);
+      provider.fetchPrice = async (symbol, currency) => ({ ...(await fetchPrice(symbol, currency)), provenance });
+      const withProvenance = new AssetValuator(provider);
+
+      expect((await withProvenance.getPrice('BTC')).provenance).toEqual(provenance);
+      expect((await withProvenance.getPrice('BTC')).provenance).toEqual(provenance);
+    });
+
+    it('should omit provenance when the provider does not supply it', async () => {
+      const result = await valuator.getPrice('BTC');
+
+      expect(result).not.toHaveProperty('provenance');
+    });
+  });
+
+  describe('decimal precision mode', () => {
+    const prices = { BTC: 97250.42, ETH: 3285.18, SHIB: 0.00000001, DIME: 0.1 };
+
+    function createDecimalValuator(precision = {}) {
+      return new AssetValuator(new FixedPriceProvider(prices), 'production', {
+        precision: { mode: 'decimal', ...precision }
+      });
+    }
+
+    it('should convert large holdings without float error', async () => {
+      const decimalValuator = createDecimalValuator();
+
+      expect(await decimalValuator.convertExact({ from: 'BTC', to: 'USD', amount: '12345678.12345678' }))
+        .toBe('1200622382690.98');
+      expect(await decimalValuator.convert({ from: 'DIME', to: 'USD', amount: 3 })).toBe(0.3);
+    });
+
+    it('should keep every digit of tiny token prices', async () => {
+      const decimalValuator = createDecimalValuator({ assetDecimals: { USD: 8 } });
+
+      expect(await decimalValuator.convertExact({ from: 'SHIB', to: 'USD', amount: 123456789 })).toBe('1.23456789');
+      expect((await decimalValuator.getPrice('SHIB')).priceDecimal).toBe('0.00000001');
+    });
+
+    it('should round to the target asset decimals with the configured mode', async () => {
+      expect(await createDecimalValuator().convertExact({ from: 'USD', to: 'BTC', amount: 1 })).toBe('0.00001028');
+      expect(await createDecimalValuator({ rounding: 'up' }).convertExact({ from: 'USD', to: 'BTC', amount: 1 }))
+        .toBe('0.00001029');
+      expect(await createDecimalValuator().convertExact({ from: 'ETH', to: 'BTC', amount: 10 })).toBe('0.33780625');
+    });
+
+    it('should fall back to the default decimals for unknown assets', async () => {
+      const decimalValuator = createDecimalValuator({ defaultDecimals: 4 });
+
+      expect(await decimalValuator.convertExact({ from: 'USD', to: 'DIME', amount: '1.00001' })).toBe('10.0001');
+    });
+
+    it('should not add priceDecimal outside decimal mode', async () => {
+      const floatValuator = new AssetValuator(new FixedPriceProvider(prices));
+
+      expect(await floatValuator.getPrice('SHIB')).not.toHaveProperty('priceDecimal');
+    });
+  });
+
+  describe('contract identifiers', () => {
+    const USDC_ETHEREUM = 'eip155:1/erc20:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+    const USDC_ARBITRUM = 'eip155:42161/erc20:0xaf88d065e77c8cc2239327c5edb3a432268e5831';
+    let contractValuator: AssetValuator;
+
+    beforeEach(() => {
+      contractValuator = new AssetValuator(new FixedPriceProvider({
+        ETH: 3000,
+        [USDC_ETHEREUM]: 1.0002,
+        [USDC_ARBITRUM]: 0.9998
+      }));
+    });
+
+    it('should price an asset given as chain id and contract address', async () => {
+      const price = await contractValuator.getPrice({
+        chainId: 1,
+        address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'
+      });
+
+      expect(price.base).toBe(USDC_ETHEREUM);
+      expect(price.price).toBe(1.0002);
+    });
+
+    it('should keep same-ticker tokens on different chains apart', async () => {
+      const prices = await contractValuator.getPrices([
+        USDC_ETHEREUM,
+        { chainId: '42161', address: '0xaf88d065e77c8cc2239327c5edb3a432268e5831' }
+      ]);
+
+      expect(prices.map(p => [p.base, p.price])).toEqual([
+        [USDC_ETHEREUM, 1.0002],
+        [USDC_ARBITRUM, 0.9998]
+      ]);
+    });
+
+    it('should convert between a contract asset and a ticker', async () => {
+      const result = await contractValuator.convert({
+        from: { chainId: 42161, address: '0xaf88d065e77c8cc2239327c5edb3a432268e5831' },
+        to: 'ETH',
+        amount: 3000
+      });
+
+      expect(result).toBeCloseTo(0.9998);
+    });
+
+    it('should reject a malformed contract address', async () => {
+      await expect(contractValuator.getPrice({ chainId: 1, address: '0x1234' })).rejects.toThrow('Invalid contract address');
+    });
+  });
+
+  describe('fiat currencies', () => {
+    const fxRateSource = new StaticFxRateSource({ EUR: 0.9, GBP: 0.8, JPY: 150 });
+    let fiatValuator: AssetValuator;
+
+    beforeEach(() => {
+      const usdOnly = Object.assign(new FixedPriceProvider({ BTC: 50000, ETH: 3000 }), { quoteCurrencies: ['USD'] });
+      fiatValuator = new AssetValuator(usdOnly, 'production', { fxRateSource });
+    });
+
+    it('should derive a fiat quote from USD when the provider only speaks USD', async () => {
+      const price = await fiatValuator.getPrice('BTC', 'EUR');
+
+      expect(price.quote).toBe('EUR');
+      expect(price.price).toBe(45000);
+    });
+
+    it('should derive fiat quotes for a batch', async () => {
+      const prices = await fiatValuator.getPrices(['BTC', 'ETH'], 'JPY');
+
+      expect(prices.map(p => p.price)).toEqual([7500000, 450000]);
+    });
+
+    it('should convert between fiat currencies', async () => {
+      expect(await fiatValuator.convert({ from: 'USD', to: 'EUR', amount: 100 })).toBeCloseTo(90);
+      expect(await fiatValuator.convert({ from: 'EUR', to: 'GBP', amount: 90 })).toBeCloseTo(80);
+      expect(await fiatValuator.convertExact({ from: 'GBP', to: 'JPY', amount: 1 })).toBe('188');
+    });
+
+    it('should convert crypto into fiat', async () => {
+      expect(await fiatValuator.convert({ from: 'ETH', to: 'GBP', amount: 2 })).toBeCloseTo(4800);
+    });
+
+    it('should use fixed FX rates in the local environment', async () => {
+      const localValuator = new AssetValuator('local');
+
+      expect((await localValuator.getPrice('BTC', 'EUR')).price).toBe(36000);
+    });
+  });
+
+  describe('subscribe', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should poll all subscribed symbols with one batched request', async () => {
+      const provider = new MockPriceProvider();
+      const spy = vi.spyOn(provider, 'fetchMultiplePrices');
+      const subscribed = new AssetValuator(provider);
+      const listener = vi.fn();
+
+      const unsubscribeBtc = subscribed.subscribe(['BTC'], 'USD', listener, { intervalMs: 5000 });
+      const unsubscribeEth = subscribed.subscribe(['eth', 'BNB'], 'usd', listener, { intervalMs: 5000 });
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(['BTC', 'ETH', 'BNB'], 'USD', { signal: expect.any(AbortSignal) });
+      expect(listener).toHaveBeenCalledTimes(2);
+
+      unsubscribeBtc();
+      unsubscribeEth();
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch both legs of a cross rate on every poll within the cache TTL', async () => {
+      const prices = { BTC: 50000, ETH: 3000 };
+      const usdOnly = Object.assign(new FixedPriceProvider(prices), { quoteCurrencies: ['USD'] });
+      const batchSpy = vi.spyOn(usdOnly, 'fetchMultiplePrices');
+      const priceSpy = vi.spyOn(usdOnly, 'fetchPrice');
+      const subscribed = new AssetValuator(usdOnly);
+      const listener = vi.fn();
+
+      const unsubscribe = subscribed.subscribe(['ETH'], 'BTC', listener, { intervalMs: 5000 });
+      await vi.advanceTimersByTimeAsync(1);
+      prices.BTC = 60000;
+      await vi.advanceTimersByTimeAsync(5000);
+      unsubscribe();
+
+      expect(batchSpy).toHaveBeenCalledTimes(2);
+      expect(priceSpy.mock.calls.filter(([symbol]) => symbol === 'BTC')).toHaveLength(2);
+      expect(listener.mock.calls.map(([prices]) => prices[0].price)).toEqual([0.06, 0.05]);
+    });
   });
-});
\ No newline at end of file
+});
@@ -1,16 +1,156 @@
-import { PriceProvider, AssetPrice, ConversionOptions } from './types.js';
+import {
+  PriceProvider,
+  HistoricalPriceProvider,
+  AssetPrice,
+  AssetReference,
+  BatchPriceResult,
+  CallOptions,
+  ConversionOptions,
+  FxRateSource,
+  Holding,
+  HttpClient,
+  PortfolioLine,
+  PortfolioValuation,
+  PrecisionOptions,
+  PriceData,
+  PriceFailure,
+  PriceProvenance,
+  PriceSeries,
+  PriceSeriesOptions,
+  ProviderConfiguration,
+  UnpricedHolding
+} from './types.js';
 import { DecentralizedAggregator } from './providers/decentralized-aggregator.js';
-import { TestPriceProvider } from './providers/test-price-provider.js';
+import { DETERMINISTIC_FX_RATES, TestPriceProvider } from './providers/test-price-provider.js';
+import { StaticFxRateSource } from './fx/static-fx-rate-source.js';
+import { FrankfurterFxRateSource } from './fx/frankfurter-fx-rate-source.js';
+import { isFiatCurrency, quotesNatively } from './fx/fiat.js';
+import {
+  getProviderName,
+  isHistoricalPriceProvider,
+  isPriceSeriesProvider,
+  isRateLimitAware
+} from './utils/provider-capabilities.js';
+import { PriceListener, PriceScheduler, SubscriptionOptions, Unsubscribe } from './utils/price-scheduler.js';
+import { SingleFlight } from './utils/single-flight.js';
+import { BatchCoalescer } from './utils/batch-coalescer.js';
+import { bucketPriceSeries } from './utils/price-series.js';
+import { Decimal, RoundingMode } from './utils/decimal.js';
+import { normalizeAssetKey } from './utils/asset-id.js';
+import { fetchPricesDetailed, isPriceFailure, toPriceFailure } from './utils/price-failures.js';
+import { StaleDataException, UnsupportedCurrencyException } from './errors.js';
+import { throwIfAborted, withDeadline } from './utils/abort.js';
+import { TieredCache, TieredCacheOptions, TieredCacheStats, spotPriceKey } from './utils/tiered-cache.js';
 
 export type Environment = 'production' | 'testnet' | 'local';
 
+export interface StalenessOptions {
+  staleWhileRevalidate?: boolean; // Answer from an expired cache entry at once and refresh it in the background
+  maxStaleMs?: number; // How long past the cache timeout a price may be served stale (default 5 minutes)
+  throwOnStale?: boolean; // Past that limit, throw StaleDataException instead of the provider's error
+}
+
+export interface AssetValuatorOptions {
+  precision?: PrecisionOptions;
+  fxRateSource?: FxRateSource; // Defaults to ECB rates, or fixed rates in the local environment
+  staleness?: StalenessOptions;
+  providerConfig?: Record<string, ProviderConfiguration>; // For the default providers and FX source, keyed by name
+  httpClient?: HttpClient; // Transport for the default providers and FX source unless providerConfig names one
+  cache?: TieredCacheOptions; // Tiers of the price cache, which the default aggregator shares
+}
+
+interface CachedPrice {
+  price: number;
+  priceDecimal?: string;
+  timestamp: number;
+  ttl: number; // Of the tier the entry was last read from
+  provenance?: PriceProvenance;
+  assumed?: boolean;
+  confidenceInterval?: number;
+}
+
+interface BatchEntries {
+  entries: Array<{ symbol: string; entry: CachedPrice }>;
+  failures: PriceFailure[];
+}
+
+const DEFAULT_ASSET_DECIMALS: Record<string, number> = {
+  USD: 2,
+  BTC: 8,
+  ETH: 18,
+  EUR: 2,
+  GBP: 2,
+  CHF: 2,
+  JPY: 0,
+};
+
+// Places kept when dividing through a cross rate, before any output rounding
+const CROSS_RATE_DECIMALS = 18;
+
+// One unit is worth usd / units dollars. Fiat keeps the FX source's units per
+// USD so that no reciprocal has to be rounded before the final division.
+interface UsdValue {
+  usd: Decimal;
+  units: Decimal;
+  timestamp: number; // When the underlying price was fetched
+  ttl: number;
+  assumed?: boolean;
+}
+
+interface Freshness {
+  timestamp: number;
+  ttl: number;
+}
+
 export class AssetValuator {
   private provider: PriceProvider;
-  private cache: Map<string, { price: number; timestamp: number }> = new Map();
-  private cacheTimeout: number = 60000; // 1 minute
+  private cache: TieredCache;
   private environment: Environment;
+  private fxRateSource: FxRateSource;
+  private scheduler: PriceScheduler | null = null;
+  // Cache reads and writes wait for the last clearCache() to land
+  private clearing: Promise<void> = Promise.resolve();
+  // Concurrent identical lookups share one provider call
+  private inFlight = new SingleFlight();
+  private batches = new BatchCoalescer<PriceData | PriceFailure>(
+    async (symbols, currency, signal) => {
+      const { prices, failures } = await fetchPricesDetailed(this.provider, symbols, currency, { signal });
+      return [...prices, ...failures];
+    },
+    outcome => normalizeAssetKey(outcome.symbol)
+  );
+  private staleWhileRevalidate: boolean;
+  private maxStaleMs: number;
+  private throwOnStale: boolean;
+  private decimalMode: boolean;
+  private rounding: RoundingMode;
+  private defaultDecimals: number;
+  private assetDecimals: Record<string, number>;
+  private providerConfig: Record<string, ProviderConfiguration>;
+  private httpClient?: HttpClient;
+
+  constructor(
+    providerOrEnv?: PriceProvider | Environment,
+    environment?: Environment,
+    options: AssetValuatorOptions = {}
+  ) {
+    const env = typeof providerOrEnv === 'string' ? providerOrEnv : environment || 'production';
+    this.fxRateSource = options.fxRateSource || (env === 'local'
+      ? new StaticFxRateSource(DETERMINISTIC_FX_RATES)
+      : new FrankfurterFxRateSource({ httpClient: options.httpClient, ...options.providerConfig?.frankfurter }));
+    this.providerConfig = options.providerConfig || {};
+    this.httpClient = options.httpClient;
+
+    const staleness = options.staleness || {};
+    this.staleWhileRevalidate = staleness.staleWhileRevalidate || false;
+    this.maxStaleMs = staleness.maxStaleMs ?? 5 * 60 * 1000;
+    this.throwOnStale = staleness.throwOnStale || false;
+    // Entries past the staleness limit are kept a while longer to report their age
+    this.cache = new TieredCache({
+      ...options.cache,
+      retainMs: options.cache?.retainMs ?? Math.max(60 * 60 * 1000, this.maxStaleMs)
+    });
 
-  constructor(providerOrEnv?: PriceProvider | Environment, environment?: Environment) {
     if (typeof providerOrEnv === 'string') {
       this.environment = providerOrEnv;
       this.provider = this.selectProvider(providerOrEnv);
@@ -18,6 +158,15 @@ export class AssetValuator {
       this.environment = environment || 'production';
       this.provider = providerOrEnv || this.selectProvider(this.environment);
     }
+
+    const precision = options.precision || {};
+    this.decimalMode = precision.mode === 'decimal';
+    this.rounding = precision.rounding || 'half-even';
+    this.defaultDecimals = precision.defaultDecimals ?? 18;
+    this.assetDecimals = { ...DEFAULT_ASSET_DECIMALS };
+    for (const [asset, decimals] of Object.entries(precision.assetDecimals || {})) {
+      this.assetDecimals[normalizeAssetKey(asset)] = decimals;
+    }
   }
 
   private selectProvider(env: Environment): PriceProvider {
@@ -27,92 +176,598 @@ export class AssetValuator {
       case 'production':
       case 'testnet':
       default:
-        return new DecentralizedAggregator();
+        return new DecentralizedAggregator({
+          fxRateSource: this.fxRateSource,
+          providerConfig: this.providerConfig,
+          httpClient: this.httpClient,
+          // Spot prices are cached here, so only history and series land in the shared cache from there
+          cache: this.cache,
+          cacheOptions: { spotPrices: false }
+        });
     }
   }
 
-  private getCacheKey(base: string, quote: string): string {
-    return `${this.environment}:${base.toUpperCase()}_${quote.toUpperCase()}`;
+  private async getUsdPrice(asset: string, signal?: AbortSignal): Promise<number> {
+    const value = await this.getUsdValue(asset, undefined, signal);
+    return value.usd.toNumber() / value.units.toNumber();
   }
 
-  private async getCachedOrFetchPrice(symbol: string, currency: string): Promise<number> {
-    const cacheKey = this.getCacheKey(symbol, currency);
-    const cached = this.cache.get(cacheKey);
-    
-    if (cached && Date.now() - cached.timestamp < this.cacheTimeout) {
-      return cached.price;
+  /**
+   * USD value of one unit of `asset`: fiat comes from the FX source, anything
+   * else from the price provider. `refresh` skips cached spot prices.
+   */
+  private async getUsdValue(asset: string, at?: Date, signal?: AbortSignal, refresh: boolean = false): Promise<UsdValue> {
+    if (asset.toUpperCase() === 'USD') {
+      return { usd: Decimal.from(1), units: Decimal.from(1), timestamp: Date.now(), ttl: Infinity };
     }
 
-    const priceData = await this.provider.fetchPrice(symbol, currency);
-    this.cache.set(cacheKey, {
-      price: priceData.price,
-      timestamp: Date.now()
-    });
+    if (isFiatCurrency(asset)) {
+      const units = Decimal.from(await this.fxRateSource.fetchRate('USD', asset, at, { signal }));
+      return { usd: Decimal.from(1), units, timestamp: Date.now(), ttl: Infinity };
+    }
+
+    if (at) {
+      return this.usdValueOf(await this.getHistoricalProvider().fetchHistoricalPrice(asset, at, 'USD', { signal }));
+    }
 
-    return priceData.price;
+    const entry = await this.getCachedOrFetchEntry(asset, 'USD', signal, refresh);
+    return this.usdValueOf(entry, entry);
   }
 
-  async getPrice(base: string, quote: string = 'USD'): Promise<AssetPrice> {
-    const price = await this.getCachedOrFetchPrice(base, quote);
-    
+  private usdValueOf(
+    usdEntry: { price: number; priceDecimal?: string; assumed?: boolean },
+    freshness: Freshness = { timestamp: Date.now(), ttl: Infinity }
+  ): UsdValue {
     return {
-      base: base.toUpperCase(),
-      quote: quote.toUpperCase(),
-      price,
-      timestamp: new Date()
+      usd: this.exactPrice(usdEntry),
+      units: Decimal.from(1),
+      timestamp: freshness.timestamp,
+      ttl: freshness.ttl,
+      ...(usdEntry.assumed && { assumed: true })
     };
   }
 
-  async convert(options: ConversionOptions): Promise<number> {
-    const { from, to, amount = 1 } = options;
-    
-    if (from.toUpperCase() === to.toUpperCase()) {
-      return amount;
+  // Fiat bases and quotes the provider can't price are derived through USD
+  private needsCrossRate(base: string, quote: string): boolean {
+    return isFiatCurrency(base) || !quotesNatively(this.provider, quote);
+  }
+
+  private crossQuote(base: UsdValue, quote: UsdValue): { price: number; priceDecimal: string } {
+    const price = base.usd.mul(quote.units)
+      .div(base.units.mul(quote.usd), CROSS_RATE_DECIMALS, this.rounding)
+      .normalize();
+    return { price: price.toNumber(), priceDecimal: price.toString() };
+  }
+
+  private async getQuotedEntry(base: string, quote: string, signal?: AbortSignal): Promise<CachedPrice> {
+    if (!this.needsCrossRate(base, quote)) {
+      return this.getCachedOrFetchEntry(base, quote, signal);
     }
 
-    if (to.toUpperCase() === 'USD') {
-      const price = await this.getCachedOrFetchPrice(from, 'USD');
-      return price * amount;
+    const baseInUsd = await this.getUsdValue(base, undefined, signal);
+    const quoteInUsd = await this.getUsdValue(quote, undefined, signal);
+    const quoted = this.crossQuote(baseInUsd, quoteInUsd);
+
+    return {
+      ...quoted,
+      ...this.olderLeg(baseInUsd, quoteInUsd),
+      ...((baseInUsd.assumed || quoteInUsd.assumed) && { assumed: true })
+    };
+  }
+
+  // A cross rate is only as fresh as its older leg, and goes stale with the first leg that does
+  private olderLeg(...legs: Freshness[]): Freshness {
+    const timestamp = Math.min(...legs.map(leg => leg.timestamp));
+    const expiresAt = Math.min(...legs.map(leg => leg.timestamp + leg.ttl));
+    return { timestamp, ttl: expiresAt - timestamp };
+  }
+
+  private async readEntry(symbol: string, currency: string): Promise<CachedPrice | undefined> {
+    await this.clearing;
+    const lookup = await this.cache.lookup<CachedPrice>(spotPriceKey(symbol, currency), { asset: symbol });
+    return lookup ? { ...lookup.data, timestamp: lookup.timestamp, ttl: lookup.ttl } : undefined;
+  }
+
+  private async writeEntry(symbol: string, currency: string, priceData: PriceData): Promise<CachedPrice> {
+    const entry = this.toCacheEntry(priceData, this.cache.ttlOf({ asset: symbol }));
+    await this.clearing;
+    await this.cache.set(spotPriceKey(symbol, currency), entry, { asset: symbol });
+    return entry;
+  }
+
+  // `refresh` fetches even when the cached entry is fresh; it still covers for a failed fetch
+  private async getCachedOrFetchEntry(
+    symbol: string,
+    currency: string,
+    signal?: AbortSignal,
+    refresh: boolean = false
+  ): Promise<CachedPrice> {
+    const cacheKey = spotPriceKey(symbol, currency);
+    const cached = await this.readEntry(symbol, currency);
+
+    if (cached && !refresh && Date.now() - cached.timestamp < cached.ttl) {
+      return cached;
     }
 
-    if (from.toUpperCase() === 'USD') {
-      const price = await this.getCachedOrFetchPrice(to, 'USD');
-      return amount / price;
+    // A background refresh outlives the call that started it, so it takes no signal
+    const fetchEntry = (callerSignal?: AbortSignal) => this.inFlight.run(cacheKey, async shared => {
+      const priceData = await this.provider.fetchPrice(symbol, currency, { signal: shared });
+      return this.writeEntry(symbol, currency, priceData);
+    }, callerSignal);
+
+    if (cached && !refresh && this.staleWhileRevalidate && this.isServable(cached)) {
+      fetchEntry().catch(error => console.warn(`Background refresh of ${symbol} failed`, error));
+      return cached;
     }
 
-    // For crypto-to-crypto conversions, use USD as intermediate
-    const fromPriceInUSD = await this.getCachedOrFetchPrice(from, 'USD');
-    const toPriceInUSD = await this.getCachedOrFetchPrice(to, 'USD');
-    
-    return (fromPriceInUSD / toPriceInUSD) * amount;
+    try {
+      return await fetchEntry(signal);
+    } catch (error) {
+      throwIfAborted(signal);
+      return this.serveStale(symbol, cached, error);
+    }
+  }
+
+  private isServable(entry: CachedPrice): boolean {
+    return Date.now() - entry.timestamp < entry.ttl + this.maxStaleMs;
+  }
+
+  // Stands in for a failed fetch with the cached entry while it is within the staleness limit
+  private serveStale(symbol: string, cached: CachedPrice | undefined, error: unknown): CachedPrice {
+    if (cached && this.isServable(cached)) {
+      return cached;
+    }
+    if (this.throwOnStale) {
+      const ageMs = cached ? Date.now() - cached.timestamp : null;
+      const ttl = cached ? cached.ttl : this.cache.ttlOf({ asset: symbol });
+      throw new StaleDataException(symbol, ageMs, ttl + this.maxStaleMs, error);
+    }
+    throw error;
+  }
+
+  private freshness({ timestamp, ttl }: Freshness): Pick<AssetPrice, 'isStale' | 'ageMs'> {
+    const ageMs = Date.now() - timestamp;
+    return { isStale: ageMs >= ttl, ageMs };
+  }
+
+  private toCacheEntry(priceData: PriceData, ttl: number): CachedPrice {
+    return {
+      price: priceData.price,
+      priceDecimal: priceData.priceDecimal,
+      timestamp: Date.now(),
+      ttl,
+      provenance: priceData.provenance,
+      ...(priceData.assumed && { assumed: true }),
+      ...(priceData.confidenceInterval !== undefined && { confidenceInterval: priceData.confidenceInterval })
+    };
+  }
+
+  private exactPrice(entry: { price: number; priceDecimal?: string }): Decimal {
+    return Decimal.from(entry.priceDecimal ?? entry.price);
+  }
+
+  // Only decimal mode exposes the exact price string
+  private decimalFields(entry: { price: number; priceDecimal?: string }): Pick<AssetPrice, 'priceDecimal'> {
+    return this.decimalMode ? { priceDecimal: this.exactPrice(entry).toString() } : {};
   }
 
-  async getPrices(symbols: string[], quote: string = 'USD'): Promise<AssetPrice[]> {
-    const prices = await this.provider.fetchMultiplePrices(symbols, quote);
+  async getPrice(base: AssetReference, quote: string = 'USD', options: CallOptions = {}): Promise<AssetPrice> {
+    return withDeadline(options, async signal => {
+      const key = normalizeAssetKey(base);
+      const entry = await this.getQuotedEntry(key, quote, signal);
+
+      return {
+        base: key,
+        quote: quote.toUpperCase(),
+        price: entry.price,
+        ...this.decimalFields(entry),
+        timestamp: new Date(),
+        ...this.freshness(entry),
+        ...(entry.provenance && { provenance: entry.provenance }),
+        ...(entry.assumed && { assumed: true }),
+        ...(entry.confidenceInterval !== undefined && { confidenceInterval: entry.confidenceInterval })
+      };
+    });
+  }
+
+  async convert(options: ConversionOptions, call: CallOptions = {}): Promise<number> {
+    return withDeadline(call, async signal => {
+      if (this.decimalMode) {
+        return Number(await this.convertExact(options, { signal }));
+      }
+
+      const from = normalizeAssetKey(options.from);
+      const to = normalizeAssetKey(options.to);
+      const amount = Number(options.amount ?? 1);
+
+      if (from === to) {
+        return amount;
+      }
+
+      if (to === 'USD') {
+        const price = await this.getUsdPrice(from, signal);
+        return price * amount;
+      }
+
+      if (from === 'USD') {
+        const price = await this.getUsdPrice(to, signal);
+        return amount / price;
+      }
+
+      // For all other pairs, including fiat-to-fiat, use USD as intermediate
+      const fromPriceInUSD = await this.getUsdPrice(from, signal);
+      const toPriceInUSD = await this.getUsdPrice(to, signal);
+
+      return (fromPriceInUSD / toPriceInUSD) * amount;
+    });
+  }
+
+  /**
+   * Converts with exact decimal arithmetic regardless of the precision mode.
+   * The amount is multiplied by the source price and divided by the target
+   * price in one step, then rounded once to the target asset's decimals.
+   */
+  async convertExact(options: ConversionOptions, call: CallOptions = {}): Promise<string> {
+    return withDeadline(call, async signal => {
+      const from = normalizeAssetKey(options.from);
+      const to = normalizeAssetKey(options.to);
+      const amount = Decimal.from(options.amount ?? 1);
+      const decimals = this.getAssetDecimals(to);
+
+      if (from === to) {
+        return amount.round(decimals, this.rounding).toString();
+      }
+
+      const fromInUSD = await this.getUsdValue(from, undefined, signal);
+      const toInUSD = await this.getUsdValue(to, undefined, signal);
+
+      return amount.mul(fromInUSD.usd).mul(toInUSD.units)
+        .div(fromInUSD.units.mul(toInUSD.usd), decimals, this.rounding)
+        .toString();
+    });
+  }
+
+  private getAssetDecimals(asset: string): number {
+    return this.assetDecimals[normalizeAssetKey(asset)] ?? this.defaultDecimals;
+  }
+
+  async getPrices(symbols: AssetReference[], quote: string = 'USD', options: CallOptions = {}): Promise<AssetPrice[]> {
+    return withDeadline(options, async signal => {
+      const native = quotesNatively(this.provider, quote);
+      const currency = native ? quote : 'USD';
+      const { entries } = await this.getBatchEntries(symbols.map(normalizeAssetKey), currency, true, signal);
+
+      return this.toAssetPrices(entries, quote, native, signal);
+    });
+  }
+
+  /**
+   * Like getPrices, but never drops a symbol silently: every requested symbol
+   * is either priced or listed in `failures` with the reason, so callers can
+   * tell an unpriced holding from one that wasn't requested.
+   */
+  async getPricesDetailed(
+    symbols: AssetReference[],
+    quote: string = 'USD',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<AssetPrice>> {
+    return withDeadline(options, async signal => {
+      const native = quotesNatively(this.provider, quote);
+      const currency = native ? quote : 'USD';
+      const { entries, failures } = await this.getBatchEntries(symbols.map(normalizeAssetKey), currency, false, signal);
+
+      return { prices: await this.toAssetPrices(entries, quote, native, signal), failures };
+    });
+  }
+
+  /**
+   * Values every holding in `quote` from one batched price request. Fiat
+   * holdings are priced from the FX source. Values are exact decimals
+   * (price times amount) and are rounded to the quote's decimals only in
+   * decimal mode.
+   */
+  async valuePortfolio(holdings: Holding[], quote: string = 'USD', options: CallOptions = {}): Promise<PortfolioValuation> {
+    return withDeadline(options, async signal => {
+      const quoteKey = quote.toUpperCase();
+      const keys = holdings.map(holding => normalizeAssetKey(holding.asset));
+      const assetKeys = [...new Set(keys.filter(key => !isFiatCurrency(key)))];
+      const fiatKeys = [...new Set(keys.filter(key => isFiatCurrency(key)))];
+
+      const prices = new Map<string, AssetPrice>();
+      const failures = new Map<string, PriceFailure>();
+
+      if (assetKeys.length > 0) {
+        const batch = await this.getPricesDetailed(assetKeys, quoteKey, { signal });
+        batch.prices.forEach(price => prices.set(normalizeAssetKey(price.base), price));
+        batch.failures.forEach(failure => failures.set(normalizeAssetKey(failure.symbol), failure));
+      }
+
+      await Promise.all(fiatKeys.map(async key => {
+        try {
+          prices.set(key, await this.getPrice(key, quoteKey, { signal }));
+        } catch (error) {
+          throwIfAborted(signal);
+          failures.set(key, toPriceFailure(key, error));
+        }
+      }));
+
+      const priced: Array<{ key: string; amount: Decimal; price: AssetPrice; value: Decimal }> = [];
+      const unpriced: UnpricedHolding[] = [];
+
+      holdings.forEach((holding, index) => {
+        const key = keys[index];
+        const amount = Decimal.from(holding.amount);
+        const price = prices.get(key);
+
+        if (price) {
+          priced.push({ key, amount, price, value: amount.mul(this.exactPrice(price)) });
+        } else {
+          // getPricesDetailed accounts for every symbol it was asked for
+          unpriced.push({ ...failures.get(key)!, symbol: key, amount: amount.toString() });
+        }
+      });
+
+      const decimals = this.getAssetDecimals(quoteKey);
+      const total = Decimal.sum(priced.map(line => line.value));
+
+      const lines: PortfolioLine[] = priced.map(({ key, amount, price, value }) => ({
+        asset: key,
+        amount: amount.toString(),
+        price: price.price,
+        ...(price.priceDecimal !== undefined && { priceDecimal: price.priceDecimal }),
+        value: value.toNumber(),
+        ...(this.decimalMode && { valueDecimal: value.round(decimals, this.rounding).toString() }),
+        weight: total.isZero() ? 0 : value.div(total, CROSS_RATE_DECIMALS, this.rounding).toNumber(),
+        priceTimestamp: new Date(price.timestamp.getTime() - (price.ageMs ?? 0)),
+        isStale: price.isStale,
+        ...(price.assumed && { assumed: true })
+      }));
+
+      return {
+        quote: quoteKey,
+        total: total.toNumber(),
+        ...(this.decimalMode && { totalDecimal: total.round(decimals, this.rounding).toString() }),
+        lines,
+        unpriced,
+        timestamp: new Date()
+      };
+    });
+  }
+
+  private async toAssetPrices(
+    entries: BatchEntries['entries'],
+    quote: string,
+    native: boolean,
+    signal?: AbortSignal,
+    refresh: boolean = false
+  ): Promise<AssetPrice[]> {
     const timestamp = new Date();
 
-    // Update cache
-    for (const priceData of prices) {
-      const cacheKey = this.getCacheKey(priceData.symbol, quote);
-      this.cache.set(cacheKey, {
-        price: priceData.price,
-        timestamp: Date.now()
+    if (!native) {
+      const quoteInUsd = await this.getUsdValue(quote, undefined, signal, refresh);
+
+      return entries.map(({ symbol, entry }) => {
+        const quoted = this.crossQuote(this.usdValueOf(entry), quoteInUsd);
+        return {
+          base: symbol,
+          quote: quote.toUpperCase(),
+          price: quoted.price,
+          ...this.decimalFields(quoted),
+          timestamp,
+          ...this.freshness(this.olderLeg(entry, quoteInUsd)),
+          ...((entry.assumed || quoteInUsd.assumed) && { assumed: true })
+        };
       });
     }
 
-    return prices.map(p => ({
-      base: p.symbol,
+    return entries.map(({ symbol, entry }) => ({
+      base: symbol,
       quote: quote.toUpperCase(),
-      price: p.price,
-      timestamp
+      price: entry.price,
+      ...this.decimalFields(entry),
+      timestamp,
+      ...this.freshness(entry),
+      ...(entry.provenance && { provenance: entry.provenance }),
+      ...(entry.assumed && { assumed: true }),
+      ...(entry.confidenceInterval !== undefined && { confidenceInterval: entry.confidenceInterval })
     }));
   }
 
+  /**
+   * Fetches a batch and caches what it priced. Symbols the provider couldn't
+   * price fall back to their cached entry within the staleness limit. When
+   * the whole batch fails and `strict` is set, the first symbol without a
+   * usable cached entry throws, as a single getPrice would.
+   */
+  private async getBatchEntries(
+    keys: string[],
+    currency: string,
+    strict: boolean,
+    signal?: AbortSignal
+  ): Promise<BatchEntries> {
+    let outcomes: Array<PriceData | PriceFailure>;
+
+    try {
+      outcomes = await this.batches.request(keys, currency.toUpperCase(), signal);
+    } catch (error) {
+      throwIfAborted(signal);
+      if (strict) {
+        const entries: BatchEntries['entries'] = [];
+        for (const symbol of keys) {
+          entries.push({ symbol, entry: this.serveStale(symbol, await this.readEntry(symbol, currency), error) });
+        }
+        return { entries, failures: [] };
+      }
+      outcomes = keys.map(symbol => toPriceFailure(symbol, error));
+    }
+
+    const result: BatchEntries = { entries: [], failures: [] };
+
+    for (const outcome of outcomes) {
+      if (!isPriceFailure(outcome)) {
+        result.entries.push({ symbol: outcome.symbol, entry: await this.writeEntry(outcome.symbol, currency, outcome) });
+        continue;
+      }
+
+      const cached = await this.readEntry(outcome.symbol, currency);
+      if (cached && this.isServable(cached)) {
+        result.entries.push({ symbol: outcome.symbol, entry: cached });
+      } else if (cached) {
+        const ageMs = Date.now() - cached.timestamp;
+        result.failures.push(toPriceFailure(
+          outcome.symbol,
+          new StaleDataException(outcome.symbol, ageMs, cached.ttl + this.maxStaleMs, outcome.message)
+        ));
+      } else {
+        result.failures.push(outcome);
+      }
+    }
+
+    return result;
+  }
+
+  async getHistoricalPrice(base: AssetReference, quote: string, at: Date, options: CallOptions = {}): Promise<AssetPrice> {
+    return withDeadline(options, async signal => {
+      const key = normalizeAssetKey(base);
+
+      if (!quotesNatively(this.provider, quote)) {
+        const usdPrice = await this.getHistoricalProvider().fetchHistoricalPrice(key, at, 'USD', { signal });
+        const quoted = this.crossQuote(this.usdValueOf(usdPrice), await this.getUsdValue(quote, at, signal));
+        return { base: key, quote: quote.toUpperCase(), price: quoted.price, timestamp: usdPrice.timestamp };
+      }
+
+      const priceData = await this.getHistoricalProvider().fetchHistoricalPrice(key, at, quote, { signal });
+
+      return {
+        base: key,
+        quote: quote.toUpperCase(),
+        price: priceData.price,
+        timestamp: priceData.timestamp,
+        ...(priceData.provenance && { provenance: priceData.provenance })
+      };
+    });
+  }
+
+  async getHistoricalPrices(
+    symbols: AssetReference[],
+    at: Date,
+    quote: string = 'USD',
+    options: CallOptions = {}
+  ): Promise<AssetPrice[]> {
+    return withDeadline(options, async signal => {
+      if (!quotesNatively(this.provider, quote)) {
+        const usdPrices = await this.getHistoricalProvider()
+          .fetchHistoricalPrices(symbols.map(normalizeAssetKey), at, 'USD', { signal });
+        const quoteInUsd = await this.getUsdValue(quote, at, signal);
+
+        return usdPrices.map(p => ({
+          base: p.symbol,
+          quote: quote.toUpperCase(),
+          price: this.crossQuote(this.usdValueOf(p), quoteInUsd).price,
+          timestamp: p.timestamp
+        }));
+      }
+
+      const prices = await this.getHistoricalProvider()
+        .fetchHistoricalPrices(symbols.map(normalizeAssetKey), at, quote, { signal });
+
+      return prices.map(p => ({
+        base: p.symbol,
+        quote: quote.toUpperCase(),
+        price: p.price,
+        timestamp: p.timestamp,
+        ...(p.provenance && { provenance: p.provenance })
+      }));
+    });
+  }
+
+  async getPriceSeries(
+    asset: AssetReference,
+    quote: string,
+    options: PriceSeriesOptions,
+    call: CallOptions = {}
+  ): Promise<PriceSeries> {
+    return withDeadline(call, async signal => {
+      const symbol = normalizeAssetKey(asset);
+
+      if (options.from.getTime() >= options.to.getTime()) {
+        throw new Error('Price series range must have "from" before "to"');
+      }
+
+      if (!isPriceSeriesProvider(this.provider)) {
+        throw new Error('The configured price provider does not support price series');
+      }
+
+      if (!quotesNatively(this.provider, quote)) {
+        throw new UnsupportedCurrencyException(quote.toUpperCase(), getProviderName(this.provider));
+      }
+
+      const samples = await this.provider.fetchPriceSeries(symbol, options, quote, { signal });
+      const candles = bucketPriceSeries(samples, options);
+
+      return {
+        base: symbol,
+        quote: quote.toUpperCase(),
+        interval: options.interval,
+        points: candles.map(c => ({ timestamp: c.timestamp, price: c.close })),
+        candles
+      };
+    });
+  }
+
+  private getHistoricalProvider(): HistoricalPriceProvider {
+    if (!isHistoricalPriceProvider(this.provider)) {
+      throw new Error('The configured price provider does not support historical prices');
+    }
+    return this.provider;
+  }
+
+  /**
+   * Polls `symbols` every `intervalMs` and calls `listener` with the prices
+   * that moved by more than `epsilon` (relative) since they were last
+   * emitted; the first poll emits everything. All subscriptions share one
+   * scheduler, which batches their symbols into one request per quote.
+   */
+  subscribe(
+    symbols: AssetReference[],
+    quote: string,
+    listener: PriceListener,
+    options: SubscriptionOptions = {}
+  ): Unsubscribe {
+    if (!this.scheduler) {
+      const provider = this.provider;
+      this.scheduler = new PriceScheduler({
+        fetchPrices: (keys, currency) => this.pollPrices(keys, currency),
+        getPressure: isRateLimitAware(provider) ? () => provider.getRateLimitPressure() : undefined
+      });
+    }
+
+    return this.scheduler.subscribe(symbols.map(normalizeAssetKey), quote.toUpperCase(), listener, options);
+  }
+
+  /**
+   * getPrices for the scheduler. Batches always go to the provider, and the
+   * quote leg of a cross rate is refetched too, so each poll sees prices no
+   * older than its interval rather than whatever the cache still holds.
+   */
+  private async pollPrices(keys: string[], quote: string): Promise<AssetPrice[]> {
+    const native = quotesNatively(this.provider, quote);
+    const { entries } = await this.getBatchEntries(keys, native ? quote : 'USD', true);
+
+    return this.toAssetPrices(entries, quote, native, undefined, true);
+  }
+
+  // Sets one TTL for every cache tier, including the entries already cached
   setCacheTimeout(milliseconds: number): void {
-    this.cacheTimeout = milliseconds;
+    this.cache.setTierTTLs({ hot: milliseconds, warm: milliseconds, cold: milliseconds }, true);
   }
 
   clearCache(): void {
-    this.cache.clear();
+    this.clearing = this.cache.clear()
+      .catch(error => console.warn('Failed to clear the price cache', error));
+  }
+
+  getCacheStats(): TieredCacheStats {
+    return this.cache.getStats();
   }
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { AssetPrice } from '../types.js';
+import { AssetPrice, PortfolioValuation, PriceProvenance } from '../types.js';
 // Import from @cygnus-wealth/data-models when types are available
 // For now, we'll define expected interfaces
 
@@ -7,6 +7,7 @@ interface AssetValueModel {
   currency: string;
   value: number;
   timestamp: Date;
+  provenance?: PriceProvenance;
 }
 
 interface AssetPairModel {
@@ -16,6 +17,31 @@ interface AssetPairModel {
   volume24h?: number;
   changePercent24h?: number;
   lastUpdated: Date;
+  provenance?: PriceProvenance;
+}
+
+// An amount in one currency at one moment, as the data-models Price
+interface PriceModel {
+  value: number;
+  currency: string;
+  timestamp: Date;
+}
+
+interface PortfolioItemModel {
+  assetSymbol: string;
+  quantity: string;
+  price: AssetValueModel; // Of one unit
+  value: PriceModel; // Of the whole holding
+  allocationPercent: number;
+  isStale?: boolean;
+}
+
+interface PortfolioModel {
+  currency: string;
+  totalValue: number;
+  items: PortfolioItemModel[];
+  unpricedAssets: Array<{ assetSymbol: string; quantity: string; reason: string }>;
+  lastUpdated: Date;
 }
 
 export class DataModelConverter {
@@ -24,7 +50,8 @@ export class DataModelConverter {
       assetSymbol: assetPrice.base,
       currency: assetPrice.quote,
       value: assetPrice.price,
-      timestamp: assetPrice.timestamp
+      timestamp: assetPrice.timestamp,
+      ...(assetPrice.provenance && { provenance: assetPrice.provenance })
     };
   }
 
@@ -33,7 +60,8 @@ export class DataModelConverter {
       baseAsset: assetPrice.base,
       quoteAsset: assetPrice.quote,
       price: assetPrice.price,
-      lastUpdated: assetPrice.timestamp
+      lastUpdated: assetPrice.timestamp,
+      ...(assetPrice.provenance && { provenance: assetPrice.provenance })
     };
   }
 
@@ -42,7 +70,8 @@ export class DataModelConverter {
       base: model.assetSymbol,
       quote: model.currency,
       price: model.value,
-      timestamp: model.timestamp
+      timestamp: model.timestamp,
+      ...(model.provenance && { provenance: model.provenance })
     };
   }
 
@@ -51,7 +80,38 @@ export class DataModelConverter {
       base: model.baseAsset,
       quote: model.quoteAsset,
       price: model.price,
-      timestamp: model.lastUpdated
+      timestamp: model.lastUpdated,
+      ...(model.provenance && { provenance: model.provenance })
+    };
+  }
+
+  static toPortfolioModel(valuation: PortfolioValuation): PortfolioModel {
+    return {
+      currency: valuation.quote,
+      totalValue: valuation.total,
+      items: valuation.lines.map(line => ({
+        assetSymbol: line.asset,
+        quantity: line.amount,
+        price: {
+          assetSymbol: line.asset,
+          currency: valuation.quote,
+          value: line.price,
+          timestamp: line.priceTimestamp
+        },
+        value: {
+          value: line.value,
+          currency: valuation.quote,
+          timestamp: line.priceTimestamp
+        },
+        allocationPercent: line.weight * 100,
+        ...(line.isStale !== undefined && { isStale: line.isStale })
+      })),
+      unpricedAssets: valuation.unpriced.map(holding => ({
+        assetSymbol: holding.symbol,
+        quantity: holding.amount,
+        reason: holding.reason
+      })),
+      lastUpdated: valuation.timestamp
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,103 @@
+/**
+ * Base class of every error the library throws on purpose, so callers can
+ * tell pricing failures apart from bugs without matching on messages.
+ */
+export class AssetValuatorException extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssetValuatorException';
+  }
+}
+
+export class AssetNotFoundException extends AssetValuatorException {
+  constructor(
+    readonly symbol: string,
+    readonly provider?: string, // Unset when no provider could price the asset
+    message?: string
+  ) {
+    super(message || (provider ? `${provider} has no price for ${symbol}` : `No price available for ${symbol}`));
+    this.name = 'AssetNotFoundException';
+  }
+}
+
+export class AmbiguousAssetException extends AssetNotFoundException {
+  constructor(symbol: string, provider: string) {
+    super(
+      symbol,
+      provider,
+      `${provider} cannot resolve ticker ${symbol} to a single asset; ` +
+      `pass a { chainId, address } identifier instead`
+    );
+    this.name = 'AmbiguousAssetException';
+  }
+}
+
+export class ProviderUnavailableException extends AssetValuatorException {
+  constructor(
+    readonly provider: string,
+    readonly reason: string,
+    readonly status?: number // HTTP status, when the provider answered at all
+  ) {
+    super(`${provider} unavailable: ${reason}`);
+    this.name = 'ProviderUnavailableException';
+  }
+}
+
+export class RateLimitExceededException extends AssetValuatorException {
+  constructor(
+    readonly provider?: string, // Unset when the limit isn't a single provider's
+    readonly retryAfterMs?: number
+  ) {
+    super(
+      `Rate limit exceeded${provider ? ` for ${provider}` : ''}` +
+      (retryAfterMs !== undefined ? `; retry after ${retryAfterMs}ms` : '')
+    );
+    this.name = 'RateLimitExceededException';
+  }
+}
+
+export class UnsupportedCurrencyException extends AssetValuatorException {
+  constructor(readonly currency: string, readonly provider: string) {
+    super(`${provider} cannot quote prices in ${currency}`);
+    this.name = 'UnsupportedCurrencyException';
+  }
+}
+
+export class QuorumNotReachedException extends AssetValuatorException {
+  constructor(
+    readonly symbol: string,
+    readonly required: number,
+    readonly available: number
+  ) {
+    super(`Quorum not reached for ${symbol}: ${available} agreeing source(s), ${required} required`);
+    this.name = 'QuorumNotReachedException';
+  }
+}
+
+export class StaleDataException extends AssetValuatorException {
+  constructor(
+    readonly symbol: string,
+    readonly ageMs: number | null, // null when nothing was cached
+    readonly maxAgeMs: number, // Cache timeout plus the allowed staleness
+    readonly lastError: unknown
+  ) {
+    super(
+      ageMs === null
+        ? `No price available for ${symbol} and none cached`
+        : `Cached price for ${symbol} is ${ageMs}ms old, beyond the ${maxAgeMs}ms limit`
+    );
+    this.name = 'StaleDataException';
+  }
+}
+
+/**
+ * The caller gave up: its AbortSignal fired or its deadline passed. Says
+ * nothing about the providers, so it is never retried, served stale or
+ * counted against a provider's circuit.
+ */
+export class OperationAbortedException extends AssetValuatorException {
+  constructor(readonly timeoutMs?: number) { // Set when a deadline expired rather than a signal
+    super(timeoutMs !== undefined ? `Operation timed out after ${timeoutMs}ms` : 'Operation aborted');
+    this.name = 'OperationAbortedException';
+  }
+}
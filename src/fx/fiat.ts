@@ -0,0 +1,12 @@
+import { FiatCurrency, PriceProvider } from '../types.js';
+
+export const FIAT_CURRENCIES: FiatCurrency[] = ['USD', 'EUR', 'GBP', 'CHF', 'JPY'];
+
+export function isFiatCurrency(currency: string): currency is FiatCurrency {
+  return (FIAT_CURRENCIES as string[]).includes(currency.toUpperCase());
+}
+
+export function quotesNatively(provider: PriceProvider, currency: string): boolean {
+  return !provider.quoteCurrencies ||
+         provider.quoteCurrencies.some(q => q.toUpperCase() === currency.toUpperCase());
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FrankfurterFxRateSource } from './frankfurter-fx-rate-source.js';
+import { UnsupportedCurrencyException } from '../errors.js';
+import { InMemoryHttpClient } from '../http/in-memory-http-client.js';
+
+describe('FrankfurterFxRateSource', () => {
+  let source: FrankfurterFxRateSource;
+  let http: InMemoryHttpClient;
+
+  beforeEach(() => {
+    http = new InMemoryHttpClient();
+    source = new FrankfurterFxRateSource({ httpClient: http });
+  });
+
+  it('should fetch and reuse the latest rate', async () => {
+    http.once('/latest', { data: { base: 'USD', rates: { EUR: 0.9213 } } });
+
+    expect(await source.fetchRate('usd', 'eur')).toBe(0.9213);
+    expect(await source.fetchRate('USD', 'EUR')).toBe(0.9213);
+    expect(http.requests).toEqual([{
+      method: 'GET',
+      url: 'https://api.frankfurter.app/latest',
+      params: { from: 'USD', to: 'EUR' },
+      timeoutMs: 10000
+    }]);
+  });
+
+  it('should request the rate for a past date', async () => {
+    http.once('/2024-01-05', { data: { base: 'GBP', rates: { CHF: 1.0987 } } });
+
+    expect(await source.fetchRate('GBP', 'CHF', new Date('2024-01-05T15:00:00Z'))).toBe(1.0987);
+    expect(http.requests).toEqual([{
+      method: 'GET',
+      url: 'https://api.frankfurter.app/2024-01-05',
+      params: { from: 'GBP', to: 'CHF' },
+      timeoutMs: 10000
+    }]);
+  });
+
+  it('should not call the API for identical currencies', async () => {
+    expect(await source.fetchRate('JPY', 'jpy')).toBe(1);
+    expect(http.requests).toHaveLength(0);
+  });
+
+  it('should reject when the rate is missing', async () => {
+    http.once('/latest', { data: { base: 'USD', rates: {} } });
+
+    await expect(source.fetchRate('USD', 'XYZ')).rejects.toThrow(UnsupportedCurrencyException);
+  });
+});
@@ -0,0 +1,60 @@
+import { CallOptions, FxRateSource, ProviderConfiguration } from '../types.js';
+import { UnsupportedCurrencyException } from '../errors.js';
+import { ProviderHttpClient } from '../utils/provider-http.js';
+
+export interface FrankfurterFxRateSourceOptions extends ProviderConfiguration {
+  latestTTL?: number; // How long a latest rate is reused; dated rates never change
+}
+
+interface FrankfurterRates {
+  rates?: Record<string, number>;
+}
+
+interface CachedRate {
+  rate: number;
+  timestamp: number;
+}
+
+/**
+ * European Central Bank reference rates via the Frankfurter API. No API key
+ * is needed. Rates are published once per working day, so dates on weekends
+ * and holidays resolve to the previous publication.
+ */
+export class FrankfurterFxRateSource implements FxRateSource {
+  readonly name = 'frankfurter';
+  private http: ProviderHttpClient;
+  private latestTTL: number;
+  private rates = new Map<string, CachedRate>();
+
+  constructor(options: FrankfurterFxRateSourceOptions = {}) {
+    this.http = new ProviderHttpClient(this.name, { baseUrl: 'https://api.frankfurter.app' }, options);
+    this.latestTTL = options.latestTTL || 60 * 60 * 1000; // 1 hour
+  }
+
+  async fetchRate(base: string, quote: string, at?: Date, options: CallOptions = {}): Promise<number> {
+    const from = base.toUpperCase();
+    const to = quote.toUpperCase();
+
+    if (from === to) {
+      return 1;
+    }
+
+    const date = at ? at.toISOString().slice(0, 10) : 'latest';
+    const cacheKey = `${from}-${to}-${date}`;
+    const cached = this.rates.get(cacheKey);
+
+    if (cached && (at || Date.now() - cached.timestamp < this.latestTTL)) {
+      return cached.rate;
+    }
+
+    const data = await this.http.get<FrankfurterRates>(`/${date}`, { from, to }, options);
+    const rate = data?.rates?.[to];
+
+    if (typeof rate !== 'number') {
+      throw new UnsupportedCurrencyException(`${from}/${to}`, this.name);
+    }
+
+    this.rates.set(cacheKey, { rate, timestamp: Date.now() });
+    return rate;
+  }
+}
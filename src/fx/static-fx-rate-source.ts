@@ -0,0 +1,28 @@
+import { FxRateSource } from '../types.js';
+import { UnsupportedCurrencyException } from '../errors.js';
+
+/**
+ * Fixed rates for tests and offline use. Rates are units of each currency
+ * per US dollar; USD itself is always 1. The `at` date is ignored.
+ */
+export class StaticFxRateSource implements FxRateSource {
+  readonly name = 'static';
+  private rates: Map<string, number>;
+
+  constructor(rates: Record<string, number>) {
+    this.rates = new Map(Object.entries(rates).map(([currency, rate]) => [currency.toUpperCase(), rate]));
+    this.rates.set('USD', 1);
+  }
+
+  async fetchRate(base: string, quote: string): Promise<number> {
+    return this.perUsd(quote) / this.perUsd(base);
+  }
+
+  private perUsd(currency: string): number {
+    const rate = this.rates.get(currency.toUpperCase());
+    if (rate === undefined) {
+      throw new UnsupportedCurrencyException(currency.toUpperCase(), this.name);
+    }
+    return rate;
+  }
+}
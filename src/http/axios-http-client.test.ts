@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { AxiosHttpClient } from './axios-http-client.js';
+import { HttpError } from './http-error.js';
+
+describe('AxiosHttpClient', () => {
+  it('should map axios calls and errors onto the HttpClient contract', async () => {
+    const calls: unknown[] = [];
+    const client = new AxiosHttpClient({
+      async request(config) {
+        calls.push(config);
+        if (config.url.endsWith('/missing')) {
+          throw { message: 'Request failed with status code 404', response: { status: 404, headers: { 'Content-Type': 'text/plain' } } };
+        }
+        if (config.url.endsWith('/offline')) {
+          throw new Error('getaddrinfo ENOTFOUND');
+        }
+        return { status: 200, headers: { 'Content-Type': 'application/json' }, data: { ok: true } };
+      }
+    });
+
+    expect(await client.request({ method: 'GET', url: 'https://x/ok', params: { a: 1 }, timeoutMs: 100 })).toEqual({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      data: { ok: true }
+    });
+    expect(calls[0]).toEqual({ method: 'GET', url: 'https://x/ok', params: { a: 1 }, headers: undefined, data: undefined, timeout: 100 });
+
+    const notFound = await client.request({ method: 'GET', url: 'https://x/missing' }).catch(e => e);
+    expect(notFound).toBeInstanceOf(HttpError);
+    expect(notFound).toMatchObject({ status: 404, headers: { 'content-type': 'text/plain' } });
+
+    const offline = await client.request({ method: 'GET', url: 'https://x/offline' }).catch(e => e);
+    expect(offline).toMatchObject({ message: 'getaddrinfo ENOTFOUND', status: undefined });
+  });
+});
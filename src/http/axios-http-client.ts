@@ -0,0 +1,60 @@
+import { HttpClient, HttpRequest, HttpResponse } from '../types.js';
+import { HttpError, statusError } from './http-error.js';
+
+// The slice of an axios instance the adapter uses, so the library needn't depend on axios
+export interface AxiosLike {
+  request(config: {
+    method: string;
+    url: string;
+    params?: Record<string, unknown>;
+    headers?: Record<string, string>;
+    data?: unknown;
+    timeout?: number;
+    signal?: AbortSignal;
+  }): Promise<{ status: number; headers: unknown; data: unknown }>;
+}
+
+interface AxiosLikeError {
+  message?: string;
+  response?: { status: number; headers?: unknown; data?: unknown };
+}
+
+function toHeaderRecord(headers: unknown): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const [name, value] of Object.entries((headers || {}) as Record<string, unknown>)) {
+    if (value !== undefined && value !== null) {
+      record[name.toLowerCase()] = String(value);
+    }
+  }
+  return record;
+}
+
+/**
+ * Routes provider traffic through an axios instance the caller owns, along
+ * with whatever interceptors and agents it carries:
+ * `new AxiosHttpClient(axios.create({ ... }))`.
+ */
+export class AxiosHttpClient implements HttpClient {
+  constructor(private axios: AxiosLike) {}
+
+  async request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>> {
+    try {
+      const response = await this.axios.request({
+        method: request.method,
+        url: request.url,
+        params: request.params,
+        headers: request.headers,
+        data: request.body,
+        timeout: request.timeoutMs,
+        signal: request.signal
+      });
+      return { status: response.status, headers: toHeaderRecord(response.headers), data: response.data as T };
+    } catch (error) {
+      const { message, response } = (error || {}) as AxiosLikeError;
+      if (response) {
+        throw statusError(response.status, toHeaderRecord(response.headers), response.data);
+      }
+      throw new HttpError(message || String(error));
+    }
+  }
+}
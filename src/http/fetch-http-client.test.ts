@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FetchHttpClient, toQueryString } from './fetch-http-client.js';
+import { HttpError } from './http-error.js';
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+describe('FetchHttpClient', () => {
+  it('should encode query parameters the way axios does', () => {
+    expect(toQueryString({ ids: ['a', 'b'], parsed: true, skip: undefined })).toBe('ids%5B%5D=a&ids%5B%5D=b&parsed=true');
+  });
+
+  it('should send JSON and parse JSON responses', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ result: '0x1' }, 200, { 'X-Request-Id': 'abc' }));
+    const client = new FetchHttpClient({ fetch });
+
+    const response = await client.request({
+      method: 'POST',
+      url: 'https://rpc.example.com',
+      params: { key: 'k' },
+      headers: { Authorization: 'Bearer t' },
+      body: { id: 1 }
+    });
+
+    expect(response).toEqual({
+      status: 200,
+      headers: { 'content-type': 'application/json', 'x-request-id': 'abc' },
+      data: { result: '0x1' }
+    });
+    expect(fetch).toHaveBeenCalledWith('https://rpc.example.com?key=k', expect.objectContaining({
+      method: 'POST',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json', Authorization: 'Bearer t' },
+      body: '{"id":1}'
+    }));
+  });
+
+  it('should reject non-2xx responses with their status, headers and body', async () => {
+    const client = new FetchHttpClient({
+      fetch: async () => jsonResponse({ code: -1121 }, 429, { 'Retry-After': '5' })
+    });
+
+    const error = await client.request({ method: 'GET', url: 'https://api.example.com/depth' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      message: 'Request failed with status code 429',
+      status: 429,
+      headers: { 'retry-after': '5' },
+      data: { code: -1121 }
+    });
+  });
+
+  it('should abort requests that outlive the timeout', async () => {
+    const client = new FetchHttpClient({
+      fetch: (_url, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+    });
+
+    const error = await client.request({ method: 'GET', url: 'https://api.example.com', timeoutMs: 5 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBeUndefined();
+    expect(error.message).toBe('timeout of 5ms exceeded');
+  });
+});
@@ -0,0 +1,105 @@
+import { HttpClient, HttpRequest, HttpResponse } from '../types.js';
+import { HttpError, statusError } from './http-error.js';
+
+export interface FetchHttpClientOptions {
+  fetch?: typeof fetch; // Defaults to the global fetch
+}
+
+// Arrays repeat as `name[]=a&name[]=b`, the form axios sends by default
+export function toQueryString(params: Record<string, unknown> = {}): string {
+  const query = new URLSearchParams();
+
+  for (const [name, value] of Object.entries(params)) {
+    if (Array.isArray(value)) {
+      value.forEach(item => query.append(`${name}[]`, String(item)));
+    } else if (value !== undefined && value !== null) {
+      query.append(name, String(value));
+    }
+  }
+  return query.toString();
+}
+
+function toHeaderRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name.toLowerCase()] = value;
+  });
+  return record;
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if ((response.headers.get('content-type') || '').includes('json') && text !== '') {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/**
+ * The default transport, built on the platform's `fetch` (browsers and
+ * Node 18+). Timeouts and the request's own signal abort it through an
+ * AbortController.
+ */
+export class FetchHttpClient implements HttpClient {
+  private fetchFn?: typeof fetch;
+
+  constructor(options: FetchHttpClientOptions = {}) {
+    this.fetchFn = options.fetch;
+  }
+
+  async request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const fetchFn = this.fetchFn || globalThis.fetch;
+    if (!fetchFn) {
+      throw new HttpError('fetch is not available; pass an HttpClient such as AxiosHttpClient');
+    }
+
+    const query = toQueryString(request.params);
+    const url = query ? `${request.url}${request.url.includes('?') ? '&' : '?'}${query}` : request.url;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = request.timeoutMs ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeoutMs) : undefined;
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    if (request.signal?.aborted) {
+      onAbort();
+    }
+
+    let response: Response;
+    let headers: Record<string, string>;
+    let data: unknown;
+    try {
+      response = await fetchFn(url, {
+        method: request.method,
+        headers: {
+          Accept: 'application/json',
+          ...(request.body !== undefined && { 'Content-Type': 'application/json' }),
+          ...request.headers
+        },
+        body: request.body === undefined ? undefined : JSON.stringify(request.body),
+        signal: controller.signal
+      });
+      headers = toHeaderRecord(response.headers);
+      data = await readBody(response);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new HttpError(timedOut ? `timeout of ${request.timeoutMs}ms exceeded` : 'Request aborted');
+      }
+      throw new HttpError(error instanceof Error ? error.message : String(error));
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (!response.ok) {
+      throw statusError(response.status, headers, data);
+    }
+    return { status: response.status, headers, data: data as T };
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * A failed HTTP exchange, as HttpClient implementations report it. `status`
+ * is unset when no response arrived: a timeout or a network failure.
+ * Providers turn it into their domain exceptions; it does not escape the
+ * library.
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly headers: Record<string, string> = {},
+    readonly data?: unknown
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function statusError(status: number, headers: Record<string, string> = {}, data?: unknown): HttpError {
+  return new HttpError(`Request failed with status code ${status}`, status, headers, data);
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryHttpClient } from './in-memory-http-client.js';
+
+describe('InMemoryHttpClient', () => {
+  it('should serve one-off replies in order before standing ones', async () => {
+    const http = new InMemoryHttpClient()
+      .on(/\/prices$/, { data: 'standing' })
+      .once('/prices', { data: 'first' })
+      .once('/prices', request => ({ data: request.params }));
+
+    const get = (params?: Record<string, unknown>) =>
+      http.request({ method: 'GET', url: 'https://api.example.com/prices', params }).then(r => r.data);
+
+    expect(await get()).toBe('first');
+    expect(await get({ ids: 'a' })).toEqual({ ids: 'a' });
+    expect(await get()).toBe('standing');
+    expect(http.requests).toHaveLength(3);
+  });
+
+  it('should fail like a network would for errors, error statuses and unmatched URLs', async () => {
+    const http = new InMemoryHttpClient()
+      .once('/down', new Error('socket hang up'))
+      .once('/limited', { status: 429, headers: { 'Retry-After': '30' } })
+      .on('/rpc', { data: 'ok' }, 'POST');
+
+    await expect(http.request({ method: 'GET', url: 'https://x/down' })).rejects.toMatchObject({
+      message: 'socket hang up',
+      status: undefined
+    });
+    await expect(http.request({ method: 'GET', url: 'https://x/limited' })).rejects.toMatchObject({
+      status: 429,
+      headers: { 'retry-after': '30' }
+    });
+    await expect(http.request({ method: 'GET', url: 'https://x/rpc' })).rejects.toMatchObject({ status: 404 });
+
+    http.reset();
+    expect(http.requests).toEqual([]);
+  });
+});
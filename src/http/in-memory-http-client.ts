@@ -0,0 +1,95 @@
+import { HttpClient, HttpRequest, HttpResponse } from '../types.js';
+import { HttpError, statusError } from './http-error.js';
+import { abortable } from '../utils/abort.js';
+
+export interface CannedResponse {
+  status?: number; // Defaults to 200; 4xx and 5xx reject with HttpError
+  headers?: Record<string, string>;
+  data?: unknown;
+}
+
+// An Error rejects the request the way a network failure does
+export type CannedReply = CannedResponse | Error | ((request: HttpRequest) => CannedResponse | Promise<CannedResponse>);
+
+// A string matches any URL containing it; query parameters are not part of the URL
+export type UrlPattern = string | RegExp;
+
+interface Route {
+  pattern: UrlPattern;
+  method?: HttpRequest['method'];
+  reply: CannedReply;
+}
+
+/**
+ * Transport for tests that serves canned responses by URL pattern instead
+ * of touching the network. One-off replies (`once`) are served in the order
+ * they were added, ahead of standing ones (`on`); a request nothing matches
+ * gets a 404. Every request is recorded in `requests`. A reply function
+ * that never settles holds its request open until the request's signal
+ * aborts.
+ */
+export class InMemoryHttpClient implements HttpClient {
+  readonly requests: HttpRequest[] = [];
+  private standing: Route[] = [];
+  private queued: Route[] = [];
+
+  on(pattern: UrlPattern, reply: CannedReply, method?: HttpRequest['method']): this {
+    this.standing.push({ pattern, reply, method });
+    return this;
+  }
+
+  once(pattern: UrlPattern, reply: CannedReply, method?: HttpRequest['method']): this {
+    this.queued.push({ pattern, reply, method });
+    return this;
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.standing = [];
+    this.queued = [];
+  }
+
+  async request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>> {
+    this.requests.push(request);
+    if (request.signal?.aborted) {
+      throw new HttpError('Request aborted');
+    }
+
+    const queuedIndex = this.queued.findIndex(route => this.matches(route, request));
+    const route = queuedIndex >= 0
+      ? this.queued.splice(queuedIndex, 1)[0]
+      : this.standing.find(r => this.matches(r, request));
+
+    if (!route) {
+      throw statusError(404, {}, `No canned response for ${request.method} ${request.url}`);
+    }
+    if (route.reply instanceof Error) {
+      throw new HttpError(route.reply.message);
+    }
+
+    const reply = route.reply;
+    let response: CannedResponse;
+    try {
+      response = await abortable(Promise.resolve(typeof reply === 'function' ? reply(request) : reply), request.signal);
+    } catch (error) {
+      throw request.signal?.aborted ? new HttpError('Request aborted') : error;
+    }
+
+    const status = response.status ?? 200;
+    const headers = Object.fromEntries(
+      Object.entries(response.headers || {}).map(([name, value]) => [name.toLowerCase(), value])
+    );
+
+    if (status >= 400) {
+      throw statusError(status, headers, response.data);
+    }
+    return { status, headers, data: response.data as T };
+  }
+
+  private matches(route: Route, request: HttpRequest): boolean {
+    if (route.method && route.method !== request.method) {
+      return false;
+    }
+    return typeof route.pattern === 'string' ? request.url.includes(route.pattern) : route.pattern.test(request.url);
+  }
+}
@@ -1,16 +1,157 @@
 export { AssetValuator } from './asset-valuator.js';
-export type { Environment } from './asset-valuator.js';
+export type { Environment, AssetValuatorOptions, StalenessOptions } from './asset-valuator.js';
 export { CoinGeckoProvider } from './providers/coingecko.js';
+export type { CoinGeckoProviderOptions } from './providers/coingecko.js';
 export { CoinPaprikaProvider } from './providers/coinpaprika.js';
+export type { CoinPaprikaProviderOptions } from './providers/coinpaprika.js';
 export { DecentralizedAggregator } from './providers/decentralized-aggregator.js';
+export type { ProviderHealth } from './providers/decentralized-aggregator.js';
 export { TestPriceProvider } from './providers/test-price-provider.js';
+export { StreamingPriceProvider } from './providers/streaming-price-provider.js';
+export type {
+  StreamingPriceProviderOptions,
+  StreamStatus,
+  TickerProtocol,
+  TickerUpdate,
+  WebSocketLike,
+  WebSocketFactory
+} from './providers/streaming-price-provider.js';
+export { CoinbaseTickerProtocol } from './providers/coinbase-ticker-protocol.js';
+export { BinanceProvider } from './providers/binance.js';
+export type { BinanceProviderOptions } from './providers/binance.js';
+export { UniswapPriceProvider, UNISWAP_DEPLOYMENTS } from './providers/uniswap.js';
+export type { UniswapPriceProviderOptions, UniswapDeployment } from './providers/uniswap.js';
+export { ChainlinkPriceProvider, CHAINLINK_FEEDS } from './providers/chainlink.js';
+export type { ChainlinkPriceProviderOptions, ChainlinkFeed, ChainlinkFeedRegistry } from './providers/chainlink.js';
+export { PythPriceProvider, PYTH_FEED_IDS } from './providers/pyth.js';
+export type { PythPriceProviderOptions } from './providers/pyth.js';
+export { StaticFxRateSource } from './fx/static-fx-rate-source.js';
+export { FrankfurterFxRateSource } from './fx/frankfurter-fx-rate-source.js';
+export type { FrankfurterFxRateSourceOptions } from './fx/frankfurter-fx-rate-source.js';
+export { FIAT_CURRENCIES, isFiatCurrency } from './fx/fiat.js';
+export {
+  FilteredMeanStrategy,
+  MedianStrategy,
+  TrimmedMeanStrategy,
+  WeightedByProviderStrategy,
+  FreshnessWeightedStrategy,
+  ConfidenceWeightedStrategy
+} from './strategies/pricing-strategies.js';
+export type {
+  FilteredMeanStrategyOptions,
+  TrimmedMeanStrategyOptions,
+  WeightedByProviderStrategyOptions,
+  FreshnessWeightedStrategyOptions,
+  ConfidenceWeightedStrategyOptions
+} from './strategies/pricing-strategies.js';
+export { AssetRegistry } from './registry/asset-registry.js';
+export type { AssetRegistryOptions } from './registry/asset-registry.js';
+export { DEFAULT_ASSETS, DEFAULT_PEGS } from './registry/default-assets.js';
+export { PegRegistry, isOnPeg, pegDeviation } from './registry/peg-registry.js';
+export type { PegRegistryOptions } from './registry/peg-registry.js';
+export { PegMonitor } from './utils/peg-monitor.js';
+export type { PegMonitorOptions, DepegEvent, DepegListener } from './utils/peg-monitor.js';
+export {
+  AssetValuatorException,
+  AssetNotFoundException,
+  AmbiguousAssetException,
+  ProviderUnavailableException,
+  RateLimitExceededException,
+  UnsupportedCurrencyException,
+  QuorumNotReachedException,
+  StaleDataException,
+  OperationAbortedException
+} from './errors.js';
 export { RateLimiter } from './utils/rate-limiter.js';
+export { JsonRpcClient } from './utils/json-rpc.js';
+export type { JsonRpcConfiguration } from './utils/json-rpc.js';
+export { ProviderHttpClient } from './utils/provider-http.js';
+export type { ProviderEndpoints } from './utils/provider-http.js';
+export { HttpError } from './http/http-error.js';
+export { FetchHttpClient } from './http/fetch-http-client.js';
+export type { FetchHttpClientOptions } from './http/fetch-http-client.js';
+export { AxiosHttpClient } from './http/axios-http-client.js';
+export type { AxiosLike } from './http/axios-http-client.js';
+export { InMemoryHttpClient } from './http/in-memory-http-client.js';
+export type { CannedResponse, CannedReply, UrlPattern } from './http/in-memory-http-client.js';
+export { Decimal } from './utils/decimal.js';
+export { parseAssetId, formatAssetId, normalizeAssetKey } from './utils/asset-id.js';
+export type { RoundingMode, DecimalInput } from './utils/decimal.js';
 export { EdgeCache } from './utils/edge-cache.js';
+export type { EdgeCacheOptions, CacheLookup } from './utils/edge-cache.js';
+export { TieredCache } from './utils/tiered-cache.js';
+export type {
+  CacheTier,
+  TieredCacheOptions,
+  CachePlacement,
+  CacheFetchPolicy,
+  TieredLookup,
+  CacheTierStats,
+  TieredCacheStats
+} from './utils/tiered-cache.js';
+export { PriceScheduler } from './utils/price-scheduler.js';
+export type {
+  PriceSchedulerOptions,
+  SubscriptionOptions,
+  PriceListener,
+  Unsubscribe
+} from './utils/price-scheduler.js';
+export { SingleFlight } from './utils/single-flight.js';
+export { BatchCoalescer } from './utils/batch-coalescer.js';
+export { CircuitBreaker } from './utils/circuit-breaker.js';
+export type { CircuitState, CircuitBreakerOptions, CircuitBreakerStatus } from './utils/circuit-breaker.js';
 export { DataModelConverter } from './converters/data-model-converter.js';
+export {
+  getProviderName,
+  isCoinListProvider,
+  isDetailedBatchProvider,
+  isDetailedHistoricalProvider,
+  isHistoricalPriceProvider,
+  isPriceSeriesProvider,
+  isRateLimitAware
+} from './utils/provider-capabilities.js';
 export type {
   PriceData,
   AssetPrice,
+  AssetIdentifier,
+  AssetReference,
+  PriceSource,
+  PriceProvenance,
   PriceProvider,
+  CallOptions,
+  ProviderConfiguration,
+  ApiKeyPlacement,
+  RetryPolicy,
+  HttpClient,
+  HttpRequest,
+  HttpResponse,
+  PricingStrategy,
+  PricingContext,
+  PricingResult,
+  HistoricalPriceProvider,
+  PriceSeriesProvider,
+  PriceInterval,
+  PriceSeriesOptions,
+  PricePoint,
+  PriceCandle,
+  PriceSeries,
+  RegisteredAsset,
+  PegDefinition,
+  PriceFailure,
+  PriceFailureReason,
+  BatchPriceResult,
+  DetailedBatchPriceProvider,
+  DetailedHistoricalPriceProvider,
+  CoinListEntry,
+  CoinListProvider,
+  FiatCurrency,
+  FxRateSource,
+  RateLimitAware,
   SupportedCurrency,
-  ConversionOptions
+  ConversionOptions,
+  Holding,
+  PortfolioLine,
+  PortfolioValuation,
+  UnpricedHolding,
+  PrecisionOptions
 } from './types.js';
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BinanceProvider } from './binance.js';
+import { DecentralizedAggregator } from './decentralized-aggregator.js';
+import {
+  AssetNotFoundException,
+  ProviderUnavailableException,
+  UnsupportedCurrencyException
+} from '../errors.js';
+import { AssetRegistry } from '../registry/asset-registry.js';
+import { CannedResponse, InMemoryHttpClient } from '../http/in-memory-http-client.js';
+import { HttpRequest } from '../types.js';
+import { StaticFxRateSource } from '../fx/static-fx-rate-source.js';
+import {
+  BINANCE_BOOK_TICKERS,
+  BINANCE_DEPTH_BTCUSDT,
+  BINANCE_DEPTH_EMPTY,
+  BINANCE_INVALID_SYMBOL
+} from '../__fixtures__/binance-responses.js';
+
+// Serves the recorded book tickers filtered by `symbols`, rejecting unlisted pairs as Binance does
+function bookTickers(request: HttpRequest): CannedResponse {
+  const wanted: string[] = JSON.parse(String(request.params?.symbols));
+  const tickers = BINANCE_BOOK_TICKERS.filter(ticker => wanted.includes(ticker.symbol));
+  return tickers.length === wanted.length ? { data: tickers } : { status: 400, data: BINANCE_INVALID_SYMBOL };
+}
+
+describe('BinanceProvider', () => {
+  let provider: BinanceProvider;
+  let http: InMemoryHttpClient;
+
+  beforeEach(() => {
+    http = new InMemoryHttpClient();
+    provider = new BinanceProvider({ httpClient: http });
+  });
+
+  it('should price a pair at the mid of the best bid and ask', async () => {
+    http.once('/api/v3/depth', { data: BINANCE_DEPTH_BTCUSDT });
+
+    const price = await provider.fetchPrice('btc', 'USDT');
+
+    expect(price).toMatchObject({ symbol: 'BTC', price: 67241.995, priceDecimal: '67241.995' });
+    expect(http.requests).toEqual([{
+      method: 'GET',
+      url: 'https://api.binance.com/api/v3/depth',
+      params: { symbol: 'BTCUSDT', limit: 5 },
+      timeoutMs: 10000
+    }]);
+  });
+
+  it('should refuse USD rather than treat USDT as dollars', async () => {
+    expect(provider.quoteCurrencies).not.toContain('USD');
+    await expect(provider.fetchPrice('BTC', 'USD')).rejects.toThrow(UnsupportedCurrencyException);
+    await expect(provider.fetchMultiplePrices(['BTC'], 'USD')).rejects.toThrow(UnsupportedCurrencyException);
+    expect(http.requests).toHaveLength(0);
+  });
+
+  it('should report unlisted pairs and empty books', async () => {
+    http
+      .once('/api/v3/depth', { status: 400, data: BINANCE_INVALID_SYMBOL })
+      .once('/api/v3/depth', { data: BINANCE_DEPTH_EMPTY });
+
+    await expect(provider.fetchPrice('NOPE', 'USDT')).rejects.toThrow(AssetNotFoundException);
+    await expect(provider.fetchPrice('LUNA', 'USDT')).rejects.toThrow(ProviderUnavailableException);
+  });
+
+  it('should ask the bulk ticker for just the requested pairs', async () => {
+    http.on('/api/v3/ticker/bookTicker', bookTickers);
+
+    const result = await provider.fetchMultiplePricesDetailed(['BTC', 'eth'], 'USDT');
+
+    expect(http.requests).toEqual([{
+      method: 'GET',
+      url: 'https://api.binance.com/api/v3/ticker/bookTicker',
+      params: { symbols: '["BTCUSDT","ETHUSDT"]' },
+      timeoutMs: 10000
+    }]);
+    expect(result.prices.map(p => [p.symbol, p.price])).toEqual([['BTC', 67241.995], ['ETH', 3495.515]]);
+  });
+
+  it('should retry pair by pair when the list holds an unlisted pair', async () => {
+    http.on('/api/v3/ticker/bookTicker', bookTickers);
+
+    const result = await provider.fetchMultiplePricesDetailed(['BTC', 'eth', 'SOL', 'LUNA', 'NOPE'], 'USDT');
+
+    expect(http.requests.map(r => r.params?.symbols)).toEqual([
+      '["BTCUSDT","ETHUSDT","SOLUSDT","LUNAUSDT","NOPEUSDT"]',
+      '["BTCUSDT"]',
+      '["ETHUSDT"]',
+      '["SOLUSDT"]',
+      '["LUNAUSDT"]',
+      '["NOPEUSDT"]'
+    ]);
+    expect(result.prices.map(p => [p.symbol, p.price])).toEqual([
+      ['BTC', 67241.995],
+      ['ETH', 3495.515],
+      ['SOL', 171.365]
+    ]);
+    expect(result.failures).toEqual([
+      expect.objectContaining({ symbol: 'LUNA', reason: 'provider-error' }),
+      expect.objectContaining({ symbol: 'NOPE', reason: 'unknown-asset' })
+    ]);
+  });
+
+  it('should resolve registry aliases and price non-dollar quotes', async () => {
+    http.on('/api/v3/ticker/bookTicker', bookTickers);
+
+    expect((await provider.fetchMultiplePrices(['XBT'], 'USDT')).map(p => [p.symbol, p.price])).toEqual([['XBT', 67241.995]]);
+    expect((await provider.fetchMultiplePrices(['ETH'], 'BTC')).map(p => [p.symbol, p.price])).toEqual([['ETH', 0.051985]]);
+  });
+
+  it('should not look up token contracts', async () => {
+    const token = 'eip155:1/erc20:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+    const result = await provider.fetchMultiplePricesDetailed([token], 'USDT');
+
+    expect(result.failures).toEqual([expect.objectContaining({ symbol: token, reason: 'unknown-asset' })]);
+    expect(http.requests).toHaveLength(0);
+  });
+
+  it('should use binance provider ids from the registry', async () => {
+    const registry = new AssetRegistry();
+    registry.register({ symbol: 'WBTC', name: 'Wrapped Bitcoin', providerIds: { binance: 'BTC' } });
+    const custom = new BinanceProvider({ registry, quoteCurrencies: ['usdc'], httpClient: http });
+    http.on('/api/v3/ticker/bookTicker', bookTickers);
+
+    const prices = await custom.fetchMultiplePrices(['WBTC'], 'USDC');
+
+    expect(custom.quoteCurrencies).toEqual(['USDC']);
+    expect(prices.map(p => [p.symbol, p.price])).toEqual([['WBTC', 67245.015]]);
+  });
+
+  it('should contribute USDT prices to USD consensus in the aggregator, marked as such', async () => {
+    http.on('/api/v3/ticker/bookTicker', bookTickers);
+    const aggregator = new DecentralizedAggregator({ providers: [provider], cacheOptions: { storage: 'memory' } });
+
+    const result = await aggregator.fetchMultiplePricesDetailed(['BTC'], 'USD');
+
+    expect(result.prices).toEqual([expect.objectContaining({ symbol: 'BTC', price: 67241.995 })]);
+    expect(result.prices[0].provenance?.sources).toEqual([
+      expect.objectContaining({ provider: 'binance', quotedIn: 'USDT' })
+    ]);
+    expect(http.requests[0].params).toEqual({ symbols: '["BTCUSDT"]' });
+  });
+
+  it('should convert its USDT stand-in for other fiat the exchange does not list', async () => {
+    http.once('/api/v3/depth', { data: BINANCE_DEPTH_BTCUSDT });
+    const usdtOnly = new BinanceProvider({ quoteCurrencies: ['USDT'], httpClient: http });
+    const aggregator = new DecentralizedAggregator({
+      providers: [usdtOnly],
+      cacheOptions: { storage: 'memory' },
+      fxRateSource: new StaticFxRateSource({ GBP: 0.8 })
+    });
+
+    const price = await aggregator.fetchPrice('BTC', 'GBP');
+
+    expect(price.price).toBeCloseTo(53793.596);
+    expect(http.requests[0].params).toEqual({ symbol: 'BTCUSDT', limit: 5 });
+  });
+});
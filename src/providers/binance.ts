@@ -0,0 +1,184 @@
+import {
+  BatchPriceResult,
+  CallOptions,
+  DetailedBatchPriceProvider,
+  PriceData,
+  PriceFailure,
+  ProviderConfiguration
+} from '../types.js';
+import { AssetNotFoundException, ProviderUnavailableException, UnsupportedCurrencyException } from '../errors.js';
+import { ProviderHttpClient } from '../utils/provider-http.js';
+import { missingPriceFailures, toPriceFailure } from '../utils/price-failures.js';
+import { normalizeAssetKey, parseAssetId } from '../utils/asset-id.js';
+import { AssetRegistry } from '../registry/asset-registry.js';
+import { Decimal } from '../utils/decimal.js';
+
+export interface BinanceProviderOptions extends ProviderConfiguration {
+  registry?: AssetRegistry; // Resolves aliases and `binance` provider ids to exchange tickers
+  quoteCurrencies?: string[]; // Quote assets the exchange is asked for
+}
+
+interface BinanceBookTicker {
+  symbol: string;
+  bidPrice: string;
+  askPrice: string;
+}
+
+// [price, quantity]
+type BinanceOrderBookLevel = [string, string];
+
+interface BinanceOrderBook {
+  bids?: BinanceOrderBookLevel[];
+  asks?: BinanceOrderBookLevel[];
+}
+
+// Market data is public; a key, when given, is sent the way Binance expects it
+const ENDPOINTS = {
+  baseUrl: 'https://api.binance.com',
+  apiKeyPlacement: { in: 'header' as const, name: 'X-MBX-APIKEY' }
+};
+
+function midPrice(symbol: string, bid: string | undefined, ask: string | undefined): PriceData | null {
+  if (!bid || !ask || Decimal.from(bid).isZero() || Decimal.from(ask).isZero()) {
+    return null;
+  }
+
+  const mid = Decimal.from(bid).add(ask).div(2, 18).normalize();
+  return { symbol, price: mid.toNumber(), priceDecimal: mid.toString(), timestamp: new Date() };
+}
+
+/**
+ * Binance spot prices as the mid of the best bid and ask, an exchange source
+ * independent of the aggregator APIs. Prices are quoted in the exchange's own
+ * quote assets: USDT is not USD, so asking for USD fails with
+ * UnsupportedCurrencyException instead of passing a USDT book off as dollars.
+ * DecentralizedAggregator asks it for USDT instead and marks those sources.
+ */
+export class BinanceProvider implements DetailedBatchPriceProvider {
+  readonly name = 'binance';
+  readonly quoteCurrencies: string[];
+  private http: ProviderHttpClient;
+  private registry: AssetRegistry;
+
+  constructor(options: BinanceProviderOptions = {}) {
+    this.http = new ProviderHttpClient(this.name, ENDPOINTS, options);
+    this.registry = options.registry || new AssetRegistry();
+    this.quoteCurrencies = (options.quoteCurrencies || ['USDT', 'USDC', 'FDUSD', 'BTC', 'ETH', 'EUR'])
+      .map(quote => quote.toUpperCase());
+  }
+
+  async fetchPrice(symbol: string, currency: string = 'usdt', options: CallOptions = {}): Promise<PriceData> {
+    const key = normalizeAssetKey(symbol);
+    const pair = this.toPair(symbol, currency);
+
+    let book: BinanceOrderBook;
+    try {
+      book = await this.http.get<BinanceOrderBook>('/api/v3/depth', { symbol: pair, limit: 5 }, options);
+    } catch (error) {
+      // Our own parameters are valid, so a 400 means the pair doesn't exist
+      if (error instanceof ProviderUnavailableException && error.status === 400) {
+        throw new AssetNotFoundException(key, this.name, `Binance does not list ${pair}`);
+      }
+      throw error;
+    }
+
+    const price = midPrice(key, book?.bids?.[0]?.[0], book?.asks?.[0]?.[0]);
+    if (!price) {
+      throw new ProviderUnavailableException(this.name, `${pair} order book is empty`);
+    }
+    return price;
+  }
+
+  async fetchMultiplePrices(symbols: string[], currency: string = 'usdt', options: CallOptions = {}): Promise<PriceData[]> {
+    return (await this.fetchMultiplePricesDetailed(symbols, currency, options)).prices;
+  }
+
+  async fetchMultiplePricesDetailed(
+    symbols: string[],
+    currency: string = 'usdt',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    const failures: PriceFailure[] = [];
+    const pairs = new Map<string, string>(); // Exchange pair -> our symbol
+
+    for (const symbol of symbols) {
+      try {
+        pairs.set(this.toPair(symbol, currency), normalizeAssetKey(symbol));
+      } catch (error) {
+        if (error instanceof UnsupportedCurrencyException) {
+          throw error;
+        }
+        failures.push(toPriceFailure(symbol, error));
+      }
+    }
+
+    if (pairs.size === 0) {
+      return { prices: [], failures };
+    }
+
+    const tickers = await this.fetchBookTickers([...pairs.keys()], options);
+
+    const prices: PriceData[] = [];
+    const empty: string[] = [];
+
+    for (const ticker of tickers) {
+      const symbol = pairs.get(ticker.symbol);
+      if (!symbol) {
+        continue;
+      }
+
+      const price = midPrice(symbol, ticker.bidPrice, ticker.askPrice);
+      if (price) {
+        prices.push(price);
+      } else {
+        empty.push(symbol);
+        failures.push(toPriceFailure(symbol, new ProviderUnavailableException(this.name, `${ticker.symbol} order book is empty`)));
+      }
+    }
+
+    const unlisted = [...pairs.values()].filter(symbol => !empty.includes(symbol));
+    failures.push(...missingPriceFailures(unlisted, prices, this.name));
+
+    return { prices, failures };
+  }
+
+  /**
+   * Book tickers for just the given pairs. Binance rejects the whole list
+   * when one pair is unlisted, so that case is retried pair by pair and the
+   * unlisted ones come back without a ticker.
+   */
+  private async fetchBookTickers(pairs: string[], options: CallOptions): Promise<BinanceBookTicker[]> {
+    try {
+      const data = await this.http.get<BinanceBookTicker[]>('/api/v3/ticker/bookTicker', {
+        symbols: JSON.stringify(pairs)
+      }, options);
+      return Array.isArray(data) ? data : [];
+    } catch (error) {
+      if (!(error instanceof ProviderUnavailableException && error.status === 400)) {
+        throw error;
+      }
+      if (pairs.length === 1) {
+        return [];
+      }
+      const perPair = await Promise.all(pairs.map(pair => this.fetchBookTickers([pair], options)));
+      return perPair.flat();
+    }
+  }
+
+  // Exchange pair name, e.g. BTC + USDT -> BTCUSDT
+  private toPair(symbol: string, currency: string): string {
+    const quote = currency.toUpperCase();
+    if (!this.quoteCurrencies.includes(quote)) {
+      throw new UnsupportedCurrencyException(quote, this.name);
+    }
+
+    if (parseAssetId(symbol)) {
+      throw new AssetNotFoundException(normalizeAssetKey(symbol), this.name, 'Binance prices tickers, not token contracts');
+    }
+
+    const base = this.registry.getProviderId(symbol, this.name)
+      || this.registry.resolve(symbol)?.symbol
+      || normalizeAssetKey(symbol);
+    return `${base.toUpperCase()}${quote}`;
+  }
+}
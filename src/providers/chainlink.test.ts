@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ChainlinkPriceProvider, CHAINLINK_FEEDS } from './chainlink.js';
+import { DecentralizedAggregator } from './decentralized-aggregator.js';
+import {
+  AssetNotFoundException,
+  ProviderUnavailableException,
+  UnsupportedCurrencyException
+} from '../errors.js';
+import { JsonRpcStandIn, returnData } from '../__fixtures__/json-rpc-stand-in.js';
+
+const ETH_USD = CHAINLINK_FEEDS[1]['ETH/USD'].address;
+const BTC_USD = CHAINLINK_FEEDS[1]['BTC/USD'].address;
+const PEPE_ETH = '0x3333333333333333333333333333333333333333';
+
+describe('ChainlinkPriceProvider', () => {
+  let node: JsonRpcStandIn;
+  let provider: ChainlinkPriceProvider;
+
+  // answer is the raw integer; updatedAt is in seconds, as on chain
+  function round(feed: string, answer: bigint, updatedAt: number) {
+    const roundId = 110680464442257330000n;
+    node.setCall(feed, '0xfeaf968c', returnData(roundId, answer, updatedAt, updatedAt, roundId));
+  }
+
+  function secondsAgo(seconds: number): number {
+    return Math.floor(Date.now() / 1000) - seconds;
+  }
+
+  beforeEach(async () => {
+    node = new JsonRpcStandIn();
+    await node.start();
+    provider = new ChainlinkPriceProvider({
+      rpcUrls: { 1: node.url },
+      feeds: { 1: { 'PEPE/ETH': { address: PEPE_ETH, heartbeatMs: 24 * 60 * 60 * 1000, decimals: 18 } } }
+    });
+    node.setCall(ETH_USD, '0x313ce567', returnData(8));
+  });
+
+  afterEach(async () => {
+    await node.stop();
+  });
+
+  it('should scale the answer by the feed decimals and use updatedAt as the timestamp', async () => {
+    const updatedAt = secondsAgo(120);
+    round(ETH_USD, 312345678901n, updatedAt);
+
+    const price = await provider.fetchPrice('eth', 'USD');
+
+    expect(price).toEqual({ symbol: 'ETH', price: 3123.45678901, timestamp: new Date(updatedAt * 1000) });
+  });
+
+  it('should read decimals once per feed', async () => {
+    round(ETH_USD, 300000000000n, secondsAgo(60));
+
+    await provider.fetchPrice('ETH');
+    await provider.fetchPrice('ETH');
+
+    expect(node.requests.filter(r => JSON.stringify(r.params).includes('0x313ce567'))).toHaveLength(1);
+  });
+
+  it('should use configured decimals and quotes for custom feeds', async () => {
+    round(PEPE_ETH, 3n * 10n ** 12n, secondsAgo(3600));
+
+    expect(provider.quoteCurrencies).toEqual(['USD', 'ETH']);
+    expect((await provider.fetchPrice('PEPE', 'ETH')).price).toBe(0.000003);
+  });
+
+  it('should reject a round older than the heartbeat', async () => {
+    round(ETH_USD, 300000000000n, secondsAgo(2 * 60 * 60));
+
+    const error = await provider.fetchPrice('ETH').catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderUnavailableException);
+    expect(error.message).toContain('beyond its 3600s heartbeat');
+  });
+
+  it('should reject non-positive answers', async () => {
+    node.setCall(BTC_USD, '0x313ce567', returnData(8));
+    round(BTC_USD, -1n & ((1n << 256n) - 1n), secondsAgo(60));
+
+    await expect(provider.fetchPrice('BTC')).rejects.toThrow('no valid round');
+  });
+
+  it('should reject a feed that reports no decimals instead of assuming 8', async () => {
+    node.setCall(BTC_USD, '0x313ce567', '0x');
+    round(BTC_USD, 6000000000000n, secondsAgo(60));
+
+    const error = await provider.fetchPrice('BTC').catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderUnavailableException);
+    expect(error.message).toContain('returned no decimals');
+  });
+
+  it('should know only configured pairs', async () => {
+    await expect(provider.fetchPrice('SOL', 'USD')).rejects.toThrow(AssetNotFoundException);
+    await expect(provider.fetchPrice('ETH', 'EUR')).rejects.toThrow(UnsupportedCurrencyException);
+    expect(node.requests).toHaveLength(0);
+  });
+
+  it('should plug into the aggregator and report stale feeds as failures', async () => {
+    round(ETH_USD, 300000000000n, secondsAgo(60));
+    node.setCall(BTC_USD, '0x313ce567', returnData(8));
+    round(BTC_USD, 6000000000000n, secondsAgo(2 * 60 * 60));
+    const aggregator = new DecentralizedAggregator({ providers: [provider], cacheOptions: { storage: 'memory' } });
+
+    const result = await aggregator.fetchMultiplePricesDetailed(['ETH', 'BTC'], 'USD');
+
+    expect(result.prices.map(p => [p.symbol, p.price])).toEqual([['ETH', 3000]]);
+    expect(result.failures).toEqual([expect.objectContaining({ symbol: 'BTC', reason: 'provider-error' })]);
+  });
+});
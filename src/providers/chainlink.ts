@@ -0,0 +1,150 @@
+import { BatchPriceResult, CallOptions, DetailedBatchPriceProvider, PriceData } from '../types.js';
+import { AssetNotFoundException, ProviderUnavailableException, UnsupportedCurrencyException } from '../errors.js';
+import { JsonRpcClient, JsonRpcConfiguration, decodeSigned, decodeWords } from '../utils/json-rpc.js';
+import { isPriceFailure, toPriceFailure } from '../utils/price-failures.js';
+import { normalizeAssetKey } from '../utils/asset-id.js';
+import { throwIfAborted, withDeadline } from '../utils/abort.js';
+
+export interface ChainlinkFeed {
+  address: string;
+  heartbeatMs: number; // The feed updates at least this often; older rounds are rejected
+  decimals?: number; // Read from the feed when omitted
+}
+
+// Feeds per EVM chain id, keyed by pair ('ETH/USD')
+export type ChainlinkFeedRegistry = Record<number, Record<string, ChainlinkFeed>>;
+
+export interface ChainlinkPriceProviderOptions extends JsonRpcConfiguration {
+  rpcUrls: Record<number, string>; // JSON-RPC endpoint per EVM chain id
+  feeds?: ChainlinkFeedRegistry; // Merged per chain over CHAINLINK_FEEDS
+  chainId?: number; // Chain whose feeds are read (default Ethereum mainnet)
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const CHAINLINK_FEEDS: ChainlinkFeedRegistry = {
+  1: {
+    'BTC/USD': { address: '0xf4030086522a5beea4988f8ca5b36dbc97bee88c', heartbeatMs: HOUR_MS },
+    'ETH/USD': { address: '0x5f4ec3df9cbd43714fe2740f5e3616155c5b8419', heartbeatMs: HOUR_MS },
+    'LINK/USD': { address: '0x2c1d072e956affc0d435cb7ac38ef18d24d9127c', heartbeatMs: HOUR_MS },
+    'DAI/USD': { address: '0xaed0c38402a5d19df6e4c03f4e2dced6e29c1ee9', heartbeatMs: HOUR_MS },
+    'USDC/USD': { address: '0x8fffffd4afb6115b954bd326cbe7b4ba576818f6', heartbeatMs: DAY_MS },
+    'USDT/USD': { address: '0x3e7d1eab13ad0104d2750b8863b489d65364e32d', heartbeatMs: DAY_MS }
+  }
+};
+
+const SELECTORS = {
+  decimals: '0x313ce567',
+  latestRoundData: '0xfeaf968c'
+};
+
+/**
+ * Reads Chainlink aggregator feeds with `latestRoundData` over JSON-RPC.
+ * The price timestamp is the round's `updatedAt`, and a round older than
+ * the feed's heartbeat means the feed has stopped updating, so it is
+ * rejected rather than served. Only pairs with a configured feed can be
+ * priced; quote currencies are the quote sides of those pairs.
+ */
+export class ChainlinkPriceProvider implements DetailedBatchPriceProvider {
+  readonly name = 'chainlink';
+  readonly quoteCurrencies: string[];
+  private client: JsonRpcClient;
+  private feeds: Record<string, ChainlinkFeed> = {};
+  private decimals = new Map<string, Promise<number>>();
+
+  constructor(options: ChainlinkPriceProviderOptions) {
+    const chainId = options.chainId ?? 1;
+    const url = options.rpcUrls[chainId];
+    if (!url) {
+      throw new Error(`No RPC URL configured for chain ${chainId}`);
+    }
+    this.client = new JsonRpcClient(url, this.name, options);
+
+    for (const [pair, feed] of Object.entries({ ...CHAINLINK_FEEDS[chainId], ...options.feeds?.[chainId] })) {
+      this.feeds[pair.toUpperCase()] = feed;
+    }
+    this.quoteCurrencies = [...new Set(Object.keys(this.feeds).map(pair => pair.split('/')[1]))];
+  }
+
+  async fetchPrice(symbol: string, currency: string = 'usd', options: CallOptions = {}): Promise<PriceData> {
+    const key = normalizeAssetKey(symbol);
+    const pair = `${key}/${currency.toUpperCase()}`;
+    const feed = this.feeds[pair];
+
+    if (!feed) {
+      if (!this.quoteCurrencies.includes(currency.toUpperCase())) {
+        throw new UnsupportedCurrencyException(currency.toUpperCase(), this.name);
+      }
+      throw new AssetNotFoundException(key, this.name, `No Chainlink feed configured for ${pair}`);
+    }
+
+    const [round, decimals] = await Promise.all([
+      this.client.ethCall(feed.address, SELECTORS.latestRoundData, 'latest', options).then(decodeWords),
+      this.getDecimals(feed)
+    ]);
+    const [, answerWord, , updatedAt] = round;
+    const answer = answerWord === undefined ? 0n : decodeSigned(answerWord);
+
+    if (!updatedAt || answer <= 0n) {
+      throw new ProviderUnavailableException(this.name, `${pair} feed returned no valid round`);
+    }
+
+    const ageMs = Date.now() - Number(updatedAt) * 1000;
+    if (ageMs > feed.heartbeatMs) {
+      throw new ProviderUnavailableException(
+        this.name,
+        `${pair} round is ${Math.round(ageMs / 1000)}s old, beyond its ${feed.heartbeatMs / 1000}s heartbeat`
+      );
+    }
+
+    return {
+      symbol: key,
+      price: Number(answer) / 10 ** decimals,
+      timestamp: new Date(Number(updatedAt) * 1000)
+    };
+  }
+
+  async fetchMultiplePrices(symbols: string[], currency: string = 'usd', options: CallOptions = {}): Promise<PriceData[]> {
+    return (await this.fetchMultiplePricesDetailed(symbols, currency, options)).prices;
+  }
+
+  async fetchMultiplePricesDetailed(
+    symbols: string[],
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    return withDeadline(options, async signal => {
+      const outcomes = await Promise.all(symbols.map(symbol =>
+        this.fetchPrice(symbol, currency, { signal }).catch(error => toPriceFailure(symbol, error))
+      ));
+      throwIfAborted(signal);
+
+      return {
+        prices: outcomes.filter((outcome): outcome is PriceData => !isPriceFailure(outcome)),
+        failures: outcomes.filter(isPriceFailure)
+      };
+    });
+  }
+
+  // Shared by concurrent calls, so never bound to one caller's signal
+  private getDecimals(feed: ChainlinkFeed): Promise<number> {
+    if (feed.decimals !== undefined) {
+      return Promise.resolve(feed.decimals);
+    }
+
+    let decimals = this.decimals.get(feed.address);
+    if (!decimals) {
+      decimals = this.client.ethCall(feed.address, SELECTORS.decimals).then(data => {
+        const [value] = decodeWords(data);
+        if (value === undefined) {
+          throw new ProviderUnavailableException(this.name, `feed ${feed.address} returned no decimals`);
+        }
+        return Number(value);
+      });
+      decimals.catch(() => this.decimals.delete(feed.address));
+      this.decimals.set(feed.address, decimals);
+    }
+    return decimals;
+  }
+}
@@ -0,0 +1,58 @@
+import { TickerProtocol, TickerUpdate } from './streaming-price-provider.js';
+
+interface CoinbaseTickerMessage {
+  type: string;
+  product_id?: string;
+  price?: string;
+  best_bid?: string;
+  best_ask?: string;
+  time?: string;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Coinbase Exchange `ticker` channel: one message per trade carrying the
+ * trade price and the best bid/ask. Products are quoted in USD (BTC-USD).
+ */
+export class CoinbaseTickerProtocol implements TickerProtocol {
+  readonly name = 'coinbase';
+  readonly quoteCurrency = 'USD';
+
+  constructor(readonly url: string = 'wss://ws-feed.exchange.coinbase.com') {}
+
+  subscribeMessages(symbols: string[]): string[] {
+    return [JSON.stringify({
+      type: 'subscribe',
+      product_ids: symbols.map(symbol => `${symbol.toUpperCase()}-${this.quoteCurrency}`),
+      channels: ['ticker']
+    })];
+  }
+
+  unsubscribeMessages(symbols: string[]): string[] {
+    return [JSON.stringify({
+      type: 'unsubscribe',
+      product_ids: symbols.map(symbol => `${symbol.toUpperCase()}-${this.quoteCurrency}`),
+      channels: ['ticker']
+    })];
+  }
+
+  parseMessage(data: string): TickerUpdate[] {
+    const message: CoinbaseTickerMessage = JSON.parse(data);
+
+    if (message.type !== 'ticker' || !message.product_id) {
+      return [];
+    }
+
+    return [{
+      symbol: message.product_id.split('-')[0],
+      price: toNumber(message.price),
+      bid: toNumber(message.best_bid),
+      ask: toNumber(message.best_ask),
+      timestamp: message.time ? new Date(message.time) : undefined
+    }];
+  }
+}
@@ -1,29 +1,35 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import axios from 'axios';
 import { CoinGeckoProvider } from './coingecko.js';
-
-vi.mock('axios', () => {
-  return {
-    default: {
-      get: vi.fn(),
-      isAxiosError: vi.fn(() => false),
-    },
-  };
-});
-
-const mockedAxios = vi.mocked(axios);
+import {
+  AmbiguousAssetException,
+  AssetNotFoundException,
+  ProviderUnavailableException,
+  RateLimitExceededException
+} from '../errors.js';
+import { AssetRegistry } from '../registry/asset-registry.js';
+import { PegMonitor } from '../utils/peg-monitor.js';
+import { InMemoryHttpClient } from '../http/in-memory-http-client.js';
+
+const SIMPLE_PRICE = 'https://api.coingecko.com/api/v3/simple/price';
 
 describe('CoinGeckoProvider', () => {
   let provider: CoinGeckoProvider;
+  let pegMonitor: PegMonitor;
+  let http: InMemoryHttpClient;
 
   beforeEach(() => {
-    provider = new CoinGeckoProvider();
-    vi.clearAllMocks();
+    pegMonitor = new PegMonitor();
+    http = new InMemoryHttpClient();
+    provider = new CoinGeckoProvider({ pegMonitor, httpClient: http });
   });
 
+  function observeOnPeg(...symbols: string[]) {
+    symbols.forEach(symbol => pegMonitor.observe(symbol, 1.0002, 'USD'));
+  }
+
   describe('PYUSD symbol mapping', () => {
     it('should map PYUSD to paypal-usd CoinGecko ID', async () => {
-      mockedAxios.get.mockResolvedValueOnce({
+      http.once(SIMPLE_PRICE, {
         data: {
           'paypal-usd': { usd: 0.9998 }
         }
@@ -36,119 +42,103 @@ describe('CoinGeckoProvider', () => {
         price: 0.9998,
         timestamp: expect.any(Date)
       });
-      expect(mockedAxios.get).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({
-          params: { ids: 'paypal-usd', vs_currencies: 'usd' }
-        })
-      );
+      expect(http.requests[0].params).toEqual({ ids: 'paypal-usd', vs_currencies: 'usd' });
     });
+  });
 
-    it('should return 1 USD for PYUSD when API fails (stablecoin fallback)', async () => {
-      mockedAxios.get.mockRejectedValueOnce(new Error('API Error'));
+  describe('Stablecoin peg fallback', () => {
+    describe('fetchPrice', () => {
+      it('should fall back to the peg, flagged as assumed, after on-peg observations', async () => {
+        observeOnPeg('USDC');
+        http.once(SIMPLE_PRICE, new Error('API Error'));
 
-      const result = await provider.fetchPrice('PYUSD', 'USD');
+        const result = await provider.fetchPrice('USDC', 'USD');
 
-      expect(result).toEqual({
-        symbol: 'PYUSD',
-        price: 1,
-        timestamp: expect.any(Date)
+        expect(result).toEqual({ symbol: 'USDC', price: 1, timestamp: expect.any(Date), assumed: true });
       });
-    });
-
-    it('should include PYUSD in fetchMultiplePrices stablecoin fallback', async () => {
-      mockedAxios.get.mockRejectedValueOnce(new Error('API Error'));
 
-      const result = await provider.fetchMultiplePrices(['PYUSD', 'USDC'], 'USD');
+      it('should record observed prices for the fallback', async () => {
+        http
+          .once(SIMPLE_PRICE, { data: { 'paypal-usd': { usd: 0.9998 } } })
+          .once(SIMPLE_PRICE, new Error('API Error'));
 
-      expect(result).toEqual([
-        { symbol: 'PYUSD', price: 1, timestamp: expect.any(Date) },
-        { symbol: 'USDC', price: 1, timestamp: expect.any(Date) }
-      ]);
-    });
+        await provider.fetchPrice('PYUSD', 'USD');
 
-    it('should fallback PYUSD to 1 USD when missing from batch response', async () => {
-      mockedAxios.get.mockResolvedValueOnce({
-        data: {
-          bitcoin: { usd: 50000 }
-        }
+        expect(await provider.fetchPrice('PYUSD', 'USD')).toMatchObject({ price: 1, assumed: true });
       });
 
-      const result = await provider.fetchMultiplePrices(['BTC', 'PYUSD'], 'USD');
-
-      expect(result).toEqual([
-        { symbol: 'BTC', price: 50000, timestamp: expect.any(Date) },
-        { symbol: 'PYUSD', price: 1, timestamp: expect.any(Date) }
-      ]);
-    });
-  });
+      it('should not fall back for a stablecoin that was never observed', async () => {
+        http.once(SIMPLE_PRICE, new Error('API Error'));
 
-  describe('Stablecoin fallback behavior', () => {
-    describe('fetchPrice', () => {
-      it('should return 1 USD for USDC when API fails', async () => {
-        mockedAxios.get.mockRejectedValueOnce(new Error('API Error'));
+        await expect(provider.fetchPrice('USDT', 'USD')).rejects.toThrow(ProviderUnavailableException);
+      });
 
-        const result = await provider.fetchPrice('USDC', 'USD');
+      it('should not fall back while recent prices were off peg', async () => {
+        observeOnPeg('DAI');
+        pegMonitor.observe('DAI', 0.97, 'USD');
+        http.once(SIMPLE_PRICE, new Error('API Error'));
 
-        expect(result).toEqual({
-          symbol: 'USDC',
-          price: 1,
-          timestamp: expect.any(Date)
-        });
+        await expect(provider.fetchPrice('DAI', 'USD')).rejects.toThrow();
       });
 
-      it('should return 1 USD for USDT when API fails', async () => {
-        mockedAxios.get.mockRejectedValueOnce(new Error('API Error'));
+      it('should throw error for non-stablecoin when API fails', async () => {
+        http.once(SIMPLE_PRICE, new Error('API Error'));
+
+        await expect(provider.fetchPrice('BTC', 'USD')).rejects.toThrow();
+      });
 
-        const result = await provider.fetchPrice('USDT', 'USD');
+      it('should throw error for stablecoin in non-USD currency when API fails', async () => {
+        observeOnPeg('USDC');
+        http.once(SIMPLE_PRICE, new Error('API Error'));
 
-        expect(result).toEqual({
-          symbol: 'USDT',
-          price: 1,
-          timestamp: expect.any(Date)
-        });
+        await expect(provider.fetchPrice('USDC', 'EUR')).rejects.toThrow();
       });
 
-      it('should return 1 USD for DAI when API fails', async () => {
-        mockedAxios.get.mockRejectedValueOnce(new Error('API Error'));
+      it('should report an unreachable API as ProviderUnavailableException', async () => {
+        http.once(SIMPLE_PRICE, { status: 503 });
 
-        const result = await provider.fetchPrice('DAI', 'USD');
+        const error = await provider.fetchPrice('BTC', 'USD').catch(e => e);
 
-        expect(result).toEqual({
-          symbol: 'DAI',
-          price: 1,
-          timestamp: expect.any(Date)
-        });
+        expect(error).toBeInstanceOf(ProviderUnavailableException);
+        expect(error).toMatchObject({ provider: 'coingecko', status: 503 });
       });
 
-      it('should throw error for non-stablecoin when API fails', async () => {
-        mockedAxios.get.mockRejectedValueOnce(new Error('API Error'));
+      it('should report HTTP 429 as RateLimitExceededException with the Retry-After delay', async () => {
+        http.once(SIMPLE_PRICE, { status: 429, headers: { 'Retry-After': '30' } });
 
-        await expect(provider.fetchPrice('BTC', 'USD')).rejects.toThrow();
+        const error = await provider.fetchPrice('BTC', 'USD').catch(e => e);
+
+        expect(error).toBeInstanceOf(RateLimitExceededException);
+        expect(error).toMatchObject({ provider: 'coingecko', retryAfterMs: 30000 });
       });
 
-      it('should throw error for stablecoin in non-USD currency when API fails', async () => {
-        mockedAxios.get.mockRejectedValueOnce(new Error('API Error'));
+      it('should report a missing price as AssetNotFoundException', async () => {
+        http.once(SIMPLE_PRICE, { data: {} });
 
-        await expect(provider.fetchPrice('USDC', 'EUR')).rejects.toThrow();
+        const error = await provider.fetchPrice('BTC', 'USD').catch(e => e);
+
+        expect(error).toBeInstanceOf(AssetNotFoundException);
+        expect(error).toMatchObject({ symbol: 'BTC', provider: 'coingecko' });
       });
     });
 
     describe('fetchMultiplePrices', () => {
-      it('should return 1 USD for stablecoins when API fails completely', async () => {
-        mockedAxios.get.mockRejectedValueOnce(new Error('API Error'));
+      it('should fall back to the peg for stablecoins on peg when API fails completely', async () => {
+        observeOnPeg('USDC', 'USDT');
+        http.once(SIMPLE_PRICE, new Error('API Error'));
 
-        const result = await provider.fetchMultiplePrices(['USDC', 'USDT', 'DAI'], 'USD');
+        const result = await provider.fetchMultiplePricesDetailed(['USDC', 'USDT', 'DAI'], 'USD');
 
-        expect(result).toEqual([
-          { symbol: 'USDC', price: 1, timestamp: expect.any(Date) },
-          { symbol: 'USDT', price: 1, timestamp: expect.any(Date) },
-          { symbol: 'DAI', price: 1, timestamp: expect.any(Date) }
+        expect(result.prices).toEqual([
+          { symbol: 'USDC', price: 1, timestamp: expect.any(Date), assumed: true },
+          { symbol: 'USDT', price: 1, timestamp: expect.any(Date), assumed: true }
         ]);
+        expect(result.failures.map(f => f.symbol)).toEqual(['DAI']);
       });
 
-      it('should return 1 USD for stablecoins when their prices are not found', async () => {
-        mockedAxios.get.mockResolvedValueOnce({
+      it('should fall back to the peg for stablecoins missing from the response', async () => {
+        observeOnPeg('USDC');
+        http.once(SIMPLE_PRICE, {
           data: {
             bitcoin: { usd: 50000 },
             // USDC not in response
@@ -159,27 +149,217 @@ describe('CoinGeckoProvider', () => {
 
         expect(result).toEqual([
           { symbol: 'BTC', price: 50000, timestamp: expect.any(Date) },
-          { symbol: 'USDC', price: 1, timestamp: expect.any(Date) }
+          { symbol: 'USDC', price: 1, timestamp: expect.any(Date), assumed: true }
         ]);
       });
 
-      it('should handle mixed stablecoins and regular tokens when API fails', async () => {
-        mockedAxios.get.mockRejectedValueOnce(new Error('API Error'));
+      it('should observe batch prices and report a depeg', async () => {
+        const listener = vi.fn();
+        pegMonitor.onDepeg(listener);
+        http.once(SIMPLE_PRICE, { data: { 'usd-coin': { usd: 0.88 }, bitcoin: { usd: 50000 } } });
 
-        const result = await provider.fetchMultiplePrices(['BTC', 'USDC', 'ETH', 'USDT'], 'USD');
+        await provider.fetchMultiplePrices(['USDC', 'BTC'], 'USD');
 
-        // Should only return stablecoins
-        expect(result).toEqual([
-          { symbol: 'USDC', price: 1, timestamp: expect.any(Date) },
-          { symbol: 'USDT', price: 1, timestamp: expect.any(Date) }
-        ]);
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ asset: 'USDC', price: 0.88 }));
+        expect(pegMonitor.isDepegged('USDC')).toBe(true);
       });
 
       it('should throw error when no stablecoins and API fails', async () => {
-        mockedAxios.get.mockRejectedValueOnce(new Error('API Error'));
+        http.once(SIMPLE_PRICE, new Error('API Error'));
 
         await expect(provider.fetchMultiplePrices(['BTC', 'ETH'], 'USD')).rejects.toThrow();
       });
     });
   });
+
+  describe('historical prices', () => {
+    it('should query the coin history endpoint with a dd-mm-yyyy date', async () => {
+      http.once('/coins/bitcoin/history', {
+        data: {
+          id: 'bitcoin',
+          market_data: { current_price: { usd: 42123.5 } }
+        }
+      });
+
+      const result = await provider.fetchHistoricalPrice('BTC', new Date('2024-01-05T18:30:00Z'), 'USD');
+
+      expect(result).toEqual({
+        symbol: 'BTC',
+        price: 42123.5,
+        timestamp: new Date('2024-01-05T00:00:00Z')
+      });
+      expect(http.requests).toEqual([{
+        method: 'GET',
+        url: 'https://api.coingecko.com/api/v3/coins/bitcoin/history',
+        params: { date: '05-01-2024', localization: false },
+        timeoutMs: 10000
+      }]);
+    });
+
+    it('should not apply the stablecoin fallback to historical prices', async () => {
+      http.once('/coins/usd-coin/history', new Error('API Error'));
+
+      await expect(provider.fetchHistoricalPrice('USDC', new Date('2024-01-05'), 'USD')).rejects.toThrow();
+    });
+
+    it('should skip symbols without market data in fetchHistoricalPrices', async () => {
+      http
+        .once('/coins/ethereum/history', { data: { market_data: { current_price: { usd: 2300 } } } })
+        .once('/coins/solana/history', { data: { id: 'solana' } });
+
+      const result = await provider.fetchHistoricalPrices(['ETH', 'SOL'], new Date('2024-01-05'), 'USD');
+
+      expect(result).toEqual([
+        { symbol: 'ETH', price: 2300, timestamp: new Date('2024-01-05T00:00:00Z') }
+      ]);
+    });
+
+    it('should report each historical symbol it could not price', async () => {
+      http
+        .once('/coins/ethereum/history', { data: { market_data: { current_price: { usd: 2300 } } } })
+        .once('/coins/solana/history', { data: { id: 'solana' } })
+        .once('/coins/bitcoin/history', { status: 503 });
+
+      const result = await provider.fetchHistoricalPricesDetailed(['ETH', 'SOL', 'BTC'], new Date('2024-01-05'), 'USD');
+
+      expect(result.prices.map(p => [p.symbol, p.price])).toEqual([['ETH', 2300]]);
+      expect(result.failures.map(f => [f.symbol, f.reason])).toEqual([
+        ['SOL', 'unknown-asset'],
+        ['BTC', 'provider-error']
+      ]);
+    });
+
+    it('should not swallow a rate limit in fetchHistoricalPrices', async () => {
+      http
+        .once('/coins/ethereum/history', { data: { market_data: { current_price: { usd: 2300 } } } })
+        .once('/coins/solana/history', { status: 429, headers: { 'Retry-After': '30' } });
+
+      await expect(provider.fetchHistoricalPrices(['ETH', 'SOL'], new Date('2024-01-05'), 'USD'))
+        .rejects.toBeInstanceOf(RateLimitExceededException);
+    });
+  });
+
+  describe('contract identifiers', () => {
+    const USDC_ETHEREUM = 'eip155:1/erc20:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+    const USDC_POLYGON = 'eip155:137/erc20:0x3c499c542cef5e3811e1192ce70d8cc03d5c3359';
+
+    it('should price a CAIP-19 asset through the token_price endpoint', async () => {
+      http.once('/simple/token_price/ethereum', {
+        data: { '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': { usd: 0.9997 } }
+      });
+
+      const result = await provider.fetchPrice('eip155:1/erc20:0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 'USD');
+
+      expect(result).toEqual({ symbol: USDC_ETHEREUM, price: 0.9997, timestamp: expect.any(Date) });
+      expect(http.requests).toEqual([{
+        method: 'GET',
+        url: 'https://api.coingecko.com/api/v3/simple/token_price/ethereum',
+        params: { contract_addresses: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', vs_currencies: 'usd' },
+        timeoutMs: 10000
+      }]);
+    });
+
+    it('should make one token_price request per chain in fetchMultiplePrices', async () => {
+      http
+        .once(SIMPLE_PRICE, { data: { bitcoin: { usd: 50000 } } })
+        .once('/token_price/ethereum', { data: { '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': { usd: 1.0001 } } })
+        .once('/token_price/polygon-pos', { data: { '0x3c499c542cef5e3811e1192ce70d8cc03d5c3359': { usd: 0.9999 } } });
+
+      const result = await provider.fetchMultiplePrices(['BTC', USDC_ETHEREUM, USDC_POLYGON], 'USD');
+
+      expect(result.map(p => [p.symbol, p.price])).toEqual([
+        ['BTC', 50000],
+        [USDC_ETHEREUM, 1.0001],
+        [USDC_POLYGON, 0.9999]
+      ]);
+      expect(http.requests).toHaveLength(3);
+    });
+
+    it('should fail only the tokens on chains without a platform or whose platform failed', async () => {
+      http
+        .once(SIMPLE_PRICE, { data: { bitcoin: { usd: 50000 } } })
+        .once('/token_price/ethereum', { status: 503 });
+      const unknownChain = 'eip155:999999/erc20:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+      const result = await provider.fetchMultiplePricesDetailed(['BTC', USDC_ETHEREUM, unknownChain], 'USD');
+
+      expect(result.prices.map(p => [p.symbol, p.price])).toEqual([['BTC', 50000]]);
+      expect(result.failures.map(f => [f.symbol, f.reason])).toEqual([
+        [unknownChain, 'unknown-asset'],
+        [USDC_ETHEREUM, 'provider-error']
+      ]);
+    });
+
+    it('should refuse to guess an id for an unknown ticker', async () => {
+      const error = await provider.fetchPrice('PEPE', 'USD').catch(e => e);
+
+      expect(error).toBeInstanceOf(AssetNotFoundException);
+      expect(error).not.toBeInstanceOf(AmbiguousAssetException);
+      expect(http.requests).toHaveLength(0);
+    });
+
+    it('should call a ticker ambiguous when the coin list holds several coins for it', async () => {
+      const registry = new AssetRegistry();
+      http.once('/coins/list', { data: [
+        { id: 'moon', symbol: 'moon', name: 'Moon' },
+        { id: 'moon-token', symbol: 'moon', name: 'Moon Token' }
+      ] });
+      const ambiguous = new CoinGeckoProvider({ registry, httpClient: http });
+      await registry.refresh([ambiguous]);
+
+      await expect(ambiguous.fetchPrice('MOON', 'USD')).rejects.toThrow(AmbiguousAssetException);
+      expect((await ambiguous.fetchMultiplePricesDetailed(['MOON'], 'USD')).failures)
+        .toEqual([expect.objectContaining({ symbol: 'MOON', message: expect.stringMatching(/single asset/) })]);
+    });
+
+    it('should leave unknown tickers out of fetchMultiplePrices', async () => {
+      http.once(SIMPLE_PRICE, { data: { ethereum: { usd: 3000 } } });
+
+      const result = await provider.fetchMultiplePrices(['ETH', 'PEPE'], 'USD');
+
+      expect(result.map(p => p.symbol)).toEqual(['ETH']);
+      expect(http.requests.map(r => r.params)).toEqual([{ ids: 'ethereum', vs_currencies: 'usd' }]);
+    });
+  });
+
+  describe('asset registry', () => {
+    it('should look up coin ids in the supplied registry', async () => {
+      const registry = new AssetRegistry();
+      registry.register({ symbol: 'PEPE', providerIds: { coingecko: 'pepe' } });
+      http.once(SIMPLE_PRICE, { data: { pepe: { usd: 0.00001234 } } });
+
+      const result = await new CoinGeckoProvider({ registry, httpClient: http }).fetchPrice('PEPE', 'USD');
+
+      expect(result.price).toBe(0.00001234);
+      expect(http.requests.map(r => [r.url, r.params])).toEqual([
+        [SIMPLE_PRICE, { ids: 'pepe', vs_currencies: 'usd' }]
+      ]);
+    });
+
+    it('should list coins from the coins/list endpoint', async () => {
+      http.once('/coins/list', {
+        data: [{ id: 'bitcoin', symbol: 'btc', name: 'Bitcoin', platforms: {} }]
+      });
+
+      expect(await provider.fetchCoinList()).toEqual([{ id: 'bitcoin', symbol: 'btc', name: 'Bitcoin' }]);
+      expect(http.requests.map(r => r.url)).toEqual(['https://api.coingecko.com/api/v3/coins/list']);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should call the Pro API with the key header when a key is configured', async () => {
+      const pro = new CoinGeckoProvider({ apiKey: 'CG-pro-key', timeoutMs: 3000, httpClient: http });
+      http.once('/simple/price', { data: { bitcoin: { usd: 50000 } } });
+
+      await pro.fetchPrice('BTC', 'USD');
+
+      expect(http.requests).toEqual([{
+        method: 'GET',
+        url: 'https://pro-api.coingecko.com/api/v3/simple/price',
+        params: { ids: 'bitcoin', vs_currencies: 'usd' },
+        timeoutMs: 3000,
+        headers: { 'x-cg-pro-api-key': 'CG-pro-key' }
+      }]);
+    });
+  });
 });
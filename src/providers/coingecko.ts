@@ -1,146 +1,426 @@
-import axios from 'axios';
-import { PriceData, PriceProvider } from '../types.js';
-
-export class CoinGeckoProvider implements PriceProvider {
-  private baseUrl = 'https://api.coingecko.com/api/v3';
-  private stablecoins = new Set(['USDC', 'USDT', 'DAI', 'PYUSD']);
-  private symbolToIdMap: Map<string, string> = new Map([
-    ['BTC', 'bitcoin'],
-    ['ETH', 'ethereum'],
-    ['USDT', 'tether'],
-    ['USDC', 'usd-coin'],
-    ['BNB', 'binancecoin'],
-    ['SOL', 'solana'],
-    ['XRP', 'ripple'],
-    ['ADA', 'cardano'],
-    ['DOGE', 'dogecoin'],
-    ['AVAX', 'avalanche-2'],
-    ['DOT', 'polkadot'],
-    ['MATIC', 'matic-network'],
-    ['LINK', 'chainlink'],
-    ['UNI', 'uniswap'],
-    ['ATOM', 'cosmos'],
-    ['LTC', 'litecoin'],
-    ['DAI', 'dai'],
-    ['WBTC', 'wrapped-bitcoin'],
-    ['AAVE', 'aave'],
-    ['COMP', 'compound-governance-token'],
-    ['CRV', 'curve-dao-token'],
-    ['MKR', 'maker'],
-    ['SNX', 'synthetix-network-token'],
-    ['SUSHI', 'sushi'],
-    ['YFI', 'yearn-finance'],
-    ['PYUSD', 'paypal-usd'],
-  ]);
+import {
+  AssetIdentifier,
+  BatchPriceResult,
+  CallOptions,
+  CoinListEntry,
+  CoinListProvider,
+  DetailedBatchPriceProvider,
+  DetailedHistoricalPriceProvider,
+  PriceData,
+  PriceFailure,
+  PricePoint,
+  PriceSeriesOptions,
+  PriceSeriesProvider,
+  ProviderConfiguration
+} from '../types.js';
+import { AmbiguousAssetException, AssetNotFoundException } from '../errors.js';
+import { toProviderException } from '../utils/provider-errors.js';
+import { ProviderHttpClient } from '../utils/provider-http.js';
+import { fetchEachDetailed, missingPriceFailures, toPriceFailure } from '../utils/price-failures.js';
+import { normalizeAssetKey, parseAssetId } from '../utils/asset-id.js';
+import { throwIfAborted, withDeadline } from '../utils/abort.js';
+import { AssetRegistry } from '../registry/asset-registry.js';
+import { PegMonitor } from '../utils/peg-monitor.js';
+
+export interface CoinGeckoProviderOptions extends ProviderConfiguration {
+  registry?: AssetRegistry; // Source of CoinGecko coin ids; defaults to the bundled snapshot
+  pegMonitor?: PegMonitor; // Decides when a stablecoin's peg may stand in for a failed fetch
+}
+
+// EVM chain id -> CoinGecko asset platform id
+const CHAIN_PLATFORMS: Record<number, string> = {
+  1: 'ethereum',
+  10: 'optimistic-ethereum',
+  56: 'binance-smart-chain',
+  137: 'polygon-pos',
+  8453: 'base',
+  42161: 'arbitrum-one',
+  43114: 'avalanche',
+};
+
+// A key selects the Pro API, which expects it in this header
+const ENDPOINTS = {
+  baseUrl: 'https://api.coingecko.com/api/v3',
+  paidBaseUrl: 'https://pro-api.coingecko.com/api/v3',
+  apiKeyPlacement: { in: 'header' as const, name: 'x-cg-pro-api-key' }
+};
+
+// vs currency -> price, keyed by coin id or contract address
+type CoinGeckoSimplePrices = Record<string, Record<string, number> | undefined>;
+
+interface CoinGeckoHistory {
+  market_data?: { current_price?: Record<string, number> };
+}
+
+interface CoinGeckoMarketChart {
+  prices?: [number, number][];
+}
+
+export class CoinGeckoProvider
+  implements DetailedHistoricalPriceProvider, PriceSeriesProvider, CoinListProvider, DetailedBatchPriceProvider {
+  readonly name = 'coingecko';
+  private http: ProviderHttpClient;
+  private registry: AssetRegistry;
+  private pegMonitor: PegMonitor;
+
+  constructor(options: CoinGeckoProviderOptions = {}) {
+    this.http = new ProviderHttpClient(this.name, ENDPOINTS, options);
+    this.registry = options.registry || new AssetRegistry();
+    this.pegMonitor = options.pegMonitor || new PegMonitor();
+  }
 
   private getCoingeckoId(symbol: string): string {
-    return this.symbolToIdMap.get(symbol.toUpperCase()) || symbol.toLowerCase();
+    const id = this.registry.getProviderId(symbol, this.name);
+    if (!id) {
+      throw this.unresolvedTicker(symbol);
+    }
+    return id;
   }
 
-  async fetchPrice(symbol: string, currency: string = 'usd'): Promise<PriceData> {
+  // Several coins share an ambiguous ticker; otherwise none is known by it
+  private unresolvedTicker(symbol: string): AssetNotFoundException {
+    const key = symbol.toUpperCase();
+    return this.registry.isAmbiguous(key, this.name)
+      ? new AmbiguousAssetException(key, this.name)
+      : new AssetNotFoundException(key, this.name);
+  }
+
+  private getPlatform(assetId: AssetIdentifier): string {
+    const platform = CHAIN_PLATFORMS[Number(assetId.chainId)];
+    if (!platform) {
+      throw new AssetNotFoundException(
+        normalizeAssetKey(assetId),
+        this.name,
+        `CoinGecko has no asset platform for chain ${assetId.chainId}`
+      );
+    }
+    return platform;
+  }
+
+  async fetchPrice(symbol: string, currency: string = 'usd', options: CallOptions = {}): Promise<PriceData> {
+    const assetId = parseAssetId(symbol);
+    if (assetId) {
+      this.getPlatform(assetId);
+      const [price] = await this.fetchTokenPrices([assetId], currency, options);
+      if (!price) {
+        throw new AssetNotFoundException(normalizeAssetKey(assetId), this.name);
+      }
+      return price;
+    }
+
     const id = this.getCoingeckoId(symbol);
-    const url = `${this.baseUrl}/simple/price`;
     
     try {
-      const response = await axios.get(url, {
-        params: {
-          ids: id,
-          vs_currencies: currency.toLowerCase()
-        }
-      });
+      const data = await this.http.get<CoinGeckoSimplePrices>('/simple/price', {
+        ids: id,
+        vs_currencies: currency.toLowerCase()
+      }, options);
 
-      const price = response.data[id]?.[currency.toLowerCase()];
+      const price = data[id]?.[currency.toLowerCase()];
       
       if (price === undefined) {
-        throw new Error(`Price not found for ${symbol} in ${currency}`);
+        throw new AssetNotFoundException(normalizeAssetKey(symbol), this.name);
       }
 
+      this.pegMonitor.observe(symbol, price, currency);
+
       return {
-        symbol: symbol.toUpperCase(),
+        symbol: normalizeAssetKey(symbol),
         price,
         timestamp: new Date()
       };
     } catch (error) {
-      // For stablecoins, return 1 USD if we can't fetch the price
-      if (this.stablecoins.has(symbol.toUpperCase()) && currency.toLowerCase() === 'usd') {
-        return {
-          symbol: symbol.toUpperCase(),
-          price: 1,
-          timestamp: new Date()
-        };
+      throwIfAborted(options.signal);
+
+      // A stablecoin that traded on peg recently may fall back to its peg
+      const fallback = this.pegMonitor.fallback(symbol, currency);
+      if (fallback) {
+        return fallback;
       }
       
-      if (axios.isAxiosError(error)) {
-        throw new Error(`Failed to fetch price: ${error.message}`);
+      throw toProviderException(this.name, error);
+    }
+  }
+
+  async fetchMultiplePrices(symbols: string[], currency: string = 'usd', options: CallOptions = {}): Promise<PriceData[]> {
+    return (await this.fetchMultiplePricesDetailed(symbols, currency, options)).prices;
+  }
+
+  async fetchMultiplePricesDetailed(
+    symbols: string[],
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    const assetIds = symbols.map(s => parseAssetId(s)).filter((id): id is AssetIdentifier => id !== null);
+    const failures: PriceFailure[] = [];
+    const tickers: string[] = [];
+
+    // Tickers that can't be resolved without guessing are left out of the batch
+    for (const symbol of symbols.filter(s => !parseAssetId(s))) {
+      if (this.registry.getProviderId(symbol, this.name) !== null) {
+        tickers.push(symbol);
+      } else {
+        failures.push(toPriceFailure(symbol, this.unresolvedTicker(symbol)));
+      }
+    }
+
+    const prices = tickers.length > 0 ? await this.fetchTickerPrices(tickers, currency, options, failures) : [];
+    if (assetIds.length > 0) {
+      try {
+        prices.push(...await this.fetchTokenPrices(assetIds, currency, options, failures));
+      } catch (error) {
+        // The ticker half of the batch was already answered, so only the tokens failed
+        throwIfAborted(options.signal);
+        if (tickers.length === 0) {
+          throw error;
+        }
+        failures.push(...assetIds.map(id => toPriceFailure(normalizeAssetKey(id), error)));
+      }
+    }
+
+    const failed = new Set(failures.map(f => f.symbol));
+    const requested = [...tickers, ...assetIds.map(id => normalizeAssetKey(id))].filter(s => !failed.has(normalizeAssetKey(s)));
+    failures.push(...missingPriceFailures(requested, prices, this.name));
+
+    return { prices, failures };
+  }
+
+  /**
+   * Prices contract tokens through the token_price endpoint, one request per
+   * asset platform. Tokens on chains without a platform and platforms that
+   * fail are skipped and their tokens added to `failures`.
+   */
+  private async fetchTokenPrices(
+    assetIds: AssetIdentifier[],
+    currency: string,
+    options: CallOptions,
+    failures: PriceFailure[] = []
+  ): Promise<PriceData[]> {
+    const byPlatform = new Map<string, AssetIdentifier[]>();
+
+    for (const assetId of assetIds) {
+      try {
+        const platform = this.getPlatform(assetId);
+        byPlatform.set(platform, [...(byPlatform.get(platform) || []), assetId]);
+      } catch (error) {
+        failures.push(toPriceFailure(normalizeAssetKey(assetId), error));
+      }
+    }
+
+    const results: PriceData[] = [];
+    const timestamp = new Date();
+
+    for (const [platform, ids] of byPlatform.entries()) {
+      try {
+        const data = await this.http.get<CoinGeckoSimplePrices>(`/simple/token_price/${platform}`, {
+          contract_addresses: ids.map(id => id.address.toLowerCase()).join(','),
+          vs_currencies: currency.toLowerCase()
+        }, options);
+
+        for (const id of ids) {
+          const price = data[id.address.toLowerCase()]?.[currency.toLowerCase()];
+          if (price !== undefined) {
+            results.push({ symbol: normalizeAssetKey(id), price, timestamp });
+          }
+        }
+      } catch (error) {
+        throwIfAborted(options.signal);
+        if (ids.length === assetIds.length) {
+          throw toProviderException(this.name, error);
+        }
+        console.warn(`Failed to fetch token prices on ${platform}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        const failure = toProviderException(this.name, error);
+        failures.push(...ids.map(id => toPriceFailure(normalizeAssetKey(id), failure)));
       }
-      throw error;
     }
+
+    return results;
   }
 
-  async fetchMultiplePrices(symbols: string[], currency: string = 'usd'): Promise<PriceData[]> {
+  private async fetchTickerPrices(
+    symbols: string[],
+    currency: string,
+    options: CallOptions,
+    failures: PriceFailure[] = []
+  ): Promise<PriceData[]> {
     const ids = symbols.map(s => this.getCoingeckoId(s)).join(',');
-    const url = `${this.baseUrl}/simple/price`;
     
     try {
-      const response = await axios.get(url, {
-        params: {
-          ids,
-          vs_currencies: currency.toLowerCase()
-        }
-      });
+      const data = await this.http.get<CoinGeckoSimplePrices>('/simple/price', {
+        ids,
+        vs_currencies: currency.toLowerCase()
+      }, options);
 
       const results: PriceData[] = [];
       const timestamp = new Date();
 
       for (const symbol of symbols) {
         const id = this.getCoingeckoId(symbol);
-        const price = response.data[id]?.[currency.toLowerCase()];
+        const price = data[id]?.[currency.toLowerCase()];
         
         if (price !== undefined) {
+          this.pegMonitor.observe(symbol, price, currency);
           results.push({
-            symbol: symbol.toUpperCase(),
+            symbol: normalizeAssetKey(symbol),
             price,
             timestamp
           });
-        } else if (this.stablecoins.has(symbol.toUpperCase()) && currency.toLowerCase() === 'usd') {
-          // For stablecoins, return 1 USD if price is not found
-          results.push({
-            symbol: symbol.toUpperCase(),
-            price: 1,
-            timestamp
-          });
+        } else {
+          const fallback = this.pegMonitor.fallback(symbol, currency);
+          if (fallback) {
+            results.push(fallback);
+          }
         }
       }
 
       return results;
     } catch (error) {
-      // If the entire request fails, check if any symbols are stablecoins
-      const results: PriceData[] = [];
-      const timestamp = new Date();
-      
-      for (const symbol of symbols) {
-        if (this.stablecoins.has(symbol.toUpperCase()) && currency.toLowerCase() === 'usd') {
-          results.push({
-            symbol: symbol.toUpperCase(),
-            price: 1,
-            timestamp
-          });
-        }
-      }
+      throwIfAborted(options.signal);
+
+      // If the entire request fails, stablecoins on peg can still fall back
+      const results = symbols
+        .map(symbol => this.pegMonitor.fallback(symbol, currency))
+        .filter((fallback): fallback is PriceData => fallback !== null);
       
-      // If we have stablecoin results, return them; otherwise throw the error
+      // If we have peg fallbacks, return them; otherwise throw the error
       if (results.length > 0) {
-        // For non-stablecoins, we still need to throw an error
+        // The rest of the batch is reported as failed
         if (results.length < symbols.length) {
           console.warn(`Failed to fetch prices for some assets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          const failure = toProviderException(this.name, error);
+          const priced = new Set(results.map(r => r.symbol));
+          failures.push(...symbols.filter(s => !priced.has(normalizeAssetKey(s))).map(s => toPriceFailure(s, failure)));
         }
         return results;
       }
       
-      if (axios.isAxiosError(error)) {
-        throw new Error(`Failed to fetch prices: ${error.message}`);
+      throw toProviderException(this.name, error);
+    }
+  }
+
+  async fetchCoinList(): Promise<CoinListEntry[]> {
+    try {
+      const data = await this.http.get<CoinListEntry[]>('/coins/list');
+      const coins = Array.isArray(data) ? data : [];
+      return coins.map(({ id, symbol, name }) => ({ id, symbol, name }));
+    } catch (error) {
+      throw toProviderException(this.name, error);
+    }
+  }
+
+  async fetchHistoricalPrice(symbol: string, at: Date, currency: string = 'usd', options: CallOptions = {}): Promise<PriceData> {
+    if (parseAssetId(symbol)) {
+      return this.fetchHistoricalTokenPrice(symbol, at, currency, options);
+    }
+
+    const id = this.getCoingeckoId(symbol);
+
+    try {
+      const data = await this.http.get<CoinGeckoHistory>(`/coins/${id}/history`, {
+        date: this.formatHistoryDate(at),
+        localization: false
+      }, options);
+
+      const price = data?.market_data?.current_price?.[currency.toLowerCase()];
+
+      if (price === undefined) {
+        throw new AssetNotFoundException(
+          normalizeAssetKey(symbol),
+          this.name,
+          `Historical price not found for ${symbol} in ${currency} at ${at.toISOString()}`
+        );
       }
-      throw error;
+
+      // CoinGecko history snapshots are taken at 00:00 UTC of the requested day
+      return {
+        symbol: normalizeAssetKey(symbol),
+        price,
+        timestamp: this.startOfUtcDay(at)
+      };
+    } catch (error) {
+      throw toProviderException(this.name, error);
+    }
+  }
+
+  // The history endpoint has no contract variant, so use the last chart point of the preceding day
+  private async fetchHistoricalTokenPrice(symbol: string, at: Date, currency: string, options: CallOptions): Promise<PriceData> {
+    const points = await this.fetchPriceSeries(symbol, {
+      from: new Date(at.getTime() - 24 * 60 * 60 * 1000),
+      to: at,
+      interval: '1h'
+    }, currency, options);
+    const point = points.filter(p => p.timestamp.getTime() <= at.getTime()).pop();
+
+    if (!point) {
+      throw new AssetNotFoundException(
+        normalizeAssetKey(symbol),
+        this.name,
+        `Historical price not found for ${symbol} in ${currency} at ${at.toISOString()}`
+      );
+    }
+
+    return { symbol: normalizeAssetKey(symbol), price: point.price, timestamp: point.timestamp };
+  }
+
+  async fetchHistoricalPrices(
+    symbols: string[],
+    at: Date,
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<PriceData[]> {
+    return (await this.fetchHistoricalPricesDetailed(symbols, at, currency, options)).prices;
+  }
+
+  async fetchHistoricalPricesDetailed(
+    symbols: string[],
+    at: Date,
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    // The history endpoint only accepts a single coin id per request
+    return withDeadline(options, signal =>
+      fetchEachDetailed(symbols, symbol => this.fetchHistoricalPrice(symbol, at, currency, { signal }), signal)
+    );
+  }
+
+  async fetchPriceSeries(
+    symbol: string,
+    options: PriceSeriesOptions,
+    currency: string = 'usd',
+    call: CallOptions = {}
+  ): Promise<PricePoint[]> {
+    const assetId = parseAssetId(symbol);
+    const path = assetId
+      ? `/coins/${this.getPlatform(assetId)}/contract/${assetId.address}/market_chart/range`
+      : `/coins/${this.getCoingeckoId(symbol)}/market_chart/range`;
+
+    try {
+      // Granularity is chosen by CoinGecko from the range length:
+      // hourly up to 90 days, daily beyond that
+      const data = await this.http.get<CoinGeckoMarketChart>(path, {
+        vs_currency: currency.toLowerCase(),
+        from: Math.floor(options.from.getTime() / 1000),
+        to: Math.ceil(options.to.getTime() / 1000)
+      }, call);
+
+      const prices = data?.prices ?? [];
+
+      return prices.map(([time, price]) => ({
+        timestamp: new Date(time),
+        price
+      }));
+    } catch (error) {
+      throw toProviderException(this.name, error);
     }
   }
+
+  private formatHistoryDate(date: Date): string {
+    const day = String(date.getUTCDate()).padStart(2, '0');
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+    return `${day}-${month}-${date.getUTCFullYear()}`;
+  }
+
+  private startOfUtcDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
 }
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CoinPaprikaProvider } from './coinpaprika.js';
+import { AssetNotFoundException, ProviderUnavailableException, UnsupportedCurrencyException } from '../errors.js';
+import { DecentralizedAggregator } from './decentralized-aggregator.js';
+import { InMemoryHttpClient } from '../http/in-memory-http-client.js';
+
+describe('CoinPaprikaProvider', () => {
+  let provider: CoinPaprikaProvider;
+  let http: InMemoryHttpClient;
+
+  beforeEach(() => {
+    http = new InMemoryHttpClient();
+    provider = new CoinPaprikaProvider({ httpClient: http });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('fetchPrice', () => {
+    it('should price a ticker from its USD quote', async () => {
+      http.once('/tickers/btc-bitcoin', { data: { quotes: { USD: { price: 50000 } } } });
+
+      const result = await provider.fetchPrice('BTC', 'USD');
+
+      expect(result).toEqual({ symbol: 'BTC', price: 50000, timestamp: expect.any(Date) });
+      expect(http.requests[0].url).toBe('https://api.coinpaprika.com/v1/tickers/btc-bitcoin');
+    });
+
+    it('should reject other currencies without a request', async () => {
+      await expect(provider.fetchPrice('BTC', 'EUR')).rejects.toThrow(UnsupportedCurrencyException);
+      expect(http.requests).toHaveLength(0);
+    });
+  });
+
+  describe('fetchHistoricalPrice', () => {
+    const at = new Date('2024-03-15T12:30:00Z');
+
+    it('should take the last hourly tick at or before the requested moment', async () => {
+      http.once('/tickers/eth-ethereum/historical', { data: [
+        { timestamp: '2024-03-15T11:00:00Z', price: 3900 },
+        { timestamp: '2024-03-15T12:00:00Z', price: 3950 }
+      ] });
+
+      const result = await provider.fetchHistoricalPrice('ETH', at);
+
+      expect(result).toEqual({ symbol: 'ETH', price: 3950, timestamp: new Date('2024-03-15T12:00:00Z') });
+      expect(http.requests[0].params).toEqual({
+        start: '2024-03-14T12:30:00.000Z',
+        end: '2024-03-15T12:30:00.000Z',
+        interval: '1h',
+        quote: 'usd'
+      });
+    });
+
+    it('should report a day without ticks as AssetNotFoundException', async () => {
+      http.once('/tickers/eth-ethereum/historical', { data: [] });
+
+      await expect(provider.fetchHistoricalPrice('ETH', at)).rejects.toThrow(AssetNotFoundException);
+    });
+
+    it('should leave symbols without history out of fetchHistoricalPrices', async () => {
+      http
+        .once('/tickers/btc-bitcoin/historical', { data: [{ timestamp: '2024-03-15T12:00:00Z', price: 71000 }] })
+        .once('/tickers/eth-ethereum/historical', { status: 500 });
+
+      const results = await provider.fetchHistoricalPrices(['BTC', 'ETH'], at);
+
+      expect(results.map(p => [p.symbol, p.price])).toEqual([['BTC', 71000]]);
+    });
+  });
+
+  describe('contract addresses', () => {
+    const USDC_ETHEREUM = 'eip155:1/erc20:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+    it('should resolve a contract to its coin once and reuse the id', async () => {
+      http
+        .once('/contracts/eth-ethereum/0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', { data: { id: 'usdc-usd-coin' } })
+        .on('/tickers/usdc-usd-coin', { data: { quotes: { USD: { price: 0.9999 } } } });
+
+      await provider.fetchPrice(USDC_ETHEREUM, 'USD');
+      const result = await provider.fetchPrice(USDC_ETHEREUM, 'USD');
+
+      expect(result).toMatchObject({ symbol: USDC_ETHEREUM, price: 0.9999 });
+      expect(http.requests.map(r => r.url)).toEqual([
+        'https://api.coinpaprika.com/v1/contracts/eth-ethereum/0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+        'https://api.coinpaprika.com/v1/tickers/usdc-usd-coin',
+        'https://api.coinpaprika.com/v1/tickers/usdc-usd-coin'
+      ]);
+    });
+
+    it('should report a contract CoinPaprika does not know as AssetNotFoundException', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      http.on('/contracts/eth-ethereum/', { status: 404 });
+      const aggregator = new DecentralizedAggregator({
+        providers: [provider],
+        cacheOptions: { storage: 'memory' },
+        circuitBreakerOptions: { failureThreshold: 2 }
+      });
+
+      await expect(provider.fetchPrice(USDC_ETHEREUM, 'USD')).rejects.toThrow(AssetNotFoundException);
+      for (let i = 0; i < 3; i++) {
+        await expect(aggregator.fetchPrice(USDC_ETHEREUM)).rejects.toThrow(AssetNotFoundException);
+      }
+      expect(aggregator.getProviderHealth()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    });
+
+    it('should reject chains without a contract platform without a request', async () => {
+      await expect(provider.fetchPrice('eip155:999999/erc20:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 'USD')).rejects.toThrow(/no contract platform/);
+      expect(http.requests).toHaveLength(0);
+    });
+  });
+
+  describe('fetchMultiplePricesDetailed', () => {
+    it('should explain each symbol it could not price', async () => {
+      http
+        .once('/tickers/btc-bitcoin', { data: { quotes: { USD: { price: 50000 } } } })
+        .once('/tickers/eth-ethereum', { status: 429, headers: { 'Retry-After': '30' } })
+        .once('/tickers/sol-solana', { status: 503 });
+
+      const result = await provider.fetchMultiplePricesDetailed(['BTC', 'ETH', 'SOL', 'PEPE'], 'USD');
+
+      expect(result.prices.map(p => [p.symbol, p.price])).toEqual([['BTC', 50000]]);
+      expect(result.failures.map(f => [f.symbol, f.reason])).toEqual([
+        ['ETH', 'rate-limited'],
+        ['SOL', 'provider-error'],
+        ['PEPE', 'unknown-asset']
+      ]);
+    });
+
+    it('should fail every symbol for an unsupported currency without a request', async () => {
+      const result = await provider.fetchMultiplePricesDetailed(['BTC', 'ETH'], 'EUR');
+
+      expect(result.failures.map(f => [f.symbol, f.reason])).toEqual([['BTC', 'provider-error'], ['ETH', 'provider-error']]);
+      expect(http.requests).toHaveLength(0);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should call the pro API with the key as Authorization when a key is configured', async () => {
+      const pro = new CoinPaprikaProvider({ apiKey: 'paprika-key', timeoutMs: 3000, httpClient: http });
+      http.once('/tickers/btc-bitcoin', { data: { quotes: { USD: { price: 50000 } } } });
+
+      await pro.fetchPrice('BTC', 'USD');
+
+      expect(http.requests).toEqual([{
+        method: 'GET',
+        url: 'https://api-pro.coinpaprika.com/v1/tickers/btc-bitcoin',
+        timeoutMs: 3000,
+        headers: { Authorization: 'paprika-key' }
+      }]);
+    });
+
+    it('should keep the key out of error messages', async () => {
+      const pro = new CoinPaprikaProvider({ apiKey: 'paprika-key', httpClient: http });
+      http.once('/tickers/btc-bitcoin', new Error('Request with paprika-key failed'));
+
+      const error = await pro.fetchPrice('BTC', 'USD').catch(e => e);
+
+      expect(error).toBeInstanceOf(ProviderUnavailableException);
+      expect(error.message).not.toContain('paprika-key');
+    });
+  });
+});
@@ -1,74 +1,244 @@
-import axios from 'axios';
-import { PriceData, PriceProvider } from '../types.js';
-
-export class CoinPaprikaProvider implements PriceProvider {
-  private baseUrl = 'https://api.coinpaprika.com/v1';
-  private symbolToIdMap: Map<string, string> = new Map([
-    ['BTC', 'btc-bitcoin'],
-    ['ETH', 'eth-ethereum'],
-    ['USDT', 'usdt-tether'],
-    ['USDC', 'usdc-usd-coin'],
-    ['BNB', 'bnb-binance-coin'],
-    ['SOL', 'sol-solana'],
-    ['XRP', 'xrp-xrp'],
-    ['ADA', 'ada-cardano'],
-    ['DOGE', 'doge-dogecoin'],
-    ['AVAX', 'avax-avalanche'],
-    ['DOT', 'dot-polkadot'],
-    ['MATIC', 'matic-polygon'],
-    ['LINK', 'link-chainlink'],
-    ['UNI', 'uni-uniswap'],
-    ['ATOM', 'atom-cosmos'],
-    ['LTC', 'ltc-litecoin'],
-    ['DAI', 'dai-dai'],
-  ]);
-
-  private getCoinPaprikaId(symbol: string): string {
-    return this.symbolToIdMap.get(symbol.toUpperCase()) || `${symbol.toLowerCase()}-${symbol.toLowerCase()}`;
+import {
+  BatchPriceResult,
+  CallOptions,
+  CoinListEntry,
+  CoinListProvider,
+  DetailedBatchPriceProvider,
+  DetailedHistoricalPriceProvider,
+  PriceData,
+  ProviderConfiguration
+} from '../types.js';
+import {
+  AmbiguousAssetException,
+  AssetNotFoundException,
+  ProviderUnavailableException,
+  UnsupportedCurrencyException
+} from '../errors.js';
+import { toProviderException } from '../utils/provider-errors.js';
+import { ProviderHttpClient } from '../utils/provider-http.js';
+import { fetchEachDetailed, isPriceFailure, toPriceFailure } from '../utils/price-failures.js';
+import { normalizeAssetKey, parseAssetId } from '../utils/asset-id.js';
+import { throwIfAborted, withDeadline } from '../utils/abort.js';
+import { AssetRegistry } from '../registry/asset-registry.js';
+
+export interface CoinPaprikaProviderOptions extends ProviderConfiguration {
+  registry?: AssetRegistry; // Source of CoinPaprika coin ids; defaults to the bundled snapshot
+}
+
+// EVM chain id -> CoinPaprika contract platform id
+const CHAIN_PLATFORMS: Record<number, string> = {
+  1: 'eth-ethereum',
+  56: 'bnb-binance-coin',
+  137: 'matic-polygon',
+  43114: 'avax-avalanche',
+};
+
+// Paid plans are served from api-pro with the key as the Authorization header
+const ENDPOINTS = {
+  baseUrl: 'https://api.coinpaprika.com/v1',
+  paidBaseUrl: 'https://api-pro.coinpaprika.com/v1',
+  apiKeyPlacement: { in: 'header' as const, name: 'Authorization' }
+};
+
+interface CoinPaprikaCoin extends CoinListEntry {
+  is_active?: boolean;
+}
+
+interface CoinPaprikaTicker {
+  quotes?: Record<string, { price: number } | undefined>;
+}
+
+interface CoinPaprikaHistoricalTick {
+  timestamp: string;
+  price: number;
+}
+
+export class CoinPaprikaProvider implements DetailedHistoricalPriceProvider, CoinListProvider, DetailedBatchPriceProvider {
+  readonly name = 'coinpaprika';
+  readonly quoteCurrencies = ['USD']; // The free tier only quotes USD
+  private http: ProviderHttpClient;
+  private registry: AssetRegistry;
+  // Contract lookups resolved so far, keyed by CAIP-19 asset id
+  private contractIds: Map<string, string> = new Map();
+
+  constructor(options: CoinPaprikaProviderOptions = {}) {
+    this.http = new ProviderHttpClient(this.name, ENDPOINTS, options);
+    this.registry = options.registry || new AssetRegistry();
   }
 
-  async fetchPrice(symbol: string, currency: string = 'usd'): Promise<PriceData> {
-    const id = this.getCoinPaprikaId(symbol);
-    const url = `${this.baseUrl}/tickers/${id}`;
-    
+  private async getCoinPaprikaId(symbol: string, options: CallOptions): Promise<string> {
+    const assetId = parseAssetId(symbol);
+    if (assetId) {
+      return this.getContractCoinId(normalizeAssetKey(assetId), assetId.chainId, assetId.address, options);
+    }
+
+    const id = this.registry.getProviderId(symbol, this.name);
+    if (!id) {
+      throw this.unresolvedTicker(symbol);
+    }
+    return id;
+  }
+
+  // Several coins share an ambiguous ticker; otherwise none is known by it
+  private unresolvedTicker(symbol: string): AssetNotFoundException {
+    const key = symbol.toUpperCase();
+    return this.registry.isAmbiguous(key, this.name)
+      ? new AmbiguousAssetException(key, this.name)
+      : new AssetNotFoundException(key, this.name);
+  }
+
+  private async getContractCoinId(
+    key: string,
+    chainId: number | string,
+    address: string,
+    options: CallOptions
+  ): Promise<string> {
+    const cached = this.contractIds.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const platform = CHAIN_PLATFORMS[Number(chainId)];
+    if (!platform) {
+      throw new AssetNotFoundException(key, this.name, `CoinPaprika has no contract platform for chain ${chainId}`);
+    }
+
     try {
-      const response = await axios.get(url);
-      const data = response.data;
-      
-      if (!data || !data.quotes || !data.quotes.USD) {
-        throw new Error(`Price not found for ${symbol}`);
+      const data = await this.http.get<{ id?: string }>(`/contracts/${platform}/${address}`, undefined, options);
+      const id = data?.id;
+
+      if (!id) {
+        throw new AssetNotFoundException(key, this.name);
       }
 
-      // CoinPaprika only provides USD prices in free tier
-      const priceInUSD = data.quotes.USD.price;
+      this.contractIds.set(key, id);
+      return id;
+    } catch (error) {
+      // CoinPaprika answers a contract it does not know with 404; that is no outage
+      if (error instanceof ProviderUnavailableException && error.status === 404) {
+        throw new AssetNotFoundException(key, this.name);
+      }
+      throw toProviderException(this.name, error);
+    }
+  }
+
+  async fetchPrice(symbol: string, currency: string = 'usd', options: CallOptions = {}): Promise<PriceData> {
+    // CoinPaprika only provides USD prices in the free tier
+    if (currency.toLowerCase() !== 'usd') {
+      throw new UnsupportedCurrencyException(currency.toUpperCase(), this.name);
+    }
+
+    const id = await this.getCoinPaprikaId(symbol, options);
+    
+    try {
+      const data = await this.http.get<CoinPaprikaTicker>(`/tickers/${id}`, undefined, options);
       
-      const price = priceInUSD;
-      if (currency.toLowerCase() !== 'usd') {
-        // For other currencies, we'd need to convert
-        // This is a limitation of the free API
-        throw new Error(`CoinPaprika free tier only supports USD prices`);
+      if (!data || !data.quotes || !data.quotes.USD) {
+        throw new AssetNotFoundException(normalizeAssetKey(symbol), this.name);
       }
 
       return {
-        symbol: symbol.toUpperCase(),
-        price,
+        symbol: normalizeAssetKey(symbol),
+        price: data.quotes.USD.price,
         timestamp: new Date()
       };
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        throw new Error(`Failed to fetch price from CoinPaprika: ${error.message}`);
+      throw toProviderException(this.name, error);
+    }
+  }
+
+  async fetchMultiplePrices(symbols: string[], currency: string = 'usd', options: CallOptions = {}): Promise<PriceData[]> {
+    return (await this.fetchMultiplePricesDetailed(symbols, currency, options)).prices;
+  }
+
+  async fetchMultiplePricesDetailed(
+    symbols: string[],
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    return withDeadline(options, async signal => {
+      // CoinPaprika requires individual requests for each coin
+      const outcomes = await Promise.all(symbols.map(symbol =>
+        this.fetchPrice(symbol, currency, { signal }).catch(error => toPriceFailure(symbol, error))
+      ));
+      throwIfAborted(signal);
+
+      return {
+        prices: outcomes.filter((outcome): outcome is PriceData => !isPriceFailure(outcome)),
+        failures: outcomes.filter(isPriceFailure)
+      };
+    });
+  }
+
+  async fetchCoinList(): Promise<CoinListEntry[]> {
+    try {
+      const data = await this.http.get<CoinPaprikaCoin[]>('/coins');
+      const coins = Array.isArray(data) ? data : [];
+      return coins
+        .filter(coin => coin.is_active !== false)
+        .map(({ id, symbol, name }) => ({ id, symbol, name }));
+    } catch (error) {
+      throw toProviderException(this.name, error);
+    }
+  }
+
+  async fetchHistoricalPrice(symbol: string, at: Date, currency: string = 'usd', options: CallOptions = {}): Promise<PriceData> {
+    if (currency.toLowerCase() !== 'usd') {
+      throw new UnsupportedCurrencyException(currency.toUpperCase(), this.name);
+    }
+
+    const id = await this.getCoinPaprikaId(symbol, options);
+    // Ask for the day leading up to the requested moment and take the last tick
+    const start = new Date(at.getTime() - 24 * 60 * 60 * 1000);
+
+    try {
+      const data = await this.http.get<CoinPaprikaHistoricalTick[]>(`/tickers/${id}/historical`, {
+        start: start.toISOString(),
+        end: at.toISOString(),
+        interval: '1h',
+        quote: 'usd'
+      }, options);
+
+      const ticks = Array.isArray(data) ? data : [];
+      const tick = ticks
+        .filter(t => new Date(t.timestamp).getTime() <= at.getTime())
+        .pop();
+
+      if (!tick) {
+        throw new AssetNotFoundException(
+          normalizeAssetKey(symbol),
+          this.name,
+          `Historical price not found for ${symbol} at ${at.toISOString()}`
+        );
       }
-      throw error;
+
+      return {
+        symbol: normalizeAssetKey(symbol),
+        price: tick.price,
+        timestamp: new Date(tick.timestamp)
+      };
+    } catch (error) {
+      throw toProviderException(this.name, error);
     }
   }
 
-  async fetchMultiplePrices(symbols: string[], currency: string = 'usd'): Promise<PriceData[]> {
-    // CoinPaprika requires individual requests for each coin
-    const promises = symbols.map(symbol => 
-      this.fetchPrice(symbol, currency).catch(() => null)
+  async fetchHistoricalPrices(
+    symbols: string[],
+    at: Date,
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<PriceData[]> {
+    return (await this.fetchHistoricalPricesDetailed(symbols, at, currency, options)).prices;
+  }
+
+  async fetchHistoricalPricesDetailed(
+    symbols: string[],
+    at: Date,
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    return withDeadline(options, signal =>
+      fetchEachDetailed(symbols, symbol => this.fetchHistoricalPrice(symbol, at, currency, { signal }), signal)
     );
-    
-    const results = await Promise.all(promises);
-    return results.filter((result): result is PriceData => result !== null);
   }
 }
\ No newline at end of file
@@ -0,0 +1,606 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DecentralizedAggregator } from './decentralized-aggregator.js';
+import { TestPriceProvider } from './test-price-provider.js';
+import { CallOptions, PriceData, PriceProvider } from '../types.js';
+import { MedianStrategy, TrimmedMeanStrategy } from '../strategies/pricing-strategies.js';
+import {
+  AssetNotFoundException,
+  OperationAbortedException,
+  ProviderUnavailableException,
+  QuorumNotReachedException,
+  RateLimitExceededException,
+  UnsupportedCurrencyException
+} from '../errors.js';
+import { StaticFxRateSource } from '../fx/static-fx-rate-source.js';
+import { TieredCache } from '../utils/tiered-cache.js';
+
+class FailingProvider implements PriceProvider {
+  readonly name = 'failing';
+  calls = 0;
+
+  async fetchPrice(): Promise<PriceData> {
+    this.calls++;
+    throw new Error('API unavailable');
+  }
+
+  async fetchMultiplePrices(): Promise<PriceData[]> {
+    this.calls++;
+    throw new Error('API unavailable');
+  }
+}
+
+class StaticProvider implements PriceProvider {
+  constructor(
+    readonly name: string,
+    private prices: Record<string, number>,
+    readonly quoteCurrencies?: string[]
+  ) {}
+
+  async fetchPrice(symbol: string): Promise<PriceData> {
+    const price = this.prices[symbol.toUpperCase()];
+    if (price === undefined) {
+      throw new Error(`${this.name}: no price for ${symbol}`);
+    }
+    return { symbol: symbol.toUpperCase(), price, timestamp: new Date() };
+  }
+
+  async fetchMultiplePrices(symbols: string[]): Promise<PriceData[]> {
+    return symbols
+      .filter(symbol => this.prices[symbol.toUpperCase()] !== undefined)
+      .map(symbol => ({ symbol: symbol.toUpperCase(), price: this.prices[symbol.toUpperCase()], timestamp: new Date() }));
+  }
+}
+
+// Holds every request until the caller's signal aborts it, as a hung transport would
+class HangingProvider implements PriceProvider {
+  readonly name = 'hanging';
+
+  fetchPrice(_symbol: string, _currency?: string, options: CallOptions = {}): Promise<PriceData> {
+    return new Promise((_, reject) => {
+      options.signal?.addEventListener('abort', () => reject(new Error('Request aborted')));
+    });
+  }
+
+  fetchMultiplePrices(symbols: string[], currency?: string, options?: CallOptions): Promise<PriceData[]> {
+    return this.fetchPrice(symbols[0], currency, options).then(price => [price]);
+  }
+}
+
+describe('DecentralizedAggregator', () => {
+  let testProvider: TestPriceProvider;
+  let aggregator: DecentralizedAggregator;
+
+  beforeEach(() => {
+    testProvider = new TestPriceProvider();
+    aggregator = new DecentralizedAggregator({
+      providers: [testProvider],
+      cacheOptions: { storage: 'memory' }
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('fetchPriceSeries', () => {
+    const from = new Date('2024-01-01T00:00:00Z');
+    const to = new Date('2024-01-03T23:00:00Z');
+
+    it('should return samples for the requested range in order', async () => {
+      const points = await aggregator.fetchPriceSeries('BTC', { from, to, interval: '1h' });
+
+      expect(points).toHaveLength(72);
+      expect(points[0].timestamp).toEqual(from);
+      expect(points[71].timestamp).toEqual(to);
+    });
+
+    it('should only download chunks that are not cached yet', async () => {
+      const spy = vi.spyOn(testProvider, 'fetchPriceSeries');
+
+      await aggregator.fetchPriceSeries('BTC', { from, to, interval: '1h' });
+      await aggregator.fetchPriceSeries('BTC', { from, to, interval: '1h' });
+      expect(spy).toHaveBeenCalledTimes(1);
+
+      const later = new Date('2024-01-04T12:00:00Z');
+      await aggregator.fetchPriceSeries('BTC', { from: new Date('2024-01-02T00:00:00Z'), to: later, interval: '1h' });
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(spy.mock.calls[1][1].from).toEqual(new Date('2024-01-04T00:00:00Z'));
+    });
+  });
+
+  describe('circuit breaker', () => {
+    let failing: FailingProvider;
+
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      failing = new FailingProvider();
+      aggregator = new DecentralizedAggregator({
+        providers: [failing, testProvider],
+        cacheOptions: { storage: 'memory' },
+        rateLimitOptions: { maxRequests: 100 },
+        consensusThreshold: 1,
+        circuitBreakerOptions: { failureThreshold: 2, cooldownMs: 1000 }
+      });
+    });
+
+    it('should stop calling a provider once its circuit opens', async () => {
+      await aggregator.fetchPrice('BTC');
+      await aggregator.fetchPrice('ETH');
+      expect(aggregator.getProviderHealth()[0]).toMatchObject({ provider: 'failing', state: 'open', consecutiveFailures: 2 });
+
+      await aggregator.fetchPrice('SOL');
+      await aggregator.fetchMultiplePrices(['USDC', 'USDT']);
+
+      expect(failing.calls).toBe(2);
+      expect(aggregator.getProviderHealth()[1]).toMatchObject({ provider: 'test', state: 'closed' });
+    });
+
+    it('should let a single trial request through after the cool-down', async () => {
+      vi.useFakeTimers();
+      try {
+        await aggregator.fetchPrice('BTC');
+        await aggregator.fetchPrice('ETH');
+
+        vi.advanceTimersByTime(1000);
+        expect(aggregator.getProviderHealth()[0].state).toBe('half-open');
+
+        await aggregator.fetchPrice('SOL');
+        expect(failing.calls).toBe(3);
+        expect(aggregator.getProviderHealth()[0].state).toBe('open');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('cancellation', () => {
+    beforeEach(() => {
+      aggregator = new DecentralizedAggregator({
+        providers: [new HangingProvider(), testProvider],
+        cacheOptions: { storage: 'memory' },
+        consensusThreshold: 1,
+        circuitBreakerOptions: { failureThreshold: 1 }
+      });
+    });
+
+    it('should reject without trying the next provider or tripping the circuit', async () => {
+      const fallback = vi.spyOn(testProvider, 'fetchPrice');
+      const controller = new AbortController();
+
+      const pending = aggregator.fetchPrice('BTC', 'usd', { signal: controller.signal }).catch(e => e);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      controller.abort();
+
+      expect(await pending).toBeInstanceOf(OperationAbortedException);
+      expect(fallback).not.toHaveBeenCalled();
+      expect(aggregator.getProviderHealth()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    });
+
+    it('should reject a batch once its deadline passes', async () => {
+      const error = await aggregator.fetchMultiplePricesDetailed(['BTC', 'ETH'], 'usd', { timeoutMs: 20 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(OperationAbortedException);
+      expect(error.timeoutMs).toBe(20);
+      expect(aggregator.getProviderHealth()[0].state).toBe('closed');
+    });
+  });
+
+  describe('historical prices', () => {
+    it('should stamp a historical consensus with its sources\' time rather than the requested one', async () => {
+      const at = new Date('2024-03-15T12:00:00Z');
+
+      const single = await aggregator.fetchHistoricalPrice('BTC', at);
+      const [batched] = await aggregator.fetchHistoricalPrices(['ETH'], at);
+
+      expect(single.timestamp).toEqual(new Date('2024-03-15T00:00:00Z'));
+      expect(batched.timestamp).toEqual(new Date('2024-03-15T00:00:00Z'));
+    });
+
+    it('should explain each historical symbol that has no consensus price', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const broken = new TestPriceProvider();
+      vi.spyOn(broken, 'fetchHistoricalPrices').mockRejectedValue(new Error('API unavailable'));
+      const detailed = new DecentralizedAggregator({
+        providers: [testProvider, broken],
+        cacheOptions: { storage: 'memory' }
+      });
+      const at = new Date('2024-03-15T12:00:00Z');
+
+      const alone = await aggregator.fetchHistoricalPricesDetailed(['BTC', 'NOPE'], at);
+      const mixed = await detailed.fetchHistoricalPricesDetailed(['ETH', 'NOPE'], at);
+
+      expect(alone.prices.map(p => p.symbol)).toEqual(['BTC']);
+      expect(alone.failures.map(f => [f.symbol, f.reason])).toEqual([['NOPE', 'unknown-asset']]);
+      expect(mixed.prices.map(p => p.symbol)).toEqual(['ETH']);
+      expect(mixed.failures.map(f => [f.symbol, f.reason])).toEqual([['NOPE', 'provider-error']]);
+    });
+  });
+
+  describe('tiered cache', () => {
+    it('should keep spot prices in their asset tier and history in the cold tier of a shared cache', async () => {
+      const cache = new TieredCache();
+      const tiered = new DecentralizedAggregator({ providers: [testProvider], cache });
+
+      await tiered.fetchPrice('BTC');
+      await tiered.fetchPrice('BTC');
+      await tiered.fetchHistoricalPrice('BTC', new Date('2024-01-01T00:00:00Z'));
+
+      expect(tiered.getCacheStats()).toEqual({
+        hot: { hits: 1, misses: 1 },
+        warm: { hits: 0, misses: 0 },
+        cold: { hits: 0, misses: 1 }
+      });
+      expect(await cache.get('BTC-USD', { asset: 'BTC' })).toMatchObject({ symbol: 'BTC' });
+    });
+
+    it('should leave spot prices to the caller when spot caching is off', async () => {
+      const cache = new TieredCache();
+      const fetchPrice = vi.spyOn(testProvider, 'fetchPrice');
+      const uncached = new DecentralizedAggregator({ providers: [testProvider], cache, cacheOptions: { spotPrices: false } });
+
+      await uncached.fetchPrice('BTC');
+      await uncached.fetchPrice('BTC');
+
+      expect(fetchPrice).toHaveBeenCalledTimes(2);
+      expect(cache.getStats().hot).toEqual({ hits: 0, misses: 0 });
+      expect(await cache.lookup('BTC-USD')).toBeNull();
+    });
+  });
+
+  describe('errors', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should report an asset no provider knows as AssetNotFoundException without tripping circuits', async () => {
+      const unknown = new StaticProvider('static', {});
+      vi.spyOn(unknown, 'fetchPrice').mockImplementation(async symbol => {
+        throw new AssetNotFoundException(symbol, 'static');
+      });
+      const strict = new DecentralizedAggregator({
+        providers: [unknown],
+        cacheOptions: { storage: 'memory' },
+        circuitBreakerOptions: { failureThreshold: 1 }
+      });
+
+      await expect(strict.fetchPrice('NOPE')).rejects.toBeInstanceOf(AssetNotFoundException);
+      expect(strict.getProviderHealth()[0].state).toBe('closed');
+    });
+
+    it('should report failing providers as ProviderUnavailableException', async () => {
+      const down = new DecentralizedAggregator({
+        providers: [new FailingProvider()],
+        cacheOptions: { storage: 'memory' }
+      });
+
+      await expect(down.fetchPrice('BTC')).rejects.toBeInstanceOf(ProviderUnavailableException);
+    });
+
+    it('should pass on the shortest retry delay when every provider is rate limited', async () => {
+      const limited = [new StaticProvider('a', {}), new StaticProvider('b', {})];
+      vi.spyOn(limited[0], 'fetchPrice').mockRejectedValue(new RateLimitExceededException('a', 5000));
+      vi.spyOn(limited[1], 'fetchPrice').mockRejectedValue(new RateLimitExceededException('b', 2000));
+      const throttled = new DecentralizedAggregator({
+        providers: limited,
+        cacheOptions: { storage: 'memory' },
+        rateLimitOptions: { maxRequests: 100 },
+        circuitBreakerOptions: { failureThreshold: 10 }
+      });
+
+      vi.useFakeTimers();
+      try {
+        const pending = throttled.fetchPrice('BTC').catch(e => e);
+        // The aggregator's own limiter backs off three times before giving up
+        await vi.advanceTimersByTimeAsync(2000 + 4000 + 8000);
+
+        expect(await pending).toMatchObject({ name: 'RateLimitExceededException', retryAfterMs: 2000 });
+        expect(limited[0].fetchPrice).toHaveBeenCalledTimes(4);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('fetchMultiplePricesDetailed', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should explain each symbol that has no consensus price', async () => {
+      const detailed = new DecentralizedAggregator({
+        providers: [
+          new StaticProvider('a', { BTC: 50000, ETH: 3000 }),
+          new StaticProvider('b', { BTC: 50100, ETH: 3001 }),
+          new StaticProvider('c', { BTC: 49900 })
+        ],
+        cacheOptions: { storage: 'memory' },
+        pricingStrategy: new TrimmedMeanStrategy({ minQuorum: 3 })
+      });
+
+      const result = await detailed.fetchMultiplePricesDetailed(['BTC', 'ETH', 'DOGE']);
+
+      expect(result.prices.map(p => p.symbol)).toEqual(['BTC']);
+      expect(result.failures.map(f => [f.symbol, f.reason])).toEqual([
+        ['ETH', 'provider-error'],
+        ['DOGE', 'unknown-asset']
+      ]);
+      expect(result.failures[0].message).toContain('Quorum not reached');
+    });
+
+    it('should fail only the symbol whose consensus throws', async () => {
+      const median = new MedianStrategy();
+      const detailed = new DecentralizedAggregator({
+        providers: [new StaticProvider('a', { BTC: 50000, ETH: 3000 })],
+        cacheOptions: { storage: 'memory' },
+        pricingStrategy: {
+          name: 'picky',
+          resolve: (sources, context) => {
+            if (context.symbol === 'ETH') {
+              throw new Error('Sources disagree on ETH');
+            }
+            return median.resolve(sources, context);
+          }
+        }
+      });
+
+      const result = await detailed.fetchMultiplePricesDetailed(['BTC', 'ETH']);
+
+      expect(result.prices.map(p => [p.symbol, p.price])).toEqual([['BTC', 50000]]);
+      expect(result.failures).toEqual([{ symbol: 'ETH', reason: 'provider-error', message: 'Sources disagree on ETH' }]);
+    });
+
+    it('should report a symbol as provider-error when one provider failed and another lacks it', async () => {
+      const detailed = new DecentralizedAggregator({
+        providers: [new FailingProvider(), new StaticProvider('static', {})],
+        cacheOptions: { storage: 'memory' }
+      });
+
+      const { failures } = await detailed.fetchMultiplePricesDetailed(['BTC']);
+
+      expect(failures).toEqual([expect.objectContaining({ symbol: 'BTC', reason: 'provider-error' })]);
+    });
+  });
+
+  describe('provenance', () => {
+    function createAggregator(...providers: PriceProvider[]) {
+      return new DecentralizedAggregator({
+        providers,
+        cacheOptions: { storage: 'memory' },
+        rateLimitOptions: { maxRequests: 100 }
+      });
+    }
+
+    it('should report every contributing source and the spread between them', async () => {
+      const [result] = await createAggregator(
+        new StaticProvider('alpha', { BTC: 100 }),
+        new StaticProvider('beta', { BTC: 102 })
+      ).fetchMultiplePrices(['BTC']);
+
+      expect(result.price).toBe(101);
+      expect(result.priceDecimal).toBe('101');
+      expect(result.provenance).toMatchObject({
+        sources: [
+          { provider: 'alpha', price: 100, outlier: false },
+          { provider: 'beta', price: 102, outlier: false }
+        ],
+        outliersDropped: 0
+      });
+      expect(result.provenance!.spread).toBeCloseTo(0.0196, 4);
+      expect(result.provenance!.confidence).toBeCloseTo(0.902, 3);
+    });
+
+    it('should count dropped outliers and lower confidence', async () => {
+      const [result] = await createAggregator(
+        new StaticProvider('alpha', { ETH: 2000 }),
+        new StaticProvider('beta', { ETH: 2000 }),
+        new StaticProvider('gamma', { ETH: 3000 })
+      ).fetchMultiplePrices(['ETH']);
+
+      expect(result.price).toBe(2000);
+      expect(result.provenance!.outliersDropped).toBe(1);
+      expect(result.provenance!.sources[2]).toMatchObject({ provider: 'gamma', outlier: true });
+      expect(result.provenance!.confidence).toBeCloseTo(2 / 3);
+    });
+
+    it('should show when a price came from a single provider after another failed', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const [result] = await createAggregator(
+        new FailingProvider(),
+        new StaticProvider('beta', { SOL: 150 })
+      ).fetchMultiplePrices(['SOL']);
+
+      expect(result.provenance!.sources).toHaveLength(1);
+      expect(result.provenance!.confidence).toBe(0.5);
+    });
+
+    it('should ask every provider for a single price so a failure shows in its provenance', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const healthy = await createAggregator(
+        new StaticProvider('alpha', { SOL: 150 }),
+        new StaticProvider('beta', { SOL: 150 })
+      ).fetchPrice('SOL');
+      const degraded = await createAggregator(
+        new FailingProvider(),
+        new StaticProvider('beta', { SOL: 150 })
+      ).fetchPrice('SOL');
+
+      expect(healthy.provenance).toMatchObject({ sources: [{ provider: 'alpha' }, { provider: 'beta' }], confidence: 1 });
+      expect(degraded.provenance).toMatchObject({ sources: [{ provider: 'beta' }], confidence: 0.5 });
+    });
+  });
+
+  describe('pricing strategies', () => {
+    const providers = () => [
+      new StaticProvider('alpha', { BTC: 100 }),
+      new StaticProvider('beta', { BTC: 110 }),
+      new StaticProvider('gamma', { BTC: 200 })
+    ];
+
+    it('should use the strategy configured in the options', async () => {
+      const [result] = await new DecentralizedAggregator({
+        providers: providers(),
+        cacheOptions: { storage: 'memory' },
+        pricingStrategy: new MedianStrategy()
+      }).fetchMultiplePrices(['BTC']);
+
+      expect(result.price).toBe(110);
+      expect(result.provenance!.outliersDropped).toBe(2);
+    });
+
+    it('should reject with a typed error when the strategy cannot reach quorum', async () => {
+      const quorumAggregator = new DecentralizedAggregator({
+        providers: providers().slice(0, 2),
+        cacheOptions: { storage: 'memory' },
+        consensusThreshold: 1,
+        pricingStrategy: new TrimmedMeanStrategy({ minQuorum: 3 })
+      });
+
+      await expect(quorumAggregator.fetchPrice('BTC')).rejects.toBeInstanceOf(QuorumNotReachedException);
+    });
+  });
+
+  describe('fiat cross rates', () => {
+    const fxRateSource = new StaticFxRateSource({ EUR: 0.9 });
+
+    it('should convert USD-only providers into the requested fiat currency', async () => {
+      const usdOnly = new StaticProvider('usd-only', { BTC: 50000 }, ['USD']);
+      const spy = vi.spyOn(usdOnly, 'fetchMultiplePrices');
+      const fxAggregator = new DecentralizedAggregator({
+        providers: [new StaticProvider('native', { BTC: 45000 }), usdOnly],
+        cacheOptions: { storage: 'memory' },
+        fxRateSource
+      });
+
+      const [result] = await fxAggregator.fetchMultiplePrices(['BTC'], 'EUR');
+
+      expect(spy).toHaveBeenCalledWith(['BTC'], 'USD', { signal: expect.any(AbortSignal) });
+      expect(result.price).toBeCloseTo(45000);
+      expect(result.provenance!.sources.map(s => s.price)).toEqual([45000, 45000]);
+    });
+
+    it('should not cross-convert price series', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const fxAggregator = new DecentralizedAggregator({
+        providers: [testProvider],
+        cacheOptions: { storage: 'memory' },
+        fxRateSource
+      });
+      const range = { from: new Date('2024-01-01T00:00:00Z'), to: new Date('2024-01-02T00:00:00Z'), interval: '1h' as const };
+
+      await expect(fxAggregator.fetchPriceSeries('BTC', range, 'EUR')).rejects.toThrow(UnsupportedCurrencyException);
+    });
+  });
+
+  describe('request coalescing', () => {
+    let provider: StaticProvider;
+    let coalescing: DecentralizedAggregator;
+
+    beforeEach(() => {
+      provider = new StaticProvider('static', { BTC: 50000, ETH: 3000, SOL: 100 });
+      coalescing = new DecentralizedAggregator({
+        providers: [provider],
+        cacheOptions: { storage: 'memory' }
+      });
+    });
+
+    it('should share one upstream fetch between concurrent identical requests', async () => {
+      const spy = vi.spyOn(provider, 'fetchPrice');
+
+      const results = await Promise.all(Array.from({ length: 10 }, () => coalescing.fetchPrice('BTC')));
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(results.every(result => result === results[0])).toBe(true);
+    });
+
+    it('should merge overlapping batches into one upstream call', async () => {
+      const spy = vi.spyOn(provider, 'fetchMultiplePrices');
+
+      const [first, second] = await Promise.all([
+        coalescing.fetchMultiplePrices(['BTC', 'ETH']),
+        coalescing.fetchMultiplePrices(['ETH', 'SOL'])
+      ]);
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy.mock.calls[0][0]).toEqual(['BTC', 'ETH', 'SOL']);
+      expect(first.map(p => p.symbol)).toEqual(['BTC', 'ETH']);
+      expect(second.map(p => p.symbol)).toEqual(['ETH', 'SOL']);
+    });
+
+    it('should let every waiting caller see a failure', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(provider, 'fetchPrice').mockRejectedValue(new Error('down'));
+
+      const results = await Promise.allSettled([coalescing.fetchPrice('BTC'), coalescing.fetchPrice('BTC')]);
+
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    });
+  });
+
+  describe('stale prices', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should serve a stale spot price when every provider fails', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const provider = new StaticProvider('static', { BTC: 50000 });
+      const stale = new DecentralizedAggregator({
+        providers: [provider],
+        cacheOptions: { storage: 'memory', ttl: 1000, maxStaleMs: 60000 }
+      });
+
+      await stale.fetchPrice('BTC');
+      vi.advanceTimersByTime(5000);
+      vi.spyOn(provider, 'fetchPrice').mockRejectedValue(new Error('API unavailable'));
+
+      expect((await stale.fetchPrice('BTC')).price).toBe(50000);
+    });
+
+    it('should serve stale spot prices in a batch when every provider fails', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const provider = new StaticProvider('static', { BTC: 50000 });
+      const stale = new DecentralizedAggregator({
+        providers: [provider],
+        cacheOptions: { storage: 'memory', ttl: 1000, maxStaleMs: 60000 }
+      });
+
+      await stale.fetchPrice('BTC');
+      vi.advanceTimersByTime(5000);
+      vi.spyOn(provider, 'fetchMultiplePrices').mockRejectedValue(new Error('API unavailable'));
+
+      const pending = stale.fetchMultiplePricesDetailed(['BTC', 'ETH']);
+      await vi.advanceTimersByTimeAsync(1); // Batches are collected for one timer turn
+      const result = await pending;
+
+      expect(result.prices.map(p => [p.symbol, p.price])).toEqual([['BTC', 50000]]);
+      expect(result.failures.map(f => f.symbol)).toEqual(['ETH']);
+    });
+
+    it('should answer a batch from stale prices at once and refresh them in the background', async () => {
+      vi.useFakeTimers();
+      const provider = new StaticProvider('static', { BTC: 50000 });
+      const stale = new DecentralizedAggregator({
+        providers: [provider],
+        cacheOptions: { storage: 'memory', ttl: 1000, maxStaleMs: 60000, staleWhileRevalidate: true }
+      });
+
+      await stale.fetchPrice('BTC');
+      vi.advanceTimersByTime(5000);
+      const spy = vi.spyOn(provider, 'fetchMultiplePrices').mockResolvedValue([
+        { symbol: 'BTC', price: 51000, timestamp: new Date() }
+      ]);
+
+      const [served] = await stale.fetchMultiplePrices(['BTC']);
+      expect(served.price).toBe(50000);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect((await stale.fetchPrice('BTC')).price).toBe(51000);
+    });
+  });
+});
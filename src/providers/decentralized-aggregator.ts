@@ -1,34 +1,149 @@
-import { PriceData, PriceProvider } from '../types.js';
+import {
+  BatchPriceResult,
+  CallOptions,
+  DetailedBatchPriceProvider,
+  DetailedHistoricalPriceProvider,
+  FxRateSource,
+  HistoricalPriceProvider,
+  HttpClient,
+  PriceData,
+  PriceFailure,
+  PriceProvenance,
+  PriceSource,
+  PricePoint,
+  PriceProvider,
+  PriceSeriesOptions,
+  PriceSeriesProvider,
+  PricingStrategy,
+  ProviderConfiguration,
+  RateLimitAware
+} from '../types.js';
+import { FilteredMeanStrategy } from '../strategies/pricing-strategies.js';
+import {
+  AssetNotFoundException,
+  AssetValuatorException,
+  ProviderUnavailableException,
+  RateLimitExceededException,
+  UnsupportedCurrencyException
+} from '../errors.js';
 import { CoinGeckoProvider } from './coingecko.js';
 import { CoinPaprikaProvider } from './coinpaprika.js';
 import { RateLimiter } from '../utils/rate-limiter.js';
 import { EdgeCache } from '../utils/edge-cache.js';
+import {
+  CacheFetchPolicy,
+  CachePlacement,
+  TieredCache,
+  TieredCacheStats,
+  spotPriceKey
+} from '../utils/tiered-cache.js';
+import { SingleFlight } from '../utils/single-flight.js';
+import { BatchCoalescer } from '../utils/batch-coalescer.js';
 import { hasIndexedDB, hasLocalStorage } from '../utils/browser-detect.js';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitState } from '../utils/circuit-breaker.js';
+import {
+  getProviderName,
+  isCoinListProvider,
+  isHistoricalPriceProvider,
+  isPriceSeriesProvider
+} from '../utils/provider-capabilities.js';
+import {
+  combineFailures,
+  fetchHistoricalPricesDetailed,
+  fetchPricesDetailed,
+  isPriceFailure,
+  toPriceFailure
+} from '../utils/price-failures.js';
+import { AssetRegistry } from '../registry/asset-registry.js';
+import { PegMonitor } from '../utils/peg-monitor.js';
+import { FrankfurterFxRateSource } from '../fx/frankfurter-fx-rate-source.js';
+import { isFiatCurrency, quotesNatively } from '../fx/fiat.js';
+import { Decimal } from '../utils/decimal.js';
+import { normalizeAssetKey } from '../utils/asset-id.js';
+import { abortError, throwIfAborted, withDeadline } from '../utils/abort.js';
 
 export interface AggregatorOptions {
   providers?: PriceProvider[];
   cacheOptions?: {
     storage?: 'memory' | 'localStorage' | 'indexedDB';
-    ttl?: number;
+    ttl?: number; // Spot price TTL for every tier instead of the tier defaults
+    maxStaleMs?: number; // Serve a spot price this long past its TTL when every provider fails
+    staleWhileRevalidate?: boolean; // Serve stale spot prices at once and refresh them in the background
+    spotPrices?: boolean; // Cache spot prices (default true); AssetValuator turns this off and caches them itself
   };
   rateLimitOptions?: {
     maxRequests?: number;
     windowMs?: number;
   };
   consensusThreshold?: number; // Percentage of providers that must agree (0.5 = 50%)
+  historicalCacheTTL?: number;
+  cache?: TieredCache; // Shared with an AssetValuator; cacheOptions.storage and ttl then don't apply
+  circuitBreakerOptions?: CircuitBreakerOptions;
+  pricingStrategy?: PricingStrategy; // Defaults to FilteredMeanStrategy with consensusThreshold as quorum
+  registry?: AssetRegistry; // Shared by the default providers; persisted in the same storage as prices
+  fxRateSource?: FxRateSource; // Converts USD prices for providers that can't quote a fiat currency natively
+  pegMonitor?: PegMonitor; // Shared with the default providers to watch stablecoin pegs
+  providerConfig?: Record<string, ProviderConfiguration>; // For the default providers and FX source, keyed by name
+  httpClient?: HttpClient; // Transport for the default providers and FX source unless providerConfig names one
 }
 
-export class DecentralizedAggregator implements PriceProvider {
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+}
+
+interface CachedSeriesPoint {
+  time: number;
+  price: number;
+}
+
+interface ConsensusResult {
+  price: number;
+  priceDecimal?: string;
+  provenance: PriceProvenance;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Width of the band around the median used to score agreement
+const MAX_DEVIATION = 0.1;
+// Dollar stablecoins asked for in place of USD from exchanges that don't quote fiat dollars
+const USD_STAND_INS = ['USDT', 'USDC'];
+
+export class DecentralizedAggregator
+  implements DetailedHistoricalPriceProvider, PriceSeriesProvider, DetailedBatchPriceProvider, RateLimitAware {
+  readonly name = 'decentralized-aggregator';
   private providers: PriceProvider[];
+  private circuitBreakers = new Map<PriceProvider, CircuitBreaker>();
+  private circuitBreakerOptions: CircuitBreakerOptions;
   private rateLimiter: RateLimiter;
-  private cache: EdgeCache;
+  private cache: TieredCache;
+  private spotPolicy: CacheFetchPolicy;
+  private cacheSpotPrices: boolean;
   private consensusThreshold: number;
+  private pricingStrategy: PricingStrategy;
+  private historicalCacheTTL: number;
+  private registry: AssetRegistry;
+  private fxRateSource: FxRateSource;
+  private inFlight = new SingleFlight();
+  private spotBatches = new BatchCoalescer<PriceData | PriceFailure>(
+    (symbols, currency, signal) => this.fetchUncachedBatch(symbols, currency, signal),
+    outcome => outcome.symbol
+  );
 
   constructor(options: AggregatorOptions = {}) {
+    const storage = options.cacheOptions?.storage || this.selectBestStorage();
+    this.registry = options.registry || new AssetRegistry({ cache: new EdgeCache({ storage }) });
+
     // Default providers
+    const configFor = (name: string): ProviderConfiguration => ({
+      httpClient: options.httpClient,
+      ...options.providerConfig?.[name]
+    });
     this.providers = options.providers || [
-      new CoinGeckoProvider(),
-      new CoinPaprikaProvider(),
+      new CoinGeckoProvider({ ...configFor('coingecko'), registry: this.registry, pegMonitor: options.pegMonitor }),
+      new CoinPaprikaProvider({ ...configFor('coinpaprika'), registry: this.registry }),
     ];
 
     // Rate limiter with conservative defaults for edge devices
@@ -39,14 +154,26 @@ export class DecentralizedAggregator implements PriceProvider {
       maxRetries: 3
     });
 
-    // Edge cache with automatic storage selection
-    this.cache = new EdgeCache({
-      storage: options.cacheOptions?.storage || this.selectBestStorage(),
-      defaultTTL: options.cacheOptions?.ttl || 60000, // 60 seconds
-      maxSize: 500
+    // Tiered cache with automatic storage selection
+    const ttl = options.cacheOptions?.ttl;
+    this.cache = options.cache || new TieredCache({
+      storage,
+      maxSize: 500,
+      ...(ttl && { ttls: { hot: ttl, warm: ttl, cold: ttl } })
     });
+    this.spotPolicy = {
+      maxStaleMs: options.cacheOptions?.maxStaleMs,
+      staleWhileRevalidate: options.cacheOptions?.staleWhileRevalidate
+    };
+    this.cacheSpotPrices = options.cacheOptions?.spotPrices ?? true;
 
     this.consensusThreshold = options.consensusThreshold || 0.5;
+    this.pricingStrategy = options.pricingStrategy ||
+      new FilteredMeanStrategy({ quorum: this.consensusThreshold });
+    this.circuitBreakerOptions = options.circuitBreakerOptions || {};
+    // Past prices don't change, so they can live much longer than spot prices
+    this.historicalCacheTTL = options.historicalCacheTTL || 24 * 60 * 60 * 1000;
+    this.fxRateSource = options.fxRateSource || new FrankfurterFxRateSource(configFor('frankfurter'));
   }
 
   private selectBestStorage(): 'memory' | 'localStorage' | 'indexedDB' {
@@ -58,113 +185,508 @@ export class DecentralizedAggregator implements PriceProvider {
     return 'memory';
   }
 
-  async fetchPrice(symbol: string, currency: string = 'usd'): Promise<PriceData> {
-    const cacheKey = `${symbol}-${currency}`;
-    
-    // Check cache first
-    const cached = await this.cache.get<PriceData>(cacheKey);
-    if (cached) {
-      return cached;
-    }
+  async fetchPrice(symbol: string, currency: string = 'usd', options: CallOptions = {}): Promise<PriceData> {
+    return withDeadline(options, async signal => {
+      if (!this.cacheSpotPrices) {
+        return this.fetchConsensusPrice(symbol, currency, signal);
+      }
 
-    // Use rate limiter to fetch from providers
-    return this.rateLimiter.execute(cacheKey, async () => {
-      const results = await this.fetchFromProviders(symbol, currency);
-      
-      if (results.length === 0) {
-        throw new Error(`No price data available for ${symbol}`);
+      // Fresh cache hits skip the providers; a stale entry within maxStaleMs covers
+      // for failing ones. Concurrent callers share one rate-limited fetch.
+      const policy = { ...this.spotPolicy, asset: symbol };
+      const { data } = await this.cache.getOrFetch(
+        spotPriceKey(symbol, currency),
+        shared => this.fetchConsensusPrice(symbol, currency, shared),
+        policy,
+        signal
+      );
+
+      return data;
+    });
+  }
+
+  private async fetchConsensusPrice(symbol: string, currency: string, signal?: AbortSignal): Promise<PriceData> {
+    return this.rateLimiter.execute(spotPriceKey(symbol, currency), async () => {
+      const errors: unknown[] = [];
+      const sources = await this.fetchFromProviders(symbol, currency, errors, signal);
+
+      if (sources.length === 0) {
+        throw this.noPriceError(symbol, errors, 'price data');
       }
 
       // Calculate consensus price
-      const consensusPrice = this.calculateConsensusPrice(results);
-      
+      const consensus = this.calculateConsensus(symbol, sources, this.providers.length);
+
       const priceData: PriceData = {
-        symbol: symbol.toUpperCase(),
-        price: consensusPrice,
-        timestamp: new Date()
+        symbol: normalizeAssetKey(symbol),
+        price: consensus.price,
+        priceDecimal: consensus.priceDecimal,
+        timestamp: new Date(),
+        provenance: consensus.provenance,
+        ...(this.isAssumed(sources) && { assumed: true })
       };
 
-      // Cache the result
-      await this.cache.set(cacheKey, priceData);
-      
       return priceData;
-    });
+    }, signal);
   }
 
-  async fetchMultiplePrices(symbols: string[], currency: string = 'usd'): Promise<PriceData[]> {
-    // Check cache for all symbols
-    const results: PriceData[] = [];
-    const uncachedSymbols: string[] = [];
+  async fetchMultiplePrices(symbols: string[], currency: string = 'usd', options: CallOptions = {}): Promise<PriceData[]> {
+    return (await this.fetchMultiplePricesDetailed(symbols, currency, options)).prices;
+  }
 
-    for (const symbol of symbols) {
-      const cached = await this.cache.get<PriceData>(`${symbol}-${currency}`);
-      if (cached) {
-        results.push(cached);
-      } else {
-        uncachedSymbols.push(symbol);
+  async fetchMultiplePricesDetailed(
+    symbols: string[],
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    return withDeadline(options, async signal => {
+      // Check cache for all symbols, under the same stale policy as fetchPrice
+      const result: BatchPriceResult<PriceData> = { prices: [], failures: [] };
+      const uncachedSymbols: string[] = [];
+      const revalidateSymbols: string[] = [];
+      const stalePrices = new Map<string, PriceData>();
+
+      for (const symbol of symbols) {
+        const cached = this.cacheSpotPrices
+          ? await this.cache.lookupServable<PriceData>(spotPriceKey(symbol, currency), { ...this.spotPolicy, asset: symbol })
+          : null;
+
+        if (cached && (!cached.isStale || this.spotPolicy.staleWhileRevalidate)) {
+          result.prices.push(cached.data);
+          if (cached.isStale) {
+            revalidateSymbols.push(normalizeAssetKey(symbol));
+          }
+        } else {
+          if (cached) {
+            stalePrices.set(normalizeAssetKey(symbol), cached.data);
+          }
+          uncachedSymbols.push(symbol);
+        }
+      }
+
+      if (revalidateSymbols.length > 0) {
+        this.spotBatches.request(revalidateSymbols, currency)
+          .catch(error => console.warn(`Background refresh of ${revalidateSymbols.join(',')} failed`, error));
       }
-    }
 
-    // Fetch uncached symbols
-    if (uncachedSymbols.length > 0) {
-      const batchKey = `batch-${uncachedSymbols.join(',')}-${currency}`;
+      // Fetch uncached symbols; a stale price covers a symbol the providers failed
+      if (uncachedSymbols.length > 0) {
+        const outcomes = await this.spotBatches.request(uncachedSymbols.map(normalizeAssetKey), currency, signal);
+
+        for (const outcome of outcomes) {
+          if (!isPriceFailure(outcome)) {
+            result.prices.push(outcome);
+          } else if (stalePrices.has(outcome.symbol)) {
+            result.prices.push(stalePrices.get(outcome.symbol)!);
+          } else {
+            result.failures.push(outcome);
+          }
+        }
+      }
+
+      return result;
+    });
+  }
+
+  // One upstream round for every symbol in a coalesced batch
+  private async fetchUncachedBatch(
+    uncachedSymbols: string[],
+    currency: string,
+    signal: AbortSignal
+  ): Promise<Array<PriceData | PriceFailure>> {
+    const batchKey = `batch-${uncachedSymbols.join(',')}-${currency}`;
+    
+    return this.rateLimiter.execute(batchKey, async () => {
+      const grouped = new Map<string, PriceSource[]>();
+      const failures = new Map<string, PriceFailure[]>();
       
-      const fetchedPrices = await this.rateLimiter.execute(batchKey, async () => {
-        const allResults: PriceData[] = [];
-        
-        // Try each provider
-        for (const provider of this.providers) {
-          try {
-            const providerResults = await provider.fetchMultiplePrices(uncachedSymbols, currency);
-            allResults.push(...providerResults);
-          } catch (error) {
-            console.warn(`Provider failed:`, error);
+      // Try each provider
+      for (const provider of this.getAvailableProviders()) {
+        let providerFailures: PriceFailure[];
+
+        try {
+          const quote = this.getProviderQuote(provider, currency);
+          const providerResults = await this.callProvider(
+            provider,
+            () => fetchPricesDetailed(provider, uncachedSymbols, quote, { signal }),
+            signal
+          );
+          this.addSources(
+            grouped,
+            provider,
+            await this.crossQuote(providerResults.prices, quote, currency, undefined, signal),
+            this.standIn(quote, currency)
+          );
+          providerFailures = providerResults.failures;
+        } catch (error) {
+          throwIfAborted(signal);
+          console.warn(`Provider failed:`, error);
+          providerFailures = uncachedSymbols.map(symbol => toPriceFailure(symbol, error));
+        }
+
+        for (const failure of providerFailures) {
+          failures.set(failure.symbol, [...(failures.get(failure.symbol) || []), failure]);
+        }
+      }
+
+      // Calculate consensus per symbol
+      const outcomes: Array<PriceData | PriceFailure> = [];
+
+      for (const symbol of uncachedSymbols.map(normalizeAssetKey)) {
+        const sources = grouped.get(symbol);
+        if (!sources) {
+          outcomes.push(combineFailures(symbol, failures.get(symbol) || []));
+          continue;
+        }
+
+        try {
+          const consensus = this.calculateConsensus(symbol, sources, this.providers.length);
+          const priceData: PriceData = {
+            symbol,
+            price: consensus.price,
+            priceDecimal: consensus.priceDecimal,
+            timestamp: new Date(),
+            provenance: consensus.provenance,
+            ...(this.isAssumed(sources) && { assumed: true })
+          };
+          
+          outcomes.push(priceData);
+          
+          // Cache individual results
+          if (this.cacheSpotPrices) {
+            await this.cache.set(spotPriceKey(symbol, currency), priceData, { asset: symbol });
           }
+        } catch (error) {
+          console.warn(error instanceof Error ? error.message : error);
+          outcomes.push(toPriceFailure(symbol, error));
+        }
+      }
+
+      return outcomes;
+    }, signal);
+  }
+
+  async fetchHistoricalPrice(symbol: string, at: Date, currency: string = 'usd', options: CallOptions = {}): Promise<PriceData> {
+    return withDeadline(options, async signal => {
+      const cacheKey = this.getHistoricalCacheKey(symbol, at, currency);
+
+      const cached = await this.cache.get<PriceData>(cacheKey, this.historicalPlacement());
+      if (cached) {
+        return cached;
+      }
+
+      return this.inFlight.run(cacheKey, shared => this.rateLimiter.execute(cacheKey, async () => {
+        const errors: unknown[] = [];
+        const sources = await this.fetchHistoricalFromProviders(symbol, at, currency, errors, shared);
+
+        if (sources.length === 0) {
+          throw this.noPriceError(symbol, errors, `historical price data at ${at.toISOString()}`);
+        }
+
+        const consensus = this.calculateConsensus(symbol, sources, this.countHistoricalProviders());
+        const priceData: PriceData = {
+          symbol: normalizeAssetKey(symbol),
+          price: consensus.price,
+          priceDecimal: consensus.priceDecimal,
+          timestamp: this.oldestUsedSource(consensus.provenance),
+          provenance: consensus.provenance
+        };
+
+        await this.cache.set(cacheKey, priceData, this.historicalPlacement());
+
+        return priceData;
+      }, shared), signal);
+    });
+  }
+
+  async fetchHistoricalPrices(
+    symbols: string[],
+    at: Date,
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<PriceData[]> {
+    return (await this.fetchHistoricalPricesDetailed(symbols, at, currency, options)).prices;
+  }
+
+  /**
+   * Like fetchHistoricalPrices, but every requested symbol is either priced
+   * or listed in `failures`, with what the providers said about it or why
+   * their prices reached no consensus.
+   */
+  async fetchHistoricalPricesDetailed(
+    symbols: string[],
+    at: Date,
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    return withDeadline(options, async signal => {
+      const result: BatchPriceResult<PriceData> = { prices: [], failures: [] };
+      const uncachedSymbols: string[] = [];
+
+      for (const symbol of symbols) {
+        const cached = await this.cache.get<PriceData>(this.getHistoricalCacheKey(symbol, at, currency), this.historicalPlacement());
+        if (cached) {
+          result.prices.push(cached);
+        } else {
+          uncachedSymbols.push(symbol);
         }
+      }
 
-        // Group by symbol and calculate consensus
-        const grouped = this.groupBySymbol(allResults);
-        const consensusPrices: PriceData[] = [];
-
-        for (const [symbol, prices] of grouped.entries()) {
-          if (prices.length > 0) {
-            const consensusPrice = this.calculateConsensusPrice(prices);
-            const priceData: PriceData = {
-              symbol,
-              price: consensusPrice,
-              timestamp: new Date()
-            };
-            
-            consensusPrices.push(priceData);
-            
-            // Cache individual results
-            await this.cache.set(`${symbol}-${currency}`, priceData);
+      if (uncachedSymbols.length > 0) {
+        const batchKey = `history-batch-${uncachedSymbols.join(',')}-${currency}-${at.getTime()}`;
+
+        const outcomes = await this.rateLimiter.execute(batchKey, async () => {
+          const grouped = new Map<string, PriceSource[]>();
+          const failures = new Map<string, PriceFailure[]>();
+
+          for (const provider of this.getHistoricalProviders()) {
+            let providerFailures: PriceFailure[];
+
+            try {
+              const quote = this.getProviderQuote(provider, currency);
+              const providerResults = await this.callProvider(
+                provider,
+                () => fetchHistoricalPricesDetailed(provider, uncachedSymbols, at, quote, { signal }),
+                signal
+              );
+              this.addSources(
+                grouped,
+                provider,
+                await this.crossQuote(providerResults.prices, quote, currency, at, signal),
+                this.standIn(quote, currency)
+              );
+              providerFailures = providerResults.failures;
+            } catch (error) {
+              throwIfAborted(signal);
+              console.warn(`Historical provider failed:`, error);
+              providerFailures = uncachedSymbols.map(symbol => toPriceFailure(symbol, error));
+            }
+
+            for (const failure of providerFailures) {
+              failures.set(failure.symbol, [...(failures.get(failure.symbol) || []), failure]);
+            }
+          }
+
+          const consensusOutcomes: Array<PriceData | PriceFailure> = [];
+
+          for (const symbol of uncachedSymbols.map(normalizeAssetKey)) {
+            const sources = grouped.get(symbol);
+            if (!sources) {
+              consensusOutcomes.push(combineFailures(symbol, failures.get(symbol) || []));
+              continue;
+            }
+
+            try {
+              const consensus = this.calculateConsensus(symbol, sources, this.countHistoricalProviders());
+              const priceData: PriceData = {
+                symbol,
+                price: consensus.price,
+                priceDecimal: consensus.priceDecimal,
+                timestamp: this.oldestUsedSource(consensus.provenance),
+                provenance: consensus.provenance
+              };
+
+              consensusOutcomes.push(priceData);
+              await this.cache.set(this.getHistoricalCacheKey(symbol, at, currency), priceData, this.historicalPlacement());
+            } catch (error) {
+              console.warn(error instanceof Error ? error.message : error);
+              consensusOutcomes.push(toPriceFailure(symbol, error));
+            }
+          }
+
+          return consensusOutcomes;
+        }, signal);
+
+        for (const outcome of outcomes) {
+          if (isPriceFailure(outcome)) {
+            result.failures.push(outcome);
+          } else {
+            result.prices.push(outcome);
           }
         }
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Series are cached in fixed, epoch-aligned chunks (one day for hourly
+   * series, thirty days otherwise) so that overlapping or sliding chart
+   * ranges only download the chunks they don't already have. Chunks that
+   * lie entirely in the past are cached with the historical TTL; the chunk
+   * containing "now" uses the spot TTL. The first series-capable provider
+   * that answers wins; series are not put through consensus.
+   */
+  async fetchPriceSeries(
+    symbol: string,
+    options: PriceSeriesOptions,
+    currency: string = 'usd',
+    call: CallOptions = {}
+  ): Promise<PricePoint[]> {
+    return withDeadline(call, async signal => {
+      const chunkMs = options.interval === '1h' ? DAY_MS : 30 * DAY_MS;
+      const from = options.from.getTime();
+      const to = options.to.getTime();
+      const chunkKey = (start: number) =>
+        `series-${normalizeAssetKey(symbol)}-${currency.toLowerCase()}-${options.interval}-${start}`;
+
+      const points: CachedSeriesPoint[] = [];
+      const missingChunks: number[] = [];
+
+      for (let start = Math.floor(from / chunkMs) * chunkMs; start <= to; start += chunkMs) {
+        const cached = await this.cache.get<CachedSeriesPoint[]>(chunkKey(start), this.seriesPlacement(symbol, start + chunkMs));
+        if (cached) {
+          points.push(...cached);
+        } else {
+          missingChunks.push(start);
+        }
+      }
+
+      for (const [runStart, runEnd] of this.toContiguousRuns(missingChunks, chunkMs)) {
+        const fetchEnd = Math.min(runEnd, Date.now());
+        const range = { ...options, from: new Date(runStart), to: new Date(fetchEnd) };
+        const fetched = runStart >= fetchEnd ? [] : await this.rateLimiter.execute(
+          chunkKey(runStart),
+          () => this.fetchSeriesFromProviders(symbol, range, currency, signal),
+          signal
+        );
+
+        for (let start = runStart; start < runEnd; start += chunkMs) {
+          const chunk = fetched
+            .filter(p => p.timestamp.getTime() >= start && p.timestamp.getTime() < start + chunkMs)
+            .map(p => ({ time: p.timestamp.getTime(), price: p.price }));
+          await this.cache.set(chunkKey(start), chunk, this.seriesPlacement(symbol, start + chunkMs));
+          points.push(...chunk);
+        }
+      }
+
+      return points
+        .filter(p => p.time >= from && p.time <= to)
+        .sort((a, b) => a.time - b.time)
+        .map(p => ({ timestamp: new Date(p.time), price: p.price }));
+    });
+  }
 
-        return consensusPrices;
-      });
+  private toContiguousRuns(chunkStarts: number[], chunkMs: number): [number, number][] {
+    const runs: [number, number][] = [];
 
-      results.push(...fetchedPrices);
+    for (const start of chunkStarts) {
+      const last = runs[runs.length - 1];
+      if (last && last[1] === start) {
+        last[1] = start + chunkMs;
+      } else {
+        runs.push([start, start + chunkMs]);
+      }
+    }
+
+    return runs;
+  }
+
+  private async fetchSeriesFromProviders(
+    symbol: string,
+    options: PriceSeriesOptions,
+    currency: string,
+    signal?: AbortSignal
+  ): Promise<PricePoint[]> {
+    // Series are never cross-converted: one rate for the whole range would be wrong
+    const seriesProviders = this.providers.filter(isPriceSeriesProvider);
+    if (seriesProviders.length > 0 && !seriesProviders.some(provider => quotesNatively(provider, currency))) {
+      throw new UnsupportedCurrencyException(currency.toUpperCase(), 'all series providers');
+    }
+
+    const providers = this.getAvailableProviders()
+      .filter(isPriceSeriesProvider)
+      .filter(provider => quotesNatively(provider, currency));
+    const errors: unknown[] = [];
+
+    for (const provider of providers) {
+      try {
+        return await this.callProvider(
+          provider,
+          () => provider.fetchPriceSeries(symbol, options, currency, { signal }),
+          signal
+        );
+      } catch (error) {
+        throwIfAborted(signal);
+        errors.push(error);
+        console.warn(`Series provider failed for ${symbol}:`, error);
+      }
+    }
+
+    throw this.noPriceError(symbol, errors, 'price series');
+  }
+
+  // Historical entries sit in the cold tier, kept for the historical TTL
+  private historicalPlacement(): CachePlacement {
+    return { tier: 'cold', ttl: this.historicalCacheTTL };
+  }
+
+  // A series chunk still being written follows its asset's tier like a spot price
+  private seriesPlacement(symbol: string, chunkEnd: number): CachePlacement {
+    return chunkEnd <= Date.now() ? this.historicalPlacement() : { asset: symbol };
+  }
+
+  private getHistoricalCacheKey(symbol: string, at: Date, currency: string): string {
+    return `history-${normalizeAssetKey(symbol)}-${currency.toLowerCase()}-${at.getTime()}`;
+  }
+
+  private getHistoricalProviders(): HistoricalPriceProvider[] {
+    return this.getAvailableProviders().filter(isHistoricalPriceProvider);
+  }
+
+  private countHistoricalProviders(): number {
+    return this.providers.filter(isHistoricalPriceProvider).length;
+  }
+
+  private async fetchHistoricalFromProviders(
+    symbol: string,
+    at: Date,
+    currency: string,
+    errors: unknown[],
+    signal?: AbortSignal
+  ): Promise<PriceSource[]> {
+    const results: PriceSource[] = [];
+    const providers = this.getHistoricalProviders();
+
+    for (const provider of providers) {
+      try {
+        const quote = this.getProviderQuote(provider, currency);
+        const price = await this.callProvider(
+          provider,
+          () => provider.fetchHistoricalPrice(symbol, at, quote, { signal }),
+          signal
+        );
+        const [quoted] = await this.crossQuote([price], quote, currency, at, signal);
+        results.push(this.toSource(provider, quoted, this.standIn(quote, currency)));
+      } catch (error) {
+        throwIfAborted(signal);
+        errors.push(error);
+        console.warn(`Historical provider failed for ${symbol}:`, error);
+      }
     }
 
     return results;
   }
 
-  private async fetchFromProviders(symbol: string, currency: string): Promise<PriceData[]> {
-    const results: PriceData[] = [];
+  private async fetchFromProviders(
+    symbol: string,
+    currency: string,
+    errors: unknown[],
+    signal?: AbortSignal
+  ): Promise<PriceSource[]> {
+    const results: PriceSource[] = [];
     
-    // Try each provider sequentially with fallback
-    for (const provider of this.providers) {
+    // Every available provider is asked so the provenance shows who agreed and who failed
+    for (const provider of this.getAvailableProviders()) {
       try {
-        const price = await provider.fetchPrice(symbol, currency);
-        results.push(price);
-        
-        // If we have enough providers for consensus, we can stop
-        if (results.length >= Math.ceil(this.providers.length * this.consensusThreshold)) {
-          break;
-        }
+        const quote = this.getProviderQuote(provider, currency);
+        const price = await this.callProvider(provider, () => provider.fetchPrice(symbol, quote, { signal }), signal);
+        const [quoted] = await this.crossQuote([price], quote, currency, undefined, signal);
+        results.push(this.toSource(provider, quoted, this.standIn(quote, currency)));
       } catch (error) {
+        throwIfAborted(signal);
+        errors.push(error);
         console.warn(`Provider failed for ${symbol}:`, error);
         // Continue to next provider
       }
@@ -173,45 +695,188 @@ export class DecentralizedAggregator implements PriceProvider {
     return results;
   }
 
-  private calculateConsensusPrice(prices: PriceData[]): number {
-    if (prices.length === 0) {
-      throw new Error('No prices available for consensus');
+  /**
+   * Explains why no provider produced a price: not found when every provider
+   * answered without one, rate limited when every provider refused, and
+   * unavailable otherwise (including when every circuit is open).
+   */
+  private noPriceError(symbol: string, errors: unknown[], what: string): AssetValuatorException {
+    const key = normalizeAssetKey(symbol);
+
+    if (errors.length > 0 && errors.every(error => error instanceof AssetNotFoundException)) {
+      return new AssetNotFoundException(key, undefined, `No ${what} available for ${symbol}`);
     }
 
-    if (prices.length === 1) {
-      return prices[0].price;
+    if (errors.length > 0 && errors.every(error => error instanceof RateLimitExceededException)) {
+      const waits = (errors as RateLimitExceededException[])
+        .map(error => error.retryAfterMs)
+        .filter((ms): ms is number => ms !== undefined);
+      return new RateLimitExceededException(undefined, waits.length > 0 ? Math.min(...waits) : undefined);
     }
 
-    // Sort prices
-    const sortedPrices = prices.map(p => p.price).sort((a, b) => a - b);
-    
-    // Remove outliers (prices that deviate more than 10% from median)
-    const median = sortedPrices[Math.floor(sortedPrices.length / 2)];
-    const filtered = sortedPrices.filter(price => 
-      Math.abs(price - median) / median <= 0.1
-    );
+    return new ProviderUnavailableException('all providers', `no ${what} available for ${symbol}`);
+  }
 
-    // If too many outliers, use median
-    if (filtered.length < prices.length * this.consensusThreshold) {
-      return median;
+  private getCircuitBreaker(provider: PriceProvider): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(provider);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.circuitBreakerOptions);
+      this.circuitBreakers.set(provider, breaker);
     }
+    return breaker;
+  }
 
-    // Calculate average of filtered prices
-    return filtered.reduce((sum, price) => sum + price, 0) / filtered.length;
+  // Providers whose circuit is open are skipped without waiting on their timeout
+  private getAvailableProviders(): PriceProvider[] {
+    return this.providers.filter(provider => this.getCircuitBreaker(provider).getState() !== 'open');
   }
 
-  private groupBySymbol(prices: PriceData[]): Map<string, PriceData[]> {
-    const grouped = new Map<string, PriceData[]>();
-    
-    for (const price of prices) {
-      const symbol = price.symbol.toUpperCase();
+  private async callProvider<T>(provider: PriceProvider, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const breaker = this.getCircuitBreaker(provider);
+
+    if (!breaker.canRequest()) {
+      throw new ProviderUnavailableException(getProviderName(provider), 'circuit open');
+    }
+
+    try {
+      const result = await fn();
+      breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      // A caller giving up says nothing about the provider's health
+      if (signal?.aborted) {
+        breaker.recordCancellation();
+        throw abortError(signal);
+      }
+      // A provider that answers "unknown asset" or "unsupported currency" is healthy
+      if (error instanceof AssetNotFoundException || error instanceof UnsupportedCurrencyException) {
+        breaker.recordSuccess();
+      } else {
+        breaker.recordFailure();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Providers that only speak USD are asked in USD and converted with the FX
+   * source. Exchanges that list no fiat dollar either are asked in a dollar
+   * stablecoin, which is then treated as USD and marked on the source.
+   */
+  private getProviderQuote(provider: PriceProvider, currency: string): string {
+    if (quotesNatively(provider, currency) || !isFiatCurrency(currency)) {
+      return currency;
+    }
+    if (quotesNatively(provider, 'USD')) {
+      return 'USD';
+    }
+    return USD_STAND_INS.find(standIn => quotesNatively(provider, standIn)) || 'USD';
+  }
+
+  // The stablecoin a provider was asked in when it stands in for USD
+  private standIn(quote: string, currency: string): string | undefined {
+    const asked = quote.toUpperCase();
+    return asked !== currency.toUpperCase() && USD_STAND_INS.includes(asked) ? asked : undefined;
+  }
+
+  private async crossQuote(
+    prices: PriceData[],
+    from: string,
+    to: string,
+    at?: Date,
+    signal?: AbortSignal
+  ): Promise<PriceData[]> {
+    const base = USD_STAND_INS.includes(from.toUpperCase()) && isFiatCurrency(to) ? 'USD' : from;
+    if (base.toUpperCase() === to.toUpperCase() || prices.length === 0) {
+      return prices;
+    }
+
+    const rate = await this.fxRateSource.fetchRate(base, to, at, { signal });
+    return prices.map(p => ({
+      ...p,
+      price: p.price * rate,
+      ...(p.priceDecimal && { priceDecimal: Decimal.from(p.priceDecimal).mul(rate).toString() }),
+      ...(p.confidenceInterval !== undefined && { confidenceInterval: p.confidenceInterval * rate })
+    }));
+  }
+
+  private toSource(provider: PriceProvider, priceData: PriceData, quotedIn?: string): PriceSource {
+    return {
+      provider: getProviderName(provider),
+      price: priceData.price,
+      ...(priceData.priceDecimal && { priceDecimal: priceData.priceDecimal }),
+      timestamp: priceData.timestamp,
+      outlier: false,
+      ...(quotedIn && { quotedIn }),
+      ...(priceData.assumed && { assumed: true }),
+      ...(priceData.confidenceInterval !== undefined && { confidenceInterval: priceData.confidenceInterval })
+    };
+  }
+
+  // A historical consensus applies from the moment of the oldest source it used
+  private oldestUsedSource(provenance: PriceProvenance): Date {
+    const used = provenance.sources.filter(source => !source.outlier);
+    const sources = used.length > 0 ? used : provenance.sources;
+    return new Date(Math.min(...sources.map(source => source.timestamp.getTime())));
+  }
+
+  // A consensus of peg fallbacks is no observation either
+  private isAssumed(sources: PriceSource[]): boolean {
+    return sources.every(source => source.assumed);
+  }
+
+  private addSources(
+    grouped: Map<string, PriceSource[]>,
+    provider: PriceProvider,
+    prices: PriceData[],
+    quotedIn?: string
+  ): void {
+    for (const priceData of prices) {
+      const symbol = normalizeAssetKey(priceData.symbol);
       if (!grouped.has(symbol)) {
         grouped.set(symbol, []);
       }
-      grouped.get(symbol)!.push(price);
+      grouped.get(symbol)!.push(this.toSource(provider, priceData, quotedIn));
+    }
+  }
+
+  /**
+   * Applies the configured pricing strategy and describes the outcome.
+   * Confidence is coverage * (0.5 + 0.5 * agreement), where coverage is the
+   * share of the configured providers whose price was used and agreement
+   * falls linearly from 1 (used prices identical) to 0 (used prices span
+   * the full 10% deviation band around the median).
+   */
+  private calculateConsensus(symbol: string, sources: PriceSource[], providerCount: number): ConsensusResult {
+    if (sources.length === 0) {
+      throw new AssetNotFoundException(normalizeAssetKey(symbol));
     }
 
-    return grouped;
+    const { price, priceDecimal, used } = this.pricingStrategy.resolve(sources, {
+      symbol: normalizeAssetKey(symbol),
+      providerCount,
+      now: new Date()
+    });
+
+    const usedSources = new Set(used);
+    const sortedPrices = sources.map(s => s.price).sort((a, b) => a - b);
+    const median = sortedPrices[Math.floor(sortedPrices.length / 2)];
+    const usedPrices = used.map(s => s.price);
+
+    const usedSpread = (Math.max(...usedPrices) - Math.min(...usedPrices)) / median;
+    const coverage = Math.min(1, used.length / Math.max(1, providerCount));
+    const agreement = 1 - Math.min(1, usedSpread / MAX_DEVIATION);
+
+    return {
+      price,
+      priceDecimal,
+      provenance: {
+        sources: sources.map(s => ({ ...s, outlier: !usedSources.has(s) })),
+        spread: (sortedPrices[sortedPrices.length - 1] - sortedPrices[0]) / median,
+        outliersDropped: sources.length - used.length,
+        confidence: coverage * (0.5 + 0.5 * agreement)
+      }
+    };
   }
 
   // Utility methods for managing the aggregator
@@ -221,13 +886,54 @@ export class DecentralizedAggregator implements PriceProvider {
   }
 
   removeProvider(index: number): void {
-    this.providers.splice(index, 1);
+    const [removed] = this.providers.splice(index, 1);
+    if (removed) {
+      this.circuitBreakers.delete(removed);
+    }
+  }
+
+  getProviderHealth(): ProviderHealth[] {
+    return this.providers.map(provider => ({
+      provider: getProviderName(provider),
+      ...this.getCircuitBreaker(provider).getStatus()
+    }));
+  }
+
+  resetCircuitBreakers(): void {
+    this.circuitBreakers.clear();
+  }
+
+  setPricingStrategy(strategy: PricingStrategy): void {
+    this.pricingStrategy = strategy;
+  }
+
+  getAssetRegistry(): AssetRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Restores the asset registry from storage, or refreshes it from the
+   * providers' coin lists when nothing is stored or `force` is set.
+   */
+  async refreshAssetRegistry(force: boolean = false): Promise<void> {
+    if (!force && await this.registry.load()) {
+      return;
+    }
+    await this.registry.refresh(this.providers.filter(isCoinListProvider));
   }
 
   async clearCache(): Promise<void> {
     await this.cache.clear();
   }
 
+  getCacheStats(): TieredCacheStats {
+    return this.cache.getStats();
+  }
+
+  getRateLimitPressure(): number {
+    return this.rateLimiter.getPressure();
+  }
+
   resetRateLimiter(): void {
     this.rateLimiter.reset();
   }
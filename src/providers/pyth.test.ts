@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PythPriceProvider } from './pyth.js';
+import { DecentralizedAggregator } from './decentralized-aggregator.js';
+import { TestPriceProvider } from './test-price-provider.js';
+import { ConfidenceWeightedStrategy } from '../strategies/pricing-strategies.js';
+import {
+  AssetNotFoundException,
+  ProviderUnavailableException,
+  UnsupportedCurrencyException
+} from '../errors.js';
+import {
+  PYTH_BTC_ID,
+  PYTH_ETH_ID,
+  PYTH_LATEST_BTC,
+  PYTH_LATEST_BTC_ETH,
+  PYTH_PUBLISH_TIME
+} from '../__fixtures__/pyth-responses.js';
+import { InMemoryHttpClient } from '../http/in-memory-http-client.js';
+
+describe('PythPriceProvider', () => {
+  let provider: PythPriceProvider;
+  let http: InMemoryHttpClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(PYTH_PUBLISH_TIME * 1000 + 5000);
+    http = new InMemoryHttpClient();
+    provider = new PythPriceProvider({ baseUrl: 'https://hermes.example.com/', httpClient: http });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should scale price and confidence by the exponent', async () => {
+    http.once('/v2/updates/price/latest', { data: PYTH_LATEST_BTC });
+
+    const price = await provider.fetchPrice('btc', 'USD');
+
+    expect(price).toEqual({
+      symbol: 'BTC',
+      price: 71062.78495,
+      priceDecimal: '71062.78495',
+      timestamp: new Date(PYTH_PUBLISH_TIME * 1000),
+      confidenceInterval: 32.8518
+    });
+    expect(http.requests).toEqual([{
+      method: 'GET',
+      url: 'https://hermes.example.com/v2/updates/price/latest',
+      params: { ids: [PYTH_BTC_ID], parsed: true },
+      timeoutMs: 10000
+    }]);
+  });
+
+  it('should fetch a batch in one request and report unconfigured pairs', async () => {
+    http.once('/v2/updates/price/latest', { data: PYTH_LATEST_BTC_ETH });
+
+    const result = await provider.fetchMultiplePricesDetailed(['BTC', 'ETH', 'DOGE'], 'USD');
+
+    expect(http.requests.map(r => r.params)).toEqual([{ ids: [PYTH_BTC_ID, PYTH_ETH_ID], parsed: true }]);
+    expect(result.prices.map(p => [p.symbol, p.price, p.confidenceInterval])).toEqual([
+      ['BTC', 71062.78495, 32.8518],
+      ['ETH', 3812.64499999, 2.1391742]
+    ]);
+    expect(result.failures).toEqual([expect.objectContaining({ symbol: 'DOGE', reason: 'unknown-asset' })]);
+  });
+
+  it('should reject updates older than maxAgeMs', async () => {
+    vi.setSystemTime(PYTH_PUBLISH_TIME * 1000 + 5 * 60 * 1000);
+    http.once('/v2/updates/price/latest', { data: PYTH_LATEST_BTC });
+
+    const error = await provider.fetchPrice('BTC').catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderUnavailableException);
+    expect(error.message).toContain('BTC/USD update is 300s old');
+  });
+
+  it('should know only configured pairs', async () => {
+    await expect(provider.fetchPrice('DOGE', 'USD')).rejects.toThrow(AssetNotFoundException);
+    await expect(provider.fetchPrice('BTC', 'EUR')).rejects.toThrow(UnsupportedCurrencyException);
+    expect(http.requests).toHaveLength(0);
+  });
+
+  it('should accept custom feed ids with a 0x prefix', async () => {
+    const custom = new PythPriceProvider({ feedIds: { 'XBT/USD': `0x${PYTH_BTC_ID.toUpperCase()}` }, httpClient: http });
+    http.once('/v2/updates/price/latest', { data: PYTH_LATEST_BTC });
+
+    expect((await custom.fetchPrice('XBT')).price).toBe(71062.78495);
+  });
+
+  it('should let the aggregator drop sources without a tight enough interval', async () => {
+    http.on('/v2/updates/price/latest', { data: PYTH_LATEST_BTC });
+    const aggregator = new DecentralizedAggregator({
+      providers: [provider, new TestPriceProvider()],
+      consensusThreshold: 1,
+      pricingStrategy: new ConfidenceWeightedStrategy({ maxRelativeConfidence: 0.001 }),
+      cacheOptions: { storage: 'memory' }
+    });
+
+    const price = await aggregator.fetchPrice('BTC', 'USD');
+
+    expect(price.price).toBeCloseTo(71062.78495, 6);
+    expect(price.confidenceInterval).toBeUndefined();
+    expect(price.provenance?.sources).toEqual([
+      expect.objectContaining({ provider: 'pyth', confidenceInterval: 32.8518, outlier: false }),
+      expect.objectContaining({ provider: 'test', outlier: true })
+    ]);
+  });
+});
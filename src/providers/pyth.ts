@@ -0,0 +1,153 @@
+import {
+  BatchPriceResult,
+  CallOptions,
+  DetailedBatchPriceProvider,
+  PriceData,
+  PriceFailure,
+  ProviderConfiguration
+} from '../types.js';
+import { AssetNotFoundException, ProviderUnavailableException, UnsupportedCurrencyException } from '../errors.js';
+import { ProviderHttpClient } from '../utils/provider-http.js';
+import { missingPriceFailures, toPriceFailure } from '../utils/price-failures.js';
+import { normalizeAssetKey } from '../utils/asset-id.js';
+import { Decimal } from '../utils/decimal.js';
+
+// baseUrl is any Hermes-compatible service; defaults to the public Hermes
+export interface PythPriceProviderOptions extends ProviderConfiguration {
+  feedIds?: Record<string, string>; // Pair ('BTC/USD') -> price feed id, merged over PYTH_FEED_IDS
+  maxAgeMs?: number; // Updates published longer ago than this are rejected
+}
+
+// Pyth publishes integers scaled by 10^expo
+interface PythPrice {
+  price: string;
+  conf: string;
+  expo: number;
+  publish_time: number; // Unix seconds
+}
+
+interface PythPriceUpdate {
+  id: string;
+  price: PythPrice;
+}
+
+interface PythLatestResponse {
+  parsed?: PythPriceUpdate[];
+}
+
+export const PYTH_FEED_IDS: Record<string, string> = {
+  'BTC/USD': 'e62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43',
+  'ETH/USD': 'ff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace',
+  'SOL/USD': 'ef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d',
+  'USDC/USD': 'eaa020c61cc479712813461ce153894a96a6c00b21ed0cfc2798d1f9a9e9c94a'
+};
+
+function scaled(value: string, expo: number): Decimal {
+  return Decimal.from(`${value}e${expo}`).normalize();
+}
+
+/**
+ * Pyth price updates from a Hermes endpoint. Every price carries the
+ * publisher's confidence interval, which strategies such as
+ * ConfidenceWeightedStrategy use to weight or drop the source. The price
+ * timestamp is the update's publish time.
+ */
+export class PythPriceProvider implements DetailedBatchPriceProvider {
+  readonly name = 'pyth';
+  readonly quoteCurrencies: string[];
+  private http: ProviderHttpClient;
+  private feedIds: Record<string, string> = {};
+  private maxAgeMs: number;
+
+  constructor(options: PythPriceProviderOptions = {}) {
+    this.http = new ProviderHttpClient(this.name, { baseUrl: 'https://hermes.pyth.network' }, options);
+    this.maxAgeMs = options.maxAgeMs || 60000;
+
+    for (const [pair, id] of Object.entries({ ...PYTH_FEED_IDS, ...options.feedIds })) {
+      this.feedIds[pair.toUpperCase()] = id.toLowerCase().replace(/^0x/, '');
+    }
+    this.quoteCurrencies = [...new Set(Object.keys(this.feedIds).map(pair => pair.split('/')[1]))];
+  }
+
+  async fetchPrice(symbol: string, currency: string = 'usd', options: CallOptions = {}): Promise<PriceData> {
+    const { prices, failures } = await this.fetchMultiplePricesDetailed([symbol], currency, options);
+
+    if (prices.length === 0) {
+      const failure = failures[0];
+      throw failure.reason === 'unknown-asset'
+        ? new AssetNotFoundException(normalizeAssetKey(symbol), this.name, failure.message)
+        : new ProviderUnavailableException(this.name, failure.message);
+    }
+    return prices[0];
+  }
+
+  async fetchMultiplePrices(symbols: string[], currency: string = 'usd', options: CallOptions = {}): Promise<PriceData[]> {
+    return (await this.fetchMultiplePricesDetailed(symbols, currency, options)).prices;
+  }
+
+  async fetchMultiplePricesDetailed(
+    symbols: string[],
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    const quote = currency.toUpperCase();
+    if (!this.quoteCurrencies.includes(quote)) {
+      throw new UnsupportedCurrencyException(quote, this.name);
+    }
+
+    const failures: PriceFailure[] = [];
+    const ids = new Map<string, string>(); // Feed id -> symbol
+
+    for (const symbol of symbols) {
+      const key = normalizeAssetKey(symbol);
+      const id = this.feedIds[`${key}/${quote}`];
+      if (id) {
+        ids.set(id, key);
+      } else {
+        failures.push(toPriceFailure(key, new AssetNotFoundException(key, this.name, `No Pyth feed configured for ${key}/${quote}`)));
+      }
+    }
+
+    if (ids.size === 0) {
+      return { prices: [], failures };
+    }
+
+    const data = await this.http.get<PythLatestResponse>('/v2/updates/price/latest', {
+      ids: [...ids.keys()],
+      parsed: true
+    }, options);
+    const updates = Array.isArray(data?.parsed) ? data.parsed : [];
+
+    const prices: PriceData[] = [];
+
+    for (const update of updates) {
+      const symbol = ids.get(update.id.toLowerCase().replace(/^0x/, ''));
+      if (!symbol) {
+        continue;
+      }
+
+      const ageMs = Date.now() - update.price.publish_time * 1000;
+      if (ageMs > this.maxAgeMs) {
+        failures.push(toPriceFailure(symbol, new ProviderUnavailableException(
+          this.name,
+          `${symbol}/${quote} update is ${Math.round(ageMs / 1000)}s old`
+        )));
+        continue;
+      }
+
+      const price = scaled(update.price.price, update.price.expo);
+      prices.push({
+        symbol,
+        price: price.toNumber(),
+        priceDecimal: price.toString(),
+        timestamp: new Date(update.price.publish_time * 1000),
+        confidenceInterval: scaled(update.price.conf, update.price.expo).toNumber()
+      });
+    }
+
+    const answered = new Set(failures.map(f => f.symbol));
+    failures.push(...missingPriceFailures([...ids.values()].filter(s => !answered.has(s)), prices, this.name));
+
+    return { prices, failures };
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingPriceProvider } from './streaming-price-provider.js';
+import { CoinbaseTickerProtocol } from './coinbase-ticker-protocol.js';
+import { DecentralizedAggregator } from './decentralized-aggregator.js';
+import { TestPriceProvider } from './test-price-provider.js';
+import { StandInWebSocketServer } from '../__fixtures__/websocket-stand-in.js';
+import { OperationAbortedException } from '../errors.js';
+
+function ticker(product: string, price: number, bid?: number, ask?: number) {
+  return {
+    type: 'ticker',
+    product_id: product,
+    price: String(price),
+    ...(bid !== undefined && { best_bid: String(bid) }),
+    ...(ask !== undefined && { best_ask: String(ask) }),
+    time: new Date().toISOString()
+  };
+}
+
+describe('StreamingPriceProvider', () => {
+  let server: StandInWebSocketServer;
+  let provider: StreamingPriceProvider;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server = new StandInWebSocketServer();
+    provider = new StreamingPriceProvider({
+      protocol: new CoinbaseTickerProtocol(),
+      symbols: ['BTC'],
+      socketFactory: server.factory,
+      staleAfterMs: 10000,
+      reconnectDelayMs: 500
+    });
+  });
+
+  afterEach(() => {
+    provider.close();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should subscribe on connect and serve the mid price from the book', async () => {
+    provider.connect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(JSON.parse(server.received[0])).toEqual({
+      type: 'subscribe',
+      product_ids: ['BTC-USD'],
+      channels: ['ticker']
+    });
+
+    server.broadcast(ticker('BTC-USD', 50010, 49990, 50000));
+    const price = await provider.fetchPrice('btc', 'USD');
+
+    expect(price.symbol).toBe('BTC');
+    expect(price.price).toBe(49995);
+  });
+
+  it('should subscribe to a new symbol and wait for its first tick', async () => {
+    provider.connect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const pending = provider.fetchPrice('ETH');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(JSON.parse(server.received[1]).product_ids).toEqual(['ETH-USD']);
+
+    server.broadcast(ticker('ETH-USD', 3001.5));
+    expect((await pending).price).toBe(3001.5);
+  });
+
+  it('should reject a symbol that never ticks', async () => {
+    const pending = expect(provider.fetchPrice('DOGE')).rejects.toThrow('no fresh price for DOGE');
+    await vi.advanceTimersByTimeAsync(5000);
+    await pending;
+  });
+
+  it('should stop waiting for a first tick once the caller\'s deadline passes', async () => {
+    provider.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const timers = vi.getTimerCount();
+
+    const pending = expect(provider.fetchPrice('DOGE', 'usd', { timeoutMs: 1000 })).rejects.toThrow(OperationAbortedException);
+    await vi.advanceTimersByTimeAsync(1000);
+    await pending;
+
+    expect(vi.getTimerCount()).toBe(timers);
+  });
+
+  it('should reconnect with backoff and resubscribe every watched symbol', async () => {
+    provider.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    server.broadcast(ticker('ETH-USD', 3000));
+    await provider.fetchPrice('ETH').catch(() => null);
+
+    server.refuseConnections = true;
+    server.dropConnections();
+    await vi.advanceTimersByTimeAsync(500); // First retry, refused
+    await vi.advanceTimersByTimeAsync(999);
+    expect(server.sockets).toHaveLength(2);
+
+    server.refuseConnections = false;
+    await vi.advanceTimersByTimeAsync(1); // Second retry after 1000ms
+    expect(server.sockets).toHaveLength(3);
+    expect(provider.getStatus()).toMatchObject({ connected: true, reconnectAttempts: 0 });
+    expect(JSON.parse(server.received[server.received.length - 1]).product_ids).toEqual(['BTC-USD', 'ETH-USD']);
+  });
+
+  it('should replace a silent connection and stop serving stale prices', async () => {
+    provider.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    server.broadcast(ticker('BTC-USD', 50000));
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(server.sockets[0].readyState).toBe(3);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(server.openSockets).toHaveLength(1);
+
+    const pending = expect(provider.fetchPrice('BTC')).rejects.toThrow('no fresh price');
+    await vi.advanceTimersByTimeAsync(5000);
+    await pending;
+  });
+
+  it('should unsubscribe symbols left unread and keep the configured ones', async () => {
+    provider = new StreamingPriceProvider({
+      protocol: new CoinbaseTickerProtocol(),
+      symbols: ['BTC'],
+      socketFactory: server.factory,
+      staleAfterMs: 60000,
+      unwatchAfterMs: 20000
+    });
+    provider.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    server.broadcast(ticker('ETH-USD', 3000));
+    await provider.fetchPrice('ETH');
+
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(JSON.parse(server.received[server.received.length - 1])).toEqual({
+      type: 'unsubscribe',
+      product_ids: ['ETH-USD'],
+      channels: ['ticker']
+    });
+    expect(provider.getStatus().symbols).toEqual(['BTC']);
+  });
+
+  it('should contribute to consensus next to REST providers', async () => {
+    const aggregator = new DecentralizedAggregator({
+      providers: [provider, new TestPriceProvider()],
+      cacheOptions: { storage: 'memory' }
+    });
+    provider.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    server.broadcast(ticker('BTC-USD', 40100));
+
+    const pending = aggregator.fetchMultiplePrices(['BTC']);
+    await vi.advanceTimersByTimeAsync(1); // Batches are collected for one timer turn
+    const [btc] = await pending;
+
+    expect(btc.price).toBe(40050);
+    expect(btc.provenance!.sources.map(s => s.provider)).toEqual(['coinbase-stream', 'test']);
+  });
+});
@@ -0,0 +1,403 @@
+import { BatchPriceResult, CallOptions, DetailedBatchPriceProvider, PriceData } from '../types.js';
+import { ProviderUnavailableException, UnsupportedCurrencyException } from '../errors.js';
+import { isPriceFailure, toPriceFailure } from '../utils/price-failures.js';
+import { abortError, throwIfAborted, withDeadline } from '../utils/abort.js';
+
+// The subset of the browser WebSocket API the provider relies on
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+}
+
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+export interface TickerUpdate {
+  symbol: string;
+  price?: number; // Last trade
+  bid?: number;
+  ask?: number;
+  timestamp?: Date; // Exchange time; defaults to the time the message arrived
+}
+
+/**
+ * Everything exchange specific about a ticker stream: where to connect, how
+ * to subscribe and how to read its messages.
+ */
+export interface TickerProtocol {
+  readonly name: string;
+  readonly url: string;
+  readonly quoteCurrency: string;
+  subscribeMessages(symbols: string[]): string[];
+  unsubscribeMessages?(symbols: string[]): string[];
+  parseMessage(data: string): TickerUpdate[];
+}
+
+export interface StreamingPriceProviderOptions {
+  protocol: TickerProtocol;
+  symbols?: string[]; // Subscribed as soon as the connection opens
+  socketFactory?: WebSocketFactory; // Defaults to the global WebSocket
+  staleAfterMs?: number; // Silence after which the stream, or a single symbol, counts as stale
+  firstTickTimeoutMs?: number; // How long fetchPrice waits for a newly subscribed symbol
+  unwatchAfterMs?: number; // Symbols fetchPrice subscribed to are dropped once unread this long
+  reconnectDelayMs?: number; // First reconnect delay; doubles per failed attempt
+  maxReconnectDelayMs?: number;
+}
+
+export interface StreamStatus {
+  connected: boolean;
+  lastMessageAt: Date | null;
+  reconnectAttempts: number;
+  symbols: string[];
+}
+
+interface BookEntry {
+  price?: number;
+  bid?: number;
+  ask?: number;
+  exchangeTime: number;
+  receivedAt: number;
+}
+
+const OPEN = 1;
+
+function defaultSocketFactory(url: string): WebSocketLike {
+  const WebSocketImpl = (globalThis as { WebSocket?: new (url: string) => WebSocketLike }).WebSocket;
+  if (!WebSocketImpl) {
+    throw new Error('No global WebSocket available; pass a socketFactory');
+  }
+  return new WebSocketImpl(url);
+}
+
+/**
+ * Keeps one WebSocket ticker connection open and answers fetchPrice from an
+ * in-memory book of the latest trade and best bid/ask per symbol. The price
+ * is the bid/ask mid when both sides are known, else the last trade.
+ *
+ * Lost connections are retried with exponential backoff and every watched
+ * symbol is resubscribed on reconnect. A connection that goes silent for
+ * `staleAfterMs` is dropped and reopened, and a symbol whose last update is
+ * older than that is not served. Symbols subscribed on first request, rather
+ * than through `symbols`, are unsubscribed once unread for `unwatchAfterMs`.
+ */
+export class StreamingPriceProvider implements DetailedBatchPriceProvider {
+  readonly name: string;
+  readonly quoteCurrencies: string[];
+  private protocol: TickerProtocol;
+  private socketFactory: WebSocketFactory;
+  private staleAfterMs: number;
+  private firstTickTimeoutMs: number;
+  private unwatchAfterMs: number;
+  private reconnectDelayMs: number;
+  private maxReconnectDelayMs: number;
+  private socket: WebSocketLike | null = null;
+  private book = new Map<string, BookEntry>();
+  private watched = new Set<string>();
+  private pinned = new Set<string>();
+  private lastReadAt = new Map<string, number>();
+  private waiters = new Map<string, Array<() => void>>();
+  private lastMessageAt: number | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchdog: ReturnType<typeof setInterval> | null = null;
+  private closed = true;
+
+  constructor(options: StreamingPriceProviderOptions) {
+    this.protocol = options.protocol;
+    this.name = `${options.protocol.name}-stream`;
+    this.quoteCurrencies = [options.protocol.quoteCurrency.toUpperCase()];
+    this.socketFactory = options.socketFactory || defaultSocketFactory;
+    this.staleAfterMs = options.staleAfterMs || 30000;
+    this.firstTickTimeoutMs = options.firstTickTimeoutMs || 5000;
+    this.unwatchAfterMs = options.unwatchAfterMs || 10 * 60 * 1000;
+    this.reconnectDelayMs = options.reconnectDelayMs || 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs || 30000;
+    (options.symbols || []).forEach(symbol => this.pinned.add(symbol.toUpperCase()));
+    this.pinned.forEach(symbol => this.watched.add(symbol));
+  }
+
+  connect(): void {
+    if (!this.closed) {
+      return;
+    }
+
+    this.closed = false;
+    this.open();
+    this.watchdog = setInterval(() => {
+      this.checkStale();
+      this.unwatchIdle();
+    }, Math.max(1000, this.staleAfterMs / 2));
+    // The socket keeps the process alive while it is open; the watchdog should not
+    this.watchdog.unref?.();
+  }
+
+  close(): void {
+    this.closed = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  getStatus(): StreamStatus {
+    return {
+      connected: this.socket?.readyState === OPEN,
+      lastMessageAt: this.lastMessageAt === null ? null : new Date(this.lastMessageAt),
+      reconnectAttempts: this.reconnectAttempts,
+      symbols: [...this.watched]
+    };
+  }
+
+  async fetchPrice(symbol: string, currency: string = 'usd', options: CallOptions = {}): Promise<PriceData> {
+    if (currency.toUpperCase() !== this.quoteCurrencies[0]) {
+      throw new UnsupportedCurrencyException(currency.toUpperCase(), this.name);
+    }
+
+    const key = symbol.toUpperCase();
+    this.watch(key);
+
+    const fresh = this.getFreshEntry(key) || await withDeadline(options, signal => this.waitForTick(key, signal));
+    return {
+      symbol: key,
+      price: this.priceOf(fresh),
+      timestamp: new Date(fresh.exchangeTime)
+    };
+  }
+
+  async fetchMultiplePrices(symbols: string[], currency: string = 'usd', options: CallOptions = {}): Promise<PriceData[]> {
+    return (await this.fetchMultiplePricesDetailed(symbols, currency, options)).prices;
+  }
+
+  async fetchMultiplePricesDetailed(
+    symbols: string[],
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    return withDeadline(options, async signal => {
+      const outcomes = await Promise.all(symbols.map(symbol =>
+        this.fetchPrice(symbol, currency, { signal }).catch(error => toPriceFailure(symbol, error))
+      ));
+      throwIfAborted(signal);
+
+      return {
+        prices: outcomes.filter((outcome): outcome is PriceData => !isPriceFailure(outcome)),
+        failures: outcomes.filter(isPriceFailure)
+      };
+    });
+  }
+
+  private watch(symbol: string): void {
+    this.connect();
+    this.lastReadAt.set(symbol, Date.now());
+
+    if (this.watched.has(symbol)) {
+      return;
+    }
+
+    this.watched.add(symbol);
+    if (this.socket?.readyState === OPEN) {
+      this.sendSubscriptions([symbol]);
+    }
+  }
+
+  private unwatchIdle(): void {
+    const idle = [...this.lastReadAt]
+      .filter(([symbol, readAt]) => !this.pinned.has(symbol) && Date.now() - readAt >= this.unwatchAfterMs)
+      .map(([symbol]) => symbol);
+
+    if (idle.length === 0) {
+      return;
+    }
+
+    for (const symbol of idle) {
+      this.watched.delete(symbol);
+      this.lastReadAt.delete(symbol);
+      this.book.delete(symbol);
+    }
+    if (this.socket?.readyState === OPEN && this.protocol.unsubscribeMessages) {
+      for (const message of this.protocol.unsubscribeMessages(idle)) {
+        this.socket.send(message);
+      }
+    }
+  }
+
+  private open(): void {
+    let socket: WebSocketLike;
+
+    try {
+      socket = this.socketFactory(this.protocol.url);
+    } catch (error) {
+      console.warn(`${this.name} failed to connect:`, error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      this.sendSubscriptions([...this.watched]);
+    };
+
+    socket.onmessage = event => {
+      this.lastMessageAt = Date.now();
+      this.applyUpdates(typeof event.data === 'string' ? event.data : String(event.data));
+    };
+
+    socket.onerror = () => {
+      // A close event always follows; reconnecting happens there
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(this.reconnectDelayMs * Math.pow(2, this.reconnectAttempts), this.maxReconnectDelayMs);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.closed) {
+        this.open();
+      }
+    }, delay);
+  }
+
+  // A connection that has gone quiet may be half-open; replace it
+  private checkStale(): void {
+    if (!this.socket || this.socket.readyState !== OPEN || this.lastMessageAt === null) {
+      return;
+    }
+
+    if (Date.now() - this.lastMessageAt >= this.staleAfterMs) {
+      console.warn(`${this.name} stream is stale, reconnecting`);
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+      this.scheduleReconnect();
+    }
+  }
+
+  private sendSubscriptions(symbols: string[]): void {
+    if (symbols.length === 0) {
+      return;
+    }
+    for (const message of this.protocol.subscribeMessages(symbols)) {
+      this.socket?.send(message);
+    }
+  }
+
+  private applyUpdates(data: string): void {
+    let updates: TickerUpdate[];
+
+    try {
+      updates = this.protocol.parseMessage(data);
+    } catch (error) {
+      console.warn(`${this.name} could not parse message:`, error);
+      return;
+    }
+
+    const now = Date.now();
+
+    for (const update of updates) {
+      const key = update.symbol.toUpperCase();
+      const previous = this.book.get(key);
+
+      this.book.set(key, {
+        price: update.price ?? previous?.price,
+        bid: update.bid ?? previous?.bid,
+        ask: update.ask ?? previous?.ask,
+        exchangeTime: update.timestamp?.getTime() ?? now,
+        receivedAt: now
+      });
+
+      const waiters = this.waiters.get(key);
+      if (waiters) {
+        this.waiters.delete(key);
+        waiters.forEach(resolve => resolve());
+      }
+    }
+  }
+
+  private getFreshEntry(symbol: string): BookEntry | null {
+    const entry = this.book.get(symbol);
+    if (!entry || Date.now() - entry.receivedAt >= this.staleAfterMs) {
+      return null;
+    }
+    if (entry.price === undefined && (entry.bid === undefined || entry.ask === undefined)) {
+      return null;
+    }
+    return entry;
+  }
+
+  // Resolves on the symbol's first fresh tick; a timeout or an abort drops the waiter
+  private waitForTick(symbol: string, signal?: AbortSignal): Promise<BookEntry> {
+    return new Promise((resolve, reject) => {
+      const stopWaiting = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        const waiters = (this.waiters.get(symbol) || []).filter(waiter => waiter !== onTick);
+        if (waiters.length > 0) {
+          this.waiters.set(symbol, waiters);
+        } else {
+          this.waiters.delete(symbol);
+        }
+      };
+
+      const onTick = () => {
+        const entry = this.getFreshEntry(symbol);
+        if (entry) {
+          stopWaiting();
+          resolve(entry);
+        } else {
+          // Only one side of the book so far; keep waiting
+          this.waiters.set(symbol, [...(this.waiters.get(symbol) || []), onTick]);
+        }
+      };
+
+      const onAbort = () => {
+        stopWaiting();
+        reject(abortError(signal!));
+      };
+
+      const timer = setTimeout(() => {
+        stopWaiting();
+        reject(new ProviderUnavailableException(this.name, `no fresh price for ${symbol}`));
+      }, this.firstTickTimeoutMs);
+
+      this.waiters.set(symbol, [...(this.waiters.get(symbol) || []), onTick]);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private priceOf(entry: BookEntry): number {
+    if (entry.bid !== undefined && entry.ask !== undefined) {
+      return (entry.bid + entry.ask) / 2;
+    }
+    return entry.price!;
+  }
+}
@@ -1,4 +1,16 @@
-import { PriceData, PriceProvider } from '../types.js';
+import {
+  BatchPriceResult,
+  CallOptions,
+  DetailedBatchPriceProvider,
+  HistoricalPriceProvider,
+  PriceData,
+  PricePoint,
+  PriceSeriesOptions,
+  PriceSeriesProvider
+} from '../types.js';
+import { AssetNotFoundException } from '../errors.js';
+import { toPriceFailure } from '../utils/price-failures.js';
+import { throwIfAborted, withDeadline } from '../utils/abort.js';
 
 const DETERMINISTIC_PRICES: Record<string, number> = {
   BTC: 40000,
@@ -8,13 +20,35 @@ const DETERMINISTIC_PRICES: Record<string, number> = {
   USDT: 1,
 };
 
-export class TestPriceProvider implements PriceProvider {
-  async fetchPrice(symbol: string, _currency: string = 'usd'): Promise<PriceData> {
+// Units per US dollar, for the local environment's FX source
+export const DETERMINISTIC_FX_RATES: Record<string, number> = {
+  EUR: 0.9,
+  GBP: 0.8,
+  CHF: 0.875,
+  JPY: 150,
+};
+
+const STABLECOINS = new Set(['USDC', 'USDT']);
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Mirror CoinGecko: hourly samples up to 90 days, daily samples beyond
+const HOURLY_SAMPLE_LIMIT_MS = 90 * DAY_MS;
+
+export class TestPriceProvider implements HistoricalPriceProvider, PriceSeriesProvider, DetailedBatchPriceProvider {
+  readonly name = 'test';
+  readonly quoteCurrencies = ['USD']; // Deterministic prices are USD only
+
+  async fetchPrice(symbol: string, _currency: string = 'usd', options: CallOptions = {}): Promise<PriceData> {
+    throwIfAborted(options.signal);
     const normalizedSymbol = symbol.toUpperCase();
     const price = DETERMINISTIC_PRICES[normalizedSymbol];
 
     if (price === undefined) {
-      throw new Error(`TestPriceProvider: no deterministic price for ${normalizedSymbol}`);
+      throw new AssetNotFoundException(
+        normalizedSymbol,
+        this.name,
+        `TestPriceProvider: no deterministic price for ${normalizedSymbol}`
+      );
     }
 
     return {
@@ -24,18 +58,93 @@ export class TestPriceProvider implements PriceProvider {
     };
   }
 
-  async fetchMultiplePrices(symbols: string[], currency: string = 'usd'): Promise<PriceData[]> {
-    const results: PriceData[] = [];
+  async fetchMultiplePrices(symbols: string[], currency: string = 'usd', options: CallOptions = {}): Promise<PriceData[]> {
+    return (await this.fetchMultiplePricesDetailed(symbols, currency, options)).prices;
+  }
+
+  async fetchMultiplePricesDetailed(
+    symbols: string[],
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    const result: BatchPriceResult<PriceData> = { prices: [], failures: [] };
 
     for (const symbol of symbols) {
       try {
-        const priceData = await this.fetchPrice(symbol, currency);
-        results.push(priceData);
-      } catch {
-        // Skip symbols without deterministic prices
+        result.prices.push(await this.fetchPrice(symbol, currency, options));
+      } catch (error) {
+        throwIfAborted(options.signal);
+        result.failures.push(toPriceFailure(symbol, error));
       }
     }
 
-    return results;
+    return result;
+  }
+
+  /**
+   * Historical prices move in a fixed 21-day cycle of -10%..+10% around the
+   * deterministic price, keyed on the UTC day. Stablecoins stay at their peg.
+   */
+  async fetchHistoricalPrice(
+    symbol: string,
+    at: Date,
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<PriceData> {
+    return withDeadline(options, async signal => {
+      const current = await this.fetchPrice(symbol, currency, { signal });
+      const day = Math.floor(at.getTime() / DAY_MS);
+      const cycle = ((day % 21) + 21) % 21;
+      const factor = STABLECOINS.has(current.symbol) ? 1 : 1 + (cycle - 10) / 100;
+
+      return {
+        symbol: current.symbol,
+        price: current.price * factor,
+        timestamp: new Date(day * DAY_MS),
+      };
+    });
+  }
+
+  async fetchHistoricalPrices(
+    symbols: string[],
+    at: Date,
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<PriceData[]> {
+    return withDeadline(options, async signal => {
+      const results: PriceData[] = [];
+
+      for (const symbol of symbols) {
+        try {
+          results.push(await this.fetchHistoricalPrice(symbol, at, currency, { signal }));
+        } catch {
+          throwIfAborted(signal);
+          // Skip symbols without deterministic prices
+        }
+      }
+
+      return results;
+    });
+  }
+
+  async fetchPriceSeries(
+    symbol: string,
+    options: PriceSeriesOptions,
+    currency: string = 'usd',
+    call: CallOptions = {}
+  ): Promise<PricePoint[]> {
+    return withDeadline(call, async signal => {
+      const from = options.from.getTime();
+      const to = options.to.getTime();
+      const step = to - from > HOURLY_SAMPLE_LIMIT_MS ? DAY_MS : HOUR_MS;
+      const points: PricePoint[] = [];
+
+      for (let time = Math.ceil(from / step) * step; time <= to; time += step) {
+        const historical = await this.fetchHistoricalPrice(symbol, new Date(time), currency, { signal });
+        points.push({ timestamp: new Date(time), price: historical.price });
+      }
+
+      return points;
+    });
   }
 }
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { UniswapPriceProvider, UNISWAP_DEPLOYMENTS } from './uniswap.js';
+import { DecentralizedAggregator } from './decentralized-aggregator.js';
+import { AssetNotFoundException, ProviderUnavailableException } from '../errors.js';
+import { encodeCall } from '../utils/json-rpc.js';
+import { JsonRpcStandIn, returnData } from '../__fixtures__/json-rpc-stand-in.js';
+
+const { weth: WETH, usdc: USDC, v2Factory: V2_FACTORY, v3Factory: V3_FACTORY } = UNISWAP_DEPLOYMENTS[1];
+const LONG = '0x1111111111111111111111111111111111111111';
+const THIN = '0x2222222222222222222222222222222222222222';
+const WETH_USDC_PAIR = '0x00000000000000000000000000000000000000a1';
+const LONG_USDC_PAIR = '0x00000000000000000000000000000000000000a2';
+const LONG_WETH_POOL = '0x00000000000000000000000000000000000000b1';
+const THIN_USDC_PAIR = '0x00000000000000000000000000000000000000a3';
+
+const Q96 = 2n ** 96n;
+
+describe('UniswapPriceProvider', () => {
+  let node: JsonRpcStandIn;
+  let provider: UniswapPriceProvider;
+
+  function token(address: string, decimals: number) {
+    node.setCall(address, '0x313ce567', returnData(decimals));
+  }
+
+  // Factories answer getPair/getPool in either token order
+  function v2Pair(a: string, b: string, pair: string, reserve0: bigint, reserve1: bigint) {
+    node.setCall(V2_FACTORY!, encodeCall('0xe6a43905', a, b), returnData(pair));
+    node.setCall(V2_FACTORY!, encodeCall('0xe6a43905', b, a), returnData(pair));
+    node.setCall(pair, '0x0902f1ac', returnData(reserve0, reserve1, 0));
+  }
+
+  function v3Pool(a: string, b: string, fee: number, pool: string, sqrtPriceX96: bigint) {
+    node.setCall(V3_FACTORY!, encodeCall('0x1698ee82', a, b, fee), returnData(pool));
+    node.setCall(V3_FACTORY!, encodeCall('0x1698ee82', b, a, fee), returnData(pool));
+    node.setCall(pool, '0x3850c7bd', returnData(sqrtPriceX96, 0, 0, 0, 0, 0, 1));
+  }
+
+  function balance(tokenAddress: string, holder: string, amount: bigint) {
+    node.setCall(tokenAddress, encodeCall('0x70a08231', holder), returnData(amount));
+  }
+
+  beforeEach(async () => {
+    node = new JsonRpcStandIn();
+    await node.start();
+    provider = new UniswapPriceProvider({
+      rpcUrls: { 1: node.url },
+      tokens: { LONG: { chainId: 1, address: LONG } }
+    });
+
+    token(WETH, 18);
+    token(USDC, 6);
+    token(LONG, 9);
+    token(THIN, 18);
+
+    // USDC sorts before WETH: 30M USDC against 10k WETH puts ETH at $3000
+    v2Pair(WETH, USDC, WETH_USDC_PAIR, 30_000_000n * 10n ** 6n, 10_000n * 10n ** 18n);
+  });
+
+  afterEach(async () => {
+    await node.stop();
+  });
+
+  it('should price WETH from its USDC pair', async () => {
+    const price = await provider.fetchPrice('ETH', 'USD');
+
+    expect(price).toEqual({ symbol: 'ETH', price: 3000, timestamp: expect.any(Date) });
+  });
+
+  it('should route through WETH and skip a thin direct pool', async () => {
+    // 0.001 WETH per LONG: 1e6 raw WETH units per raw LONG unit, sqrt = 1000
+    v3Pool(LONG, WETH, 3000, LONG_WETH_POOL, 1000n * Q96);
+    balance(WETH, LONG_WETH_POOL, 100n * 10n ** 18n);
+    // $5 per LONG, but only $1000 deep
+    v2Pair(LONG, USDC, LONG_USDC_PAIR, 100n * 10n ** 9n, 500n * 10n ** 6n);
+
+    const price = await provider.fetchPrice('LONG');
+
+    expect(price.price).toBeCloseTo(3, 10);
+  });
+
+  it('should accept CAIP-19 contract ids', async () => {
+    v3Pool(LONG, WETH, 3000, LONG_WETH_POOL, 1000n * Q96);
+    balance(WETH, LONG_WETH_POOL, 100n * 10n ** 18n);
+
+    const price = await provider.fetchPrice(`eip155:1/erc20:${LONG}`);
+
+    expect(price.symbol).toBe(`eip155:1/erc20:${LONG}`);
+    expect(price.price).toBeCloseTo(3, 10);
+  });
+
+  it('should reject a token whose only pools are below the liquidity threshold', async () => {
+    v2Pair(THIN, USDC, THIN_USDC_PAIR, 1000n * 10n ** 18n, 2000n * 10n ** 6n);
+
+    const error = await provider.fetchPrice(`eip155:1/erc20:${THIN}`).catch(e => e);
+
+    expect(error).toBeInstanceOf(AssetNotFoundException);
+    expect(error.message).toContain('at least $50000');
+  });
+
+  it('should reject a contract that reports no decimals instead of assuming 18', async () => {
+    node.setCall(THIN, '0x313ce567', '0x');
+    v2Pair(THIN, USDC, THIN_USDC_PAIR, 1000n * 10n ** 18n, 2_000_000n * 10n ** 6n);
+
+    const error = await provider.fetchPrice(`eip155:1/erc20:${THIN}`).catch(e => e);
+
+    expect(error).toBeInstanceOf(AssetNotFoundException);
+    expect(error.message).toContain('returned no decimals');
+  });
+
+  it('should not know tickers without a configured contract', async () => {
+    await expect(provider.fetchPrice('PEPE')).rejects.toThrow(AssetNotFoundException);
+    expect(node.requests).toHaveLength(0);
+  });
+
+  it('should report failing calls as ProviderUnavailableException', async () => {
+    node.setRevert(WETH_USDC_PAIR, '0x0902f1ac');
+
+    await expect(provider.fetchPrice('ETH')).rejects.toThrow(ProviderUnavailableException);
+  });
+
+  it('should contribute to consensus as a regular provider', async () => {
+    v3Pool(LONG, WETH, 3000, LONG_WETH_POOL, 1000n * Q96);
+    balance(WETH, LONG_WETH_POOL, 100n * 10n ** 18n);
+    const aggregator = new DecentralizedAggregator({ providers: [provider], cacheOptions: { storage: 'memory' } });
+
+    const price = await aggregator.fetchPrice('LONG', 'USD');
+
+    expect(price.price).toBeCloseTo(3, 10);
+    expect(price.provenance!.sources.map(s => s.provider)).toEqual(['uniswap']);
+  });
+});
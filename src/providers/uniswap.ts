@@ -0,0 +1,307 @@
+import { AssetIdentifier, BatchPriceResult, CallOptions, DetailedBatchPriceProvider, PriceData } from '../types.js';
+import { AssetNotFoundException, UnsupportedCurrencyException } from '../errors.js';
+import { JsonRpcClient, JsonRpcConfiguration, decodeAddress, decodeWords, encodeCall } from '../utils/json-rpc.js';
+import { isPriceFailure, toPriceFailure } from '../utils/price-failures.js';
+import { normalizeAssetKey, parseAssetId } from '../utils/asset-id.js';
+import { throwIfAborted, withChildSignal, withDeadline } from '../utils/abort.js';
+
+// Where Uniswap lives on a chain, and the tokens prices are routed through
+export interface UniswapDeployment {
+  weth: string;
+  usdc: string; // Stands in for USD
+  v2Factory?: string;
+  v3Factory?: string;
+  v3FeeTiers?: number[];
+}
+
+export interface UniswapPriceProviderOptions extends JsonRpcConfiguration {
+  rpcUrls: Record<number, string>; // JSON-RPC endpoint per EVM chain id
+  deployments?: Record<number, UniswapDeployment>; // Merged over UNISWAP_DEPLOYMENTS
+  tokens?: Record<string, AssetIdentifier>; // Tickers the provider may price, by contract
+  minLiquidityUsd?: number; // Pools shallower than this are never used
+}
+
+export const UNISWAP_DEPLOYMENTS: Record<number, UniswapDeployment> = {
+  1: {
+    weth: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+    usdc: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+    v2Factory: '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f',
+    v3Factory: '0x1f98431c8ad98523631ae4a59f267346ea31f984',
+    v3FeeTiers: [100, 500, 3000, 10000]
+  }
+};
+
+const SELECTORS = {
+  decimals: '0x313ce567',
+  balanceOf: '0x70a08231',
+  getPair: '0xe6a43905',
+  getReserves: '0x0902f1ac',
+  getPool: '0x1698ee82',
+  slot0: '0x3850c7bd'
+};
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const Q96 = 2 ** 96;
+
+// One pool's spot price for base, in units of quote
+interface PoolQuote {
+  pool: string;
+  price: number;
+  depth: number; // Twice the quote token the pool holds, in quote units
+}
+
+// A way from a token to USD, with the depth of its shallowest hop in USD
+interface Route {
+  price: number;
+  liquidityUsd: number;
+}
+
+/**
+ * Spot prices straight from Uniswap v2 pairs and v3 pools over plain
+ * JSON-RPC, for tokens no REST API lists. A token is priced against USDC
+ * directly or through WETH, using the deepest pool of each hop across v2
+ * and every v3 fee tier. Depth is taken as twice the quote-side balance,
+ * and a route is only used when every hop holds at least `minLiquidityUsd`,
+ * since a thin pool's price can be moved for next to nothing.
+ *
+ * Tickers must be mapped to contracts through `tokens`; CAIP-19 ids and
+ * chain + contract pairs work on any chain with an RPC URL and deployment.
+ */
+export class UniswapPriceProvider implements DetailedBatchPriceProvider {
+  readonly name = 'uniswap';
+  readonly quoteCurrencies = ['USD'];
+  private clients = new Map<number, JsonRpcClient>();
+  private deployments: Record<number, UniswapDeployment>;
+  private tokens: Record<string, AssetIdentifier>;
+  private minLiquidityUsd: number;
+  private decimals = new Map<string, Promise<number>>();
+
+  constructor(options: UniswapPriceProviderOptions) {
+    for (const [chainId, url] of Object.entries(options.rpcUrls)) {
+      this.clients.set(Number(chainId), new JsonRpcClient(url, this.name, options));
+    }
+    this.deployments = { ...UNISWAP_DEPLOYMENTS, ...options.deployments };
+    this.minLiquidityUsd = options.minLiquidityUsd ?? 50000;
+
+    this.tokens = {};
+    for (const [symbol, token] of Object.entries({
+      ETH: { chainId: 1, address: UNISWAP_DEPLOYMENTS[1].weth },
+      WETH: { chainId: 1, address: UNISWAP_DEPLOYMENTS[1].weth },
+      ...options.tokens
+    })) {
+      this.tokens[symbol.toUpperCase()] = token;
+    }
+  }
+
+  async fetchPrice(symbol: string, currency: string = 'usd', options: CallOptions = {}): Promise<PriceData> {
+    if (currency.toUpperCase() !== 'USD') {
+      throw new UnsupportedCurrencyException(currency.toUpperCase(), this.name);
+    }
+
+    const key = normalizeAssetKey(symbol);
+    const token = parseAssetId(symbol) || this.tokens[symbol.toUpperCase()];
+    if (!token) {
+      throw new AssetNotFoundException(key, this.name, `No contract known for ${symbol}`);
+    }
+
+    const chainId = Number(token.chainId);
+    const client = this.clients.get(chainId);
+    const deployment = this.deployments[chainId];
+    if (!client || !deployment) {
+      throw new AssetNotFoundException(key, this.name, `Uniswap is not configured for chain ${chainId}`);
+    }
+
+    const price = await withDeadline(options, signal =>
+      this.priceInUsd(client, deployment, token.address.toLowerCase(), key, signal)
+    );
+    return { symbol: key, price, timestamp: new Date() };
+  }
+
+  async fetchMultiplePrices(symbols: string[], currency: string = 'usd', options: CallOptions = {}): Promise<PriceData[]> {
+    return (await this.fetchMultiplePricesDetailed(symbols, currency, options)).prices;
+  }
+
+  async fetchMultiplePricesDetailed(
+    symbols: string[],
+    currency: string = 'usd',
+    options: CallOptions = {}
+  ): Promise<BatchPriceResult<PriceData>> {
+    return withDeadline(options, async signal => {
+      const outcomes = await Promise.all(symbols.map(symbol =>
+        this.fetchPrice(symbol, currency, { signal }).catch(error => toPriceFailure(symbol, error))
+      ));
+      throwIfAborted(signal);
+
+      return {
+        prices: outcomes.filter((outcome): outcome is PriceData => !isPriceFailure(outcome)),
+        failures: outcomes.filter(isPriceFailure)
+      };
+    });
+  }
+
+  private async priceInUsd(
+    client: JsonRpcClient,
+    deployment: UniswapDeployment,
+    token: string,
+    key: string,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const usdc = deployment.usdc.toLowerCase();
+    const weth = deployment.weth.toLowerCase();
+
+    if (token === usdc) {
+      throw new AssetNotFoundException(key, this.name, `${key} is the reference for USD and has no pool price`);
+    }
+
+    if (token === weth) {
+      return this.deepest(key, [this.deepestRoute(await this.poolQuotes(client, deployment, weth, usdc, signal), 1)]);
+    }
+
+    // Each pair and each pool lookup gets a child signal, so no one signal collects a listener per call
+    const [wethQuotes, directQuotes, tokenWethQuotes] = await Promise.all([
+      withChildSignal(signal, child => this.poolQuotes(client, deployment, weth, usdc, child)),
+      withChildSignal(signal, child => this.poolQuotes(client, deployment, token, usdc, child)),
+      withChildSignal(signal, child => this.poolQuotes(client, deployment, token, weth, child))
+    ]);
+
+    const wethRoute = this.deepestRoute(wethQuotes, 1);
+    const tokenInWeth = wethRoute && this.deepestRoute(tokenWethQuotes, wethRoute.price);
+    const viaWeth = wethRoute && tokenInWeth && {
+      price: tokenInWeth.price * wethRoute.price,
+      liquidityUsd: Math.min(tokenInWeth.liquidityUsd, wethRoute.liquidityUsd)
+    };
+
+    return this.deepest(key, [this.deepestRoute(directQuotes, 1), viaWeth]);
+  }
+
+  // Price of the deepest route that clears the liquidity threshold
+  private deepest(key: string, routes: Array<Route | null>): number {
+    const found = routes.filter((route): route is Route => route !== null);
+    const usable = found.filter(route => route.liquidityUsd >= this.minLiquidityUsd);
+
+    if (usable.length === 0) {
+      throw new AssetNotFoundException(key, this.name, found.length > 0
+        ? `No Uniswap pool for ${key} holds at least $${this.minLiquidityUsd} of liquidity`
+        : `No Uniswap pool found for ${key}`);
+    }
+    return usable.reduce((best, route) => route.liquidityUsd > best.liquidityUsd ? route : best).price;
+  }
+
+  // quoteInUsd converts pool depth, which is counted in the quote token
+  private deepestRoute(quotes: PoolQuote[], quoteInUsd: number): Route | null {
+    if (quotes.length === 0) {
+      return null;
+    }
+    const deepest = quotes.reduce((best, quote) => quote.depth > best.depth ? quote : best);
+    return { price: deepest.price, liquidityUsd: deepest.depth * quoteInUsd };
+  }
+
+  private async poolQuotes(
+    client: JsonRpcClient,
+    deployment: UniswapDeployment,
+    base: string,
+    quote: string,
+    signal?: AbortSignal
+  ): Promise<PoolQuote[]> {
+    const { v2Factory, v3Factory } = deployment;
+    const lookups: Array<Promise<PoolQuote | null>> = [];
+
+    if (v2Factory) {
+      lookups.push(withChildSignal(signal, child => this.v2Quote(client, v2Factory, base, quote, child)));
+    }
+    if (v3Factory) {
+      for (const fee of deployment.v3FeeTiers || [500, 3000, 10000]) {
+        lookups.push(withChildSignal(signal, child => this.v3Quote(client, v3Factory, base, quote, fee, child)));
+      }
+    }
+
+    const quotes = await Promise.all(lookups);
+    return quotes.filter((quote): quote is PoolQuote => quote !== null);
+  }
+
+  private async v2Quote(
+    client: JsonRpcClient,
+    factory: string,
+    base: string,
+    quote: string,
+    signal?: AbortSignal
+  ): Promise<PoolQuote | null> {
+    const pair = await this.findPool(client, factory, encodeCall(SELECTORS.getPair, base, quote), signal);
+    if (!pair) {
+      return null;
+    }
+
+    const [reserve0, reserve1] = decodeWords(await client.ethCall(pair, SELECTORS.getReserves, 'latest', { signal }));
+    const [baseDecimals, quoteDecimals] = await Promise.all([this.getDecimals(client, base), this.getDecimals(client, quote)]);
+    const baseIsToken0 = BigInt(base) < BigInt(quote);
+    const baseReserve = this.toUnits(baseIsToken0 ? reserve0 : reserve1, baseDecimals);
+    const quoteReserve = this.toUnits(baseIsToken0 ? reserve1 : reserve0, quoteDecimals);
+
+    if (baseReserve === 0 || quoteReserve === 0) {
+      return null;
+    }
+    return { pool: pair, price: quoteReserve / baseReserve, depth: 2 * quoteReserve };
+  }
+
+  private async v3Quote(
+    client: JsonRpcClient,
+    factory: string,
+    base: string,
+    quote: string,
+    fee: number,
+    signal?: AbortSignal
+  ): Promise<PoolQuote | null> {
+    const pool = await this.findPool(client, factory, encodeCall(SELECTORS.getPool, base, quote, fee), signal);
+    if (!pool) {
+      return null;
+    }
+
+    const [[sqrtPriceX96], [balance], baseDecimals, quoteDecimals] = await Promise.all([
+      client.ethCall(pool, SELECTORS.slot0, 'latest', { signal }).then(decodeWords),
+      client.ethCall(quote, encodeCall(SELECTORS.balanceOf, pool), 'latest', { signal }).then(decodeWords),
+      this.getDecimals(client, base),
+      this.getDecimals(client, quote)
+    ]);
+
+    if (!sqrtPriceX96) {
+      return null;
+    }
+
+    // sqrtPriceX96^2 / 2^192 is token1 per token0 in raw units
+    const baseIsToken0 = BigInt(base) < BigInt(quote);
+    const rawToken0InToken1 = (Number(sqrtPriceX96) / Q96) ** 2;
+    const token0InToken1 = rawToken0InToken1 * 10 ** (baseIsToken0 ? baseDecimals - quoteDecimals : quoteDecimals - baseDecimals);
+    const price = baseIsToken0 ? token0InToken1 : 1 / token0InToken1;
+
+    return { pool, price, depth: 2 * this.toUnits(balance ?? 0n, quoteDecimals) };
+  }
+
+  private async findPool(client: JsonRpcClient, factory: string, data: string, signal?: AbortSignal): Promise<string | null> {
+    const [word] = decodeWords(await client.ethCall(factory, data, 'latest', { signal }));
+    const address = word === undefined ? ZERO_ADDRESS : decodeAddress(word);
+    return address === ZERO_ADDRESS ? null : address;
+  }
+
+  // Shared by concurrent calls, so never bound to one caller's signal
+  private getDecimals(client: JsonRpcClient, token: string): Promise<number> {
+    const key = `${client.url}:${token}`;
+    let decimals = this.decimals.get(key);
+
+    if (!decimals) {
+      decimals = client.ethCall(token, SELECTORS.decimals).then(data => {
+        const [value] = decodeWords(data);
+        if (value === undefined) {
+          throw new AssetNotFoundException(token, this.name, `${token} returned no decimals; it is not an ERC-20 token`);
+        }
+        return Number(value);
+      });
+      decimals.catch(() => this.decimals.delete(key));
+      this.decimals.set(key, decimals);
+    }
+    return decimals;
+  }
+
+  private toUnits(raw: bigint, decimals: number): number {
+    return Number(raw) / 10 ** decimals;
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AssetRegistry } from './asset-registry.js';
+import { CoinListEntry, CoinListProvider, PriceData } from '../types.js';
+import { EdgeCache } from '../utils/edge-cache.js';
+
+class StaticCoinList implements CoinListProvider {
+  constructor(readonly name: string, private coins: CoinListEntry[] | Error) {}
+
+  async fetchPrice(): Promise<PriceData> {
+    throw new Error('Not implemented');
+  }
+
+  async fetchMultiplePrices(): Promise<PriceData[]> {
+    return [];
+  }
+
+  async fetchCoinList(): Promise<CoinListEntry[]> {
+    if (this.coins instanceof Error) {
+      throw this.coins;
+    }
+    return this.coins;
+  }
+}
+
+describe('AssetRegistry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should resolve bundled assets by symbol and alias', () => {
+    const registry = new AssetRegistry();
+
+    expect(registry.getProviderId('btc', 'coingecko')).toBe('bitcoin');
+    expect(registry.getProviderId('XBT', 'coinpaprika')).toBe('btc-bitcoin');
+    expect(registry.resolve('PEPE')).toBeNull();
+  });
+
+  it('should let overrides win over the snapshot', () => {
+    const registry = new AssetRegistry({
+      overrides: [{ symbol: 'MATIC', providerIds: { coingecko: 'polygon-ecosystem-token' } }]
+    });
+    registry.register({ symbol: 'PEPE', providerIds: { coingecko: 'pepe' } });
+
+    expect(registry.getProviderId('MATIC', 'coingecko')).toBe('polygon-ecosystem-token');
+    expect(registry.getProviderId('MATIC', 'coinpaprika')).toBe('matic-polygon');
+    expect(registry.getProviderId('PEPE', 'coingecko')).toBe('pepe');
+  });
+
+  it('should fill missing ids from coin lists without replacing curated ones', async () => {
+    const registry = new AssetRegistry();
+
+    await registry.refresh([
+      new StaticCoinList('coinpaprika', [
+        { id: 'comp-compoundd', symbol: 'COMP', name: 'Compound' },
+        { id: 'comp-compound-coin', symbol: 'COMP', name: 'Compound Coin' },
+        { id: 'btc-bitcoin-fork', symbol: 'BTC', name: 'Bitcoin Fork' },
+        { id: 'pepe-pepe', symbol: 'PEPE', name: 'Pepe' },
+        { id: 'moon-moon', symbol: 'MOON', name: 'Moon' },
+        { id: 'moon-moon-token', symbol: 'MOON', name: 'Moon Token' }
+      ])
+    ]);
+
+    expect(registry.getProviderId('COMP', 'coinpaprika')).toBe('comp-compoundd');
+    expect(registry.getProviderId('BTC', 'coinpaprika')).toBe('btc-bitcoin');
+    expect(registry.getProviderId('PEPE', 'coinpaprika')).toBe('pepe-pepe');
+    // Two unrelated coins share the ticker, so neither is picked
+    expect(registry.resolve('MOON')).toBeNull();
+    expect(registry.isAmbiguous('moon', 'coinpaprika')).toBe(true);
+    expect(registry.isAmbiguous('NOPE', 'coinpaprika')).toBe(false);
+  });
+
+  it('should persist refreshed assets and restore them from the cache', async () => {
+    const cache = new EdgeCache();
+    await new AssetRegistry({ cache }).refresh([
+      new StaticCoinList('coingecko', [{ id: 'pepe', symbol: 'pepe', name: 'Pepe' }])
+    ]);
+
+    const restored = new AssetRegistry({ cache });
+
+    expect(await restored.load()).toBe(true);
+    expect(restored.getProviderId('PEPE', 'coingecko')).toBe('pepe');
+    expect(await new AssetRegistry().load()).toBe(false);
+  });
+
+  it('should keep previous ids when a coin list fails to load', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const registry = new AssetRegistry();
+    await registry.refresh([new StaticCoinList('coingecko', [{ id: 'pepe', symbol: 'pepe', name: 'Pepe' }])]);
+
+    await registry.refresh([new StaticCoinList('coingecko', new Error('rate limited'))]);
+
+    expect(registry.getProviderId('PEPE', 'coingecko')).toBe('pepe');
+  });
+});
@@ -0,0 +1,176 @@
+import { CoinListEntry, CoinListProvider, RegisteredAsset } from '../types.js';
+import { EdgeCache } from '../utils/edge-cache.js';
+import { getProviderName } from '../utils/provider-capabilities.js';
+import { DEFAULT_ASSETS } from './default-assets.js';
+
+export interface AssetRegistryOptions {
+  assets?: RegisteredAsset[]; // Starting snapshot; defaults to the bundled DEFAULT_ASSETS
+  overrides?: RegisteredAsset[]; // Win over both the snapshot and refreshed data
+  cache?: EdgeCache; // Where refreshed coin lists are persisted
+  refreshTTL?: number; // How long a refreshed coin list stays valid in the cache
+}
+
+const CACHE_KEY = 'asset-registry';
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+function mergeAsset(existing: RegisteredAsset | undefined, asset: RegisteredAsset): RegisteredAsset {
+  const aliases = new Set([...(existing?.aliases || []), ...(asset.aliases || [])].map(a => a.toUpperCase()));
+
+  return {
+    symbol: asset.symbol.toUpperCase(),
+    name: asset.name ?? existing?.name,
+    aliases: [...aliases],
+    providerIds: { ...existing?.providerIds, ...asset.providerIds }
+  };
+}
+
+/**
+ * Canonical assets with their aliases and per-provider ids.
+ *
+ * Three layers are merged, later ones winning per field: assets discovered
+ * from provider coin lists, the bundled snapshot, and user overrides. A
+ * refresh therefore only fills in ids the snapshot doesn't have and never
+ * replaces a curated one.
+ */
+export class AssetRegistry {
+  private snapshot: RegisteredAsset[];
+  private overrides: RegisteredAsset[];
+  private discovered: RegisteredAsset[] = [];
+  private assets = new Map<string, RegisteredAsset>();
+  private aliases = new Map<string, string>(); // Alias -> canonical symbol
+  private ambiguous = new Map<string, Set<string>>(); // Provider -> tickers its coin list left unresolved
+  private cache: EdgeCache;
+  private refreshTTL: number;
+
+  constructor(options: AssetRegistryOptions = {}) {
+    this.snapshot = options.assets || DEFAULT_ASSETS;
+    this.overrides = options.overrides || [];
+    this.refreshTTL = options.refreshTTL || WEEK_MS;
+    this.cache = options.cache || new EdgeCache({ defaultTTL: this.refreshTTL });
+    this.rebuild();
+  }
+
+  resolve(symbol: string): RegisteredAsset | null {
+    const key = symbol.toUpperCase();
+    return this.assets.get(key) || this.assets.get(this.aliases.get(key) || '') || null;
+  }
+
+  getProviderId(symbol: string, provider: string): string | null {
+    return this.resolve(symbol)?.providerIds[provider] || null;
+  }
+
+  // Whether the provider's last coin list held several coins for `symbol` and none could be picked
+  isAmbiguous(symbol: string, provider: string): boolean {
+    return this.ambiguous.get(provider)?.has(symbol.toUpperCase()) || false;
+  }
+
+  list(): RegisteredAsset[] {
+    return [...this.assets.values()];
+  }
+
+  /**
+   * Adds or amends an asset. Registered assets are treated as overrides and
+   * survive later refreshes.
+   */
+  register(asset: RegisteredAsset): void {
+    this.overrides.push(asset);
+    this.rebuild();
+  }
+
+  /**
+   * Restores the assets discovered by the last refresh from the cache.
+   * Returns false when nothing (or only an expired copy) was cached.
+   */
+  async load(): Promise<boolean> {
+    const cached = await this.cache.get<RegisteredAsset[]>(CACHE_KEY);
+    if (!cached) {
+      return false;
+    }
+
+    this.discovered = cached;
+    this.rebuild();
+    return true;
+  }
+
+  /**
+   * Pulls coin lists from the given providers and records their ids. A
+   * ticker that is already registered takes the entry whose name matches,
+   * or the only entry with that ticker. Unregistered tickers are added only
+   * when the provider lists exactly one coin for them; the others are
+   * remembered as ambiguous. Providers whose list fails to load keep the ids
+   * from the previous refresh.
+   */
+  async refresh(providers: CoinListProvider[]): Promise<void> {
+    const discovered = new Map(this.discovered.map(a => [a.symbol, a]));
+
+    for (const provider of providers) {
+      const providerName = getProviderName(provider);
+      let coins: CoinListEntry[];
+
+      try {
+        coins = await provider.fetchCoinList();
+      } catch (error) {
+        console.warn(`Failed to refresh coin list from ${providerName}:`, error);
+        continue;
+      }
+
+      const ambiguous = new Set<string>();
+      for (const [symbol, entries] of this.groupBySymbol(coins)) {
+        const known = this.resolve(symbol);
+        const match = known
+          ? entries.find(e => known.name && e.name.toLowerCase() === known.name.toLowerCase()) ||
+            (entries.length === 1 ? entries[0] : undefined)
+          : (entries.length === 1 ? entries[0] : undefined);
+
+        if (!match) {
+          if (entries.length > 1) {
+            ambiguous.add(symbol);
+          }
+          continue;
+        }
+
+        const canonical = known?.symbol || symbol;
+        discovered.set(canonical, mergeAsset(discovered.get(canonical), {
+          symbol: canonical,
+          name: match.name,
+          providerIds: { [providerName]: match.id }
+        }));
+      }
+      this.ambiguous.set(providerName, ambiguous);
+    }
+
+    this.discovered = [...discovered.values()];
+    this.rebuild();
+    await this.cache.set(CACHE_KEY, this.discovered, this.refreshTTL);
+  }
+
+  private groupBySymbol(coins: CoinListEntry[]): Map<string, CoinListEntry[]> {
+    const grouped = new Map<string, CoinListEntry[]>();
+
+    for (const coin of coins) {
+      const symbol = coin.symbol.toUpperCase();
+      grouped.set(symbol, [...(grouped.get(symbol) || []), coin]);
+    }
+
+    return grouped;
+  }
+
+  private rebuild(): void {
+    this.assets.clear();
+    this.aliases.clear();
+
+    for (const asset of [...this.discovered, ...this.snapshot, ...this.overrides]) {
+      const symbol = asset.symbol.toUpperCase();
+      this.assets.set(symbol, mergeAsset(this.assets.get(symbol), asset));
+    }
+
+    for (const asset of this.assets.values()) {
+      for (const alias of asset.aliases || []) {
+        // A canonical symbol always beats another asset's alias
+        if (!this.assets.has(alias)) {
+          this.aliases.set(alias, asset.symbol);
+        }
+      }
+    }
+  }
+}
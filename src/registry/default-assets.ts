@@ -0,0 +1,39 @@
+import { PegDefinition, RegisteredAsset } from '../types.js';
+
+// Bundled snapshot the registry starts from before any refresh
+export const DEFAULT_ASSETS: RegisteredAsset[] = [
+  { symbol: 'BTC', name: 'Bitcoin', aliases: ['XBT'], providerIds: { coingecko: 'bitcoin', coinpaprika: 'btc-bitcoin' } },
+  { symbol: 'ETH', name: 'Ethereum', providerIds: { coingecko: 'ethereum', coinpaprika: 'eth-ethereum' } },
+  { symbol: 'USDT', name: 'Tether', providerIds: { coingecko: 'tether', coinpaprika: 'usdt-tether' } },
+  { symbol: 'USDC', name: 'USD Coin', providerIds: { coingecko: 'usd-coin', coinpaprika: 'usdc-usd-coin' } },
+  { symbol: 'BNB', name: 'BNB', providerIds: { coingecko: 'binancecoin', coinpaprika: 'bnb-binance-coin' } },
+  { symbol: 'SOL', name: 'Solana', providerIds: { coingecko: 'solana', coinpaprika: 'sol-solana' } },
+  { symbol: 'XRP', name: 'XRP', providerIds: { coingecko: 'ripple', coinpaprika: 'xrp-xrp' } },
+  { symbol: 'ADA', name: 'Cardano', providerIds: { coingecko: 'cardano', coinpaprika: 'ada-cardano' } },
+  { symbol: 'DOGE', name: 'Dogecoin', providerIds: { coingecko: 'dogecoin', coinpaprika: 'doge-dogecoin' } },
+  { symbol: 'AVAX', name: 'Avalanche', providerIds: { coingecko: 'avalanche-2', coinpaprika: 'avax-avalanche' } },
+  { symbol: 'DOT', name: 'Polkadot', providerIds: { coingecko: 'polkadot', coinpaprika: 'dot-polkadot' } },
+  { symbol: 'MATIC', name: 'Polygon', providerIds: { coingecko: 'matic-network', coinpaprika: 'matic-polygon' } },
+  { symbol: 'LINK', name: 'Chainlink', providerIds: { coingecko: 'chainlink', coinpaprika: 'link-chainlink' } },
+  { symbol: 'UNI', name: 'Uniswap', providerIds: { coingecko: 'uniswap', coinpaprika: 'uni-uniswap' } },
+  { symbol: 'ATOM', name: 'Cosmos', providerIds: { coingecko: 'cosmos', coinpaprika: 'atom-cosmos' } },
+  { symbol: 'LTC', name: 'Litecoin', providerIds: { coingecko: 'litecoin', coinpaprika: 'ltc-litecoin' } },
+  { symbol: 'DAI', name: 'Dai', providerIds: { coingecko: 'dai', coinpaprika: 'dai-dai' } },
+  { symbol: 'WBTC', name: 'Wrapped Bitcoin', providerIds: { coingecko: 'wrapped-bitcoin', coinpaprika: 'wbtc-wrapped-bitcoin' } },
+  { symbol: 'AAVE', name: 'Aave', providerIds: { coingecko: 'aave', coinpaprika: 'aave-new' } },
+  { symbol: 'COMP', name: 'Compound', providerIds: { coingecko: 'compound-governance-token' } },
+  { symbol: 'CRV', name: 'Curve DAO Token', providerIds: { coingecko: 'curve-dao-token' } },
+  { symbol: 'MKR', name: 'Maker', providerIds: { coingecko: 'maker', coinpaprika: 'mkr-maker' } },
+  { symbol: 'SNX', name: 'Synthetix', providerIds: { coingecko: 'synthetix-network-token' } },
+  { symbol: 'SUSHI', name: 'SushiSwap', providerIds: { coingecko: 'sushi' } },
+  { symbol: 'YFI', name: 'yearn.finance', providerIds: { coingecko: 'yearn-finance' } },
+  { symbol: 'PYUSD', name: 'PayPal USD', providerIds: { coingecko: 'paypal-usd' } },
+];
+
+// Stablecoins the PegMonitor may stand in for while they trade on peg
+export const DEFAULT_PEGS: PegDefinition[] = [
+  { asset: 'USDT', target: 1, currency: 'USD', tolerance: 0.005 },
+  { asset: 'USDC', target: 1, currency: 'USD', tolerance: 0.005 },
+  { asset: 'DAI', target: 1, currency: 'USD', tolerance: 0.005 },
+  { asset: 'PYUSD', target: 1, currency: 'USD', tolerance: 0.005 },
+];
@@ -0,0 +1,41 @@
+import { PegDefinition } from '../types.js';
+import { normalizeAssetKey } from '../utils/asset-id.js';
+import { DEFAULT_PEGS } from './default-assets.js';
+
+export interface PegRegistryOptions {
+  pegs?: PegDefinition[]; // Defaults to the bundled DEFAULT_PEGS
+}
+
+// Signed relative distance from the peg: -0.02 is 2% below target
+export function pegDeviation(peg: PegDefinition, price: number): number {
+  return (price - peg.target) / peg.target;
+}
+
+export function isOnPeg(peg: PegDefinition, price: number): boolean {
+  return Math.abs(pegDeviation(peg, price)) <= peg.tolerance;
+}
+
+/**
+ * Pegged assets with their target and tolerance. Registering an asset that
+ * is already known replaces its definition.
+ */
+export class PegRegistry {
+  private pegs = new Map<string, PegDefinition>();
+
+  constructor(options: PegRegistryOptions = {}) {
+    (options.pegs || DEFAULT_PEGS).forEach(peg => this.register(peg));
+  }
+
+  get(asset: string): PegDefinition | null {
+    return this.pegs.get(normalizeAssetKey(asset)) || null;
+  }
+
+  register(peg: PegDefinition): void {
+    const asset = normalizeAssetKey(peg.asset);
+    this.pegs.set(asset, { ...peg, asset, currency: peg.currency.toUpperCase() });
+  }
+
+  list(): PegDefinition[] {
+    return [...this.pegs.values()];
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ConfidenceWeightedStrategy,
+  FilteredMeanStrategy,
+  FreshnessWeightedStrategy,
+  MedianStrategy,
+  TrimmedMeanStrategy,
+  WeightedByProviderStrategy
+} from './pricing-strategies.js';
+import { QuorumNotReachedException } from '../errors.js';
+import { PriceSource } from '../types.js';
+
+const now = new Date('2024-06-01T12:00:00Z');
+const context = { symbol: 'BTC', providerCount: 4, now };
+
+function source(provider: string, price: number, ageMs = 0): PriceSource {
+  return { provider, price, timestamp: new Date(now.getTime() - ageMs), outlier: false };
+}
+
+describe('pricing strategies', () => {
+  describe('FilteredMeanStrategy', () => {
+    it('should average the sources within the deviation band', () => {
+      const result = new FilteredMeanStrategy().resolve(
+        [source('a', 100), source('b', 104), source('c', 150)],
+        context
+      );
+
+      expect(result.price).toBe(102);
+      expect(result.used.map(s => s.provider)).toEqual(['a', 'b']);
+    });
+
+    it('should keep only sources at the median for a zero deviation', () => {
+      const result = new FilteredMeanStrategy({ maxDeviation: 0, quorum: 0 }).resolve(
+        [source('a', 100), source('b', 104), source('c', 150)],
+        context
+      );
+
+      expect(result.used.map(s => s.provider)).toEqual(['b']);
+    });
+
+    it('should throw a quorum error instead of falling back to the median', () => {
+      const strategy = new FilteredMeanStrategy({ quorum: 1 });
+
+      expect(() => strategy.resolve([source('a', 100), source('b', 200)], context))
+        .toThrow(QuorumNotReachedException);
+    });
+  });
+
+  describe('MedianStrategy', () => {
+    it('should take the middle source for an odd count', () => {
+      const result = new MedianStrategy().resolve([source('a', 300), source('b', 100), source('c', 200)], context);
+
+      expect(result.price).toBe(200);
+      expect(result.used.map(s => s.provider)).toEqual(['c']);
+    });
+
+    it('should average the two middle sources for an even count', () => {
+      const result = new MedianStrategy().resolve(
+        [source('a', 100), source('b', 200), source('c', 300), source('d', 1000)],
+        context
+      );
+
+      expect(result.price).toBe(250);
+    });
+  });
+
+  describe('TrimmedMeanStrategy', () => {
+    it('should drop the extremes before averaging', () => {
+      const result = new TrimmedMeanStrategy({ trimRatio: 0.25 }).resolve(
+        [source('a', 10), source('b', 100), source('c', 102), source('d', 500)],
+        context
+      );
+
+      expect(result.price).toBe(101);
+    });
+
+    it('should fail when fewer sources than the minimum quorum answered', () => {
+      const strategy = new TrimmedMeanStrategy({ minQuorum: 3 });
+
+      try {
+        strategy.resolve([source('a', 100), source('b', 101)], context);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(QuorumNotReachedException);
+        expect(error).toMatchObject({ symbol: 'BTC', required: 3, available: 2 });
+      }
+    });
+
+    it('should accept any answering source for a zero quorum', () => {
+      const result = new TrimmedMeanStrategy({ minQuorum: 0, trimRatio: 0 }).resolve([source('a', 100)], context);
+
+      expect(result.price).toBe(100);
+      expect(() => new TrimmedMeanStrategy({ minQuorum: 0 }).resolve([], context)).toThrow(QuorumNotReachedException);
+    });
+  });
+
+  describe('WeightedByProviderStrategy', () => {
+    it('should weight sources by provider and ignore zero-weight providers', () => {
+      const result = new WeightedByProviderStrategy({ weights: { a: 3, b: 1, c: 0 } }).resolve(
+        [source('a', 100), source('b', 200), source('c', 10000)],
+        context
+      );
+
+      expect(result.price).toBe(125);
+      expect(result.priceDecimal).toBe('125');
+      expect(result.used.map(s => s.provider)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('FreshnessWeightedStrategy', () => {
+    it('should halve the weight of a source per half-life of age', () => {
+      const result = new FreshnessWeightedStrategy({ halfLifeMs: 1000 }).resolve(
+        [source('fresh', 100), source('stale', 400, 2000)],
+        context
+      );
+
+      // Weights 1 and 0.25
+      expect(result.price).toBe(160);
+      expect(result.priceDecimal).toBe('160');
+    });
+
+    it('should still weigh sources that are all hours old', () => {
+      const hour = 60 * 60 * 1000;
+      const result = new FreshnessWeightedStrategy().resolve(
+        [source('a', 100, 20 * hour), source('b', 400, 20 * hour + 120000)],
+        context
+      );
+
+      // Default half-life of 60s: weights 1 and 0.25 relative to the freshest
+      expect(result.price).toBe(160);
+    });
+
+    it('should reject a half-life that is not positive', () => {
+      expect(() => new FreshnessWeightedStrategy({ halfLifeMs: 0 })).toThrow('halfLifeMs must be positive');
+    });
+  });
+
+  describe('ConfidenceWeightedStrategy', () => {
+    it('should weight by inverse variance and drop sources with wide intervals', () => {
+      const result = new ConfidenceWeightedStrategy({ maxRelativeConfidence: 0.01 }).resolve(
+        [
+          { ...source('tight', 100), confidenceInterval: 0.1 },
+          { ...source('loose', 200), confidenceInterval: 0.4 },
+          { ...source('wide', 150), confidenceInterval: 5 }
+        ],
+        context
+      );
+
+      // Relative intervals 0.001 and 0.002 give weights 4:1
+      expect(result.price).toBeCloseTo(120, 6);
+      expect(result.used.map(s => s.provider)).toEqual(['tight', 'loose']);
+    });
+
+    it('should fail when every source is too uncertain', () => {
+      const strategy = new ConfidenceWeightedStrategy({ defaultRelativeConfidence: 0.02 });
+
+      expect(() => strategy.resolve([source('a', 100), { ...source('b', 100), confidenceInterval: 3 }], context))
+        .toThrow(QuorumNotReachedException);
+    });
+
+    it('should honour an explicit zero tolerance', () => {
+      const strategy = new ConfidenceWeightedStrategy({ maxRelativeConfidence: 0 });
+
+      const result = strategy.resolve([{ ...source('exact', 100), confidenceInterval: 0 }, source('unknown', 200)], context);
+
+      expect(result.used.map(s => s.provider)).toEqual(['exact']);
+      expect(result.priceDecimal).toBe('100');
+    });
+  });
+});
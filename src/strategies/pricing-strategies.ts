@@ -0,0 +1,215 @@
+import { PriceSource, PricingContext, PricingResult, PricingStrategy } from '../types.js';
+import { QuorumNotReachedException } from '../errors.js';
+import { Decimal } from '../utils/decimal.js';
+
+function bySourcePrice(a: PriceSource, b: PriceSource): number {
+  return a.price - b.price;
+}
+
+// Averages in decimal arithmetic so the mean does not pick up float error
+function exactMean(used: PriceSource[]): PricingResult {
+  const mean = Decimal.mean(used.map(s => s.priceDecimal ?? s.price));
+  return { price: mean.toNumber(), priceDecimal: mean.toString(), used };
+}
+
+// Weights that sum to zero or overflow carry no information, so every source counts equally
+function exactWeightedMean(used: PriceSource[], weights: number[]): PricingResult {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (!Number.isFinite(totalWeight) || totalWeight <= 0) {
+    return exactMean(used);
+  }
+
+  const mean = Decimal.weightedMean(used.map(s => s.priceDecimal ?? s.price), weights);
+  return { price: mean.toNumber(), priceDecimal: mean.toString(), used };
+}
+
+function requireSources(sources: PriceSource[], context: PricingContext, minimum: number): void {
+  if (sources.length < minimum) {
+    throw new QuorumNotReachedException(context.symbol, minimum, sources.length);
+  }
+}
+
+export interface FilteredMeanStrategyOptions {
+  maxDeviation?: number; // Relative distance from the median before a source is an outlier
+  quorum?: number; // Share of answering sources that must survive the filter
+}
+
+/**
+ * The aggregator's default rule: drop sources more than `maxDeviation` from
+ * the median and average the rest. Fails when fewer than `quorum` of the
+ * answering sources agree.
+ */
+export class FilteredMeanStrategy implements PricingStrategy {
+  readonly name = 'filtered-mean';
+  private maxDeviation: number;
+  private quorum: number;
+
+  constructor(options: FilteredMeanStrategyOptions = {}) {
+    this.maxDeviation = options.maxDeviation ?? 0.1;
+    this.quorum = options.quorum ?? 0.5;
+  }
+
+  resolve(sources: PriceSource[], context: PricingContext): PricingResult {
+    requireSources(sources, context, 1);
+
+    const sorted = [...sources].sort(bySourcePrice);
+    const median = sorted[Math.floor(sorted.length / 2)].price;
+    const used = sorted.filter(s => Math.abs(s.price - median) / median <= this.maxDeviation);
+
+    const required = Math.ceil(sources.length * this.quorum);
+    if (used.length < required) {
+      throw new QuorumNotReachedException(context.symbol, required, used.length);
+    }
+
+    return exactMean(used);
+  }
+}
+
+/**
+ * Strict median: the middle source, or the mean of the two middle sources
+ * for an even count.
+ */
+export class MedianStrategy implements PricingStrategy {
+  readonly name = 'median';
+
+  resolve(sources: PriceSource[], context: PricingContext): PricingResult {
+    requireSources(sources, context, 1);
+
+    const sorted = [...sources].sort(bySourcePrice);
+    const middle = Math.floor(sorted.length / 2);
+    const used = sorted.length % 2 === 0 ? sorted.slice(middle - 1, middle + 1) : [sorted[middle]];
+
+    return exactMean(used);
+  }
+}
+
+export interface TrimmedMeanStrategyOptions {
+  trimRatio?: number; // Share of sources removed from each end
+  minQuorum?: number; // Minimum number of answering sources
+}
+
+/**
+ * Mean after dropping the `trimRatio` share of sources from each end of the
+ * sorted prices. Fails when fewer than `minQuorum` sources answer.
+ */
+export class TrimmedMeanStrategy implements PricingStrategy {
+  readonly name = 'trimmed-mean';
+  private trimRatio: number;
+  private minQuorum: number;
+
+  constructor(options: TrimmedMeanStrategyOptions = {}) {
+    this.trimRatio = options.trimRatio ?? 0.2;
+    this.minQuorum = options.minQuorum ?? 3;
+  }
+
+  resolve(sources: PriceSource[], context: PricingContext): PricingResult {
+    requireSources(sources, context, Math.max(1, this.minQuorum));
+
+    const sorted = [...sources].sort(bySourcePrice);
+    const trim = Math.floor(sorted.length * this.trimRatio);
+    const used = sorted.slice(trim, sorted.length - trim);
+
+    return exactMean(used);
+  }
+}
+
+export interface WeightedByProviderStrategyOptions {
+  weights: Record<string, number>; // Keyed by provider name
+  defaultWeight?: number;
+}
+
+/**
+ * Weighted mean using a fixed weight per provider. Sources whose provider
+ * has a weight of zero are ignored.
+ */
+export class WeightedByProviderStrategy implements PricingStrategy {
+  readonly name = 'weighted-by-provider';
+  private weights: Record<string, number>;
+  private defaultWeight: number;
+
+  constructor(options: WeightedByProviderStrategyOptions) {
+    this.weights = options.weights;
+    this.defaultWeight = options.defaultWeight ?? 1;
+  }
+
+  resolve(sources: PriceSource[], context: PricingContext): PricingResult {
+    const used = sources.filter(s => this.weightOf(s) > 0);
+    requireSources(used, context, 1);
+
+    return exactWeightedMean(used, used.map(s => this.weightOf(s)));
+  }
+
+  private weightOf(source: PriceSource): number {
+    return this.weights[source.provider] ?? this.defaultWeight;
+  }
+}
+
+export interface FreshnessWeightedStrategyOptions {
+  halfLifeMs?: number; // Age at which a source counts half as much as a brand-new one
+}
+
+/**
+ * Weighted mean in which a source counts half as much per `halfLifeMs` it
+ * is older than the freshest source. Ages are measured from the freshest
+ * source rather than from now, so sources that are all hours old (or
+ * historical) still weigh against each other instead of underflowing to 0.
+ */
+export class FreshnessWeightedStrategy implements PricingStrategy {
+  readonly name = 'freshness-weighted';
+  private halfLifeMs: number;
+
+  constructor(options: FreshnessWeightedStrategyOptions = {}) {
+    this.halfLifeMs = options.halfLifeMs ?? 60000;
+    if (!(this.halfLifeMs > 0)) {
+      throw new Error(`halfLifeMs must be positive, got ${this.halfLifeMs}`);
+    }
+  }
+
+  resolve(sources: PriceSource[], context: PricingContext): PricingResult {
+    requireSources(sources, context, 1);
+
+    const ages = sources.map(s => Math.max(0, context.now.getTime() - new Date(s.timestamp).getTime()));
+    const freshest = Math.min(...ages);
+    // The freshest source weighs 1, so the weights never sum to zero
+    const weights = ages.map(ageMs => Math.pow(0.5, (ageMs - freshest) / this.halfLifeMs));
+
+    return exactWeightedMean(sources, weights);
+  }
+}
+
+export interface ConfidenceWeightedStrategyOptions {
+  maxRelativeConfidence?: number; // Sources whose interval is wider than this share of their price are dropped
+  defaultRelativeConfidence?: number; // Assumed for sources that report no interval
+}
+
+/**
+ * Inverse-variance mean over each source's confidence interval, so a tight
+ * oracle quote outweighs a loose one. Sources without an interval count as
+ * if they reported `defaultRelativeConfidence`.
+ */
+export class ConfidenceWeightedStrategy implements PricingStrategy {
+  readonly name = 'confidence-weighted';
+  private maxRelativeConfidence: number;
+  private defaultRelativeConfidence: number;
+
+  constructor(options: ConfidenceWeightedStrategyOptions = {}) {
+    this.maxRelativeConfidence = options.maxRelativeConfidence ?? 0.01;
+    this.defaultRelativeConfidence = options.defaultRelativeConfidence ?? 0.005;
+  }
+
+  resolve(sources: PriceSource[], context: PricingContext): PricingResult {
+    const used = sources.filter(s => this.relativeConfidence(s) <= this.maxRelativeConfidence);
+    requireSources(used, context, 1);
+
+    // A zero-width interval would take all the weight, so floor it
+    const weights = used.map(s => 1 / Math.max(this.relativeConfidence(s), 1e-6) ** 2);
+
+    return exactWeightedMean(used, weights);
+  }
+
+  private relativeConfidence(source: PriceSource): number {
+    return source.confidenceInterval === undefined
+      ? this.defaultRelativeConfidence
+      : source.confidenceInterval / source.price;
+  }
+}
@@ -1,25 +1,343 @@
+import { RoundingMode } from './utils/decimal.js';
+
 export interface PriceData {
   symbol: string;
   price: number;
+  priceDecimal?: string; // Exact decimal representation when the producer computed one
   timestamp: Date;
+  provenance?: PriceProvenance;
+  assumed?: boolean; // A peg value standing in for a price that couldn't be observed
+  confidenceInterval?: number; // Half-width of the publisher's band around price, in quote units
 }
 
 export interface AssetPrice {
   base: string;
   quote: string;
   price: number;
+  priceDecimal?: string; // Only populated in decimal precision mode
   timestamp: Date;
+  provenance?: PriceProvenance;
+  isStale?: boolean; // Spot prices only: served from cache past the cache timeout
+  ageMs?: number; // Spot prices only: time since the price was fetched
+  assumed?: boolean; // The asset's peg value rather than an observed price
+  confidenceInterval?: number; // Native quotes only: ± band the provider published with the price
+}
+
+/**
+ * Identifies a token by chain and contract instead of by ticker. chainId is
+ * the EVM chain id (1 = Ethereum mainnet). The equivalent CAIP-19 string,
+ * e.g. "eip155:1/erc20:0xa0b8...", is accepted wherever a symbol is.
+ */
+export interface AssetIdentifier {
+  chainId: number | string;
+  address: string;
+}
+
+export type AssetReference = string | AssetIdentifier;
+
+export interface PriceSource {
+  provider: string;
+  price: number;
+  priceDecimal?: string;
+  timestamp: Date;
+  outlier: boolean; // Excluded from the consensus price
+  assumed?: boolean; // The provider fell back to the asset's peg value
+  confidenceInterval?: number; // ± band the provider published with the price
+  quotedIn?: string; // Dollar stablecoin the provider was priced in, standing in for USD
+}
+
+/**
+ * How an aggregated price was derived. `spread` is (max - min) / median over
+ * every source that answered. `confidence` is in [0, 1]: the share of
+ * configured providers that contributed, scaled down as the contributing
+ * sources disagree (see DecentralizedAggregator).
+ */
+export interface PriceProvenance {
+  sources: PriceSource[];
+  spread: number;
+  outliersDropped: number;
+  confidence: number;
+}
+
+export interface PricingContext {
+  symbol: string;
+  providerCount: number; // Providers that were configured, not just the ones that answered
+  now: Date;
+}
+
+export interface PricingResult {
+  price: number;
+  priceDecimal?: string;
+  used: PriceSource[]; // Sources that contributed; the rest are reported as outliers
+}
+
+/**
+ * Turns the quotes collected from several providers into a single price.
+ * Implementations throw QuorumNotReachedException when the sources cannot
+ * support a price under their rules.
+ */
+export interface PricingStrategy {
+  readonly name: string;
+  resolve(sources: PriceSource[], context: PricingContext): PricingResult;
+}
+
+/**
+ * Cancellation for one call. When the signal aborts or the deadline passes,
+ * the call rejects with OperationAbortedException and its pending requests,
+ * retries and backoff waits stop.
+ */
+export interface CallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // Deadline for the whole call, retries and waits included
 }
 
 export interface PriceProvider {
-  fetchPrice(symbol: string, currency?: string): Promise<PriceData>;
-  fetchMultiplePrices(symbols: string[], currency?: string): Promise<PriceData[]>;
+  readonly name?: string;
+  readonly quoteCurrencies?: string[]; // Quotes priced natively; omitted means any
+  fetchPrice(symbol: string, currency?: string, options?: CallOptions): Promise<PriceData>;
+  fetchMultiplePrices(symbols: string[], currency?: string, options?: CallOptions): Promise<PriceData[]>;
+}
+
+/**
+ * Optional capability for providers that can answer point-in-time queries.
+ * The returned PriceData.timestamp is the moment the price applies to,
+ * not the moment it was fetched.
+ */
+export interface HistoricalPriceProvider extends PriceProvider {
+  fetchHistoricalPrice(symbol: string, at: Date, currency?: string, options?: CallOptions): Promise<PriceData>;
+  fetchHistoricalPrices(symbols: string[], at: Date, currency?: string, options?: CallOptions): Promise<PriceData[]>;
+}
+
+export type PriceInterval = '1h' | '1d' | '1w';
+
+export interface PriceSeriesOptions {
+  from: Date;
+  to: Date;
+  interval: PriceInterval;
+}
+
+export interface PricePoint {
+  timestamp: Date;
+  price: number;
+}
+
+export interface PriceCandle {
+  timestamp: Date; // Start of the bucket
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  filled: boolean; // True when the bucket had no samples and was interpolated
+}
+
+export interface PriceSeries {
+  base: string;
+  quote: string;
+  interval: PriceInterval;
+  points: PricePoint[];
+  candles: PriceCandle[];
+}
+
+/**
+ * Optional capability for providers that can return raw price samples over a
+ * time range. Samples do not need to be evenly spaced; bucketing happens in
+ * AssetValuator. The interval is a hint for choosing sample granularity.
+ */
+export interface PriceSeriesProvider extends PriceProvider {
+  fetchPriceSeries(symbol: string, options: PriceSeriesOptions, currency?: string, call?: CallOptions): Promise<PricePoint[]>;
+}
+
+/**
+ * A canonical asset in the AssetRegistry. providerIds maps a provider name
+ * (e.g. 'coingecko') to that provider's id for the asset.
+ */
+export interface RegisteredAsset {
+  symbol: string;
+  name?: string;
+  aliases?: string[];
+  providerIds: Record<string, string>;
+}
+
+/**
+ * A pegged asset. `tolerance` is the relative deviation from `target` still
+ * considered on peg, e.g. 0.005 for half a percent.
+ */
+export interface PegDefinition {
+  asset: string;
+  target: number;
+  currency: string;
+  tolerance: number;
+}
+
+export interface CoinListEntry {
+  id: string;
+  symbol: string;
+  name: string;
+}
+
+// A provider that can list every coin it knows, used to refresh the AssetRegistry
+export interface CoinListProvider extends PriceProvider {
+  fetchCoinList(): Promise<CoinListEntry[]>;
+}
+
+// Why a symbol in a batch request has no price
+export type PriceFailureReason =
+  | 'unknown-asset' // No provider knows the asset, or it is ambiguous
+  | 'provider-error' // Providers failed or disagreed
+  | 'rate-limited' // Every provider that was asked refused the request
+  | 'stale-only'; // Only a cached price older than the staleness limit exists
+
+export interface PriceFailure {
+  symbol: string;
+  reason: PriceFailureReason;
+  message: string;
+}
+
+export interface BatchPriceResult<T> {
+  prices: T[];
+  failures: PriceFailure[]; // One entry for every requested symbol missing from prices
+}
+
+// A provider that reports why each symbol of a batch could not be priced
+export interface DetailedBatchPriceProvider extends PriceProvider {
+  fetchMultiplePricesDetailed(
+    symbols: string[],
+    currency?: string,
+    options?: CallOptions
+  ): Promise<BatchPriceResult<PriceData>>;
+}
+
+// A historical provider that reports why each symbol of a batch could not be priced
+export interface DetailedHistoricalPriceProvider extends HistoricalPriceProvider {
+  fetchHistoricalPricesDetailed(
+    symbols: string[],
+    at: Date,
+    currency?: string,
+    options?: CallOptions
+  ): Promise<BatchPriceResult<PriceData>>;
+}
+
+// A provider that can report how close it is to its own request limit
+export interface RateLimitAware {
+  getRateLimitPressure(): number; // 0 = idle, 1 = at the limit
+}
+
+export interface HttpRequest {
+  method: 'GET' | 'POST';
+  url: string; // Without the query string
+  params?: Record<string, unknown>; // Query parameters; arrays repeat as `name[]`
+  headers?: Record<string, string>;
+  body?: unknown; // Sent as JSON
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface HttpResponse<T = unknown> {
+  status: number;
+  headers: Record<string, string>; // Lower-cased names
+  data: T; // Parsed JSON, or the raw text
+}
+
+/**
+ * Port through which providers reach the network. Implementations resolve
+ * with 2xx responses and reject with HttpError otherwise, including for
+ * timeouts, aborts and network failures, which have no status.
+ */
+export interface HttpClient {
+  request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>>;
+}
+
+// Where an API key travels: a request header or a query parameter
+export interface ApiKeyPlacement {
+  in: 'header' | 'query';
+  name: string;
+}
+
+export interface RetryPolicy {
+  retries: number; // Attempts after the first; only timeouts, network errors and 5xx are retried
+  baseDelayMs?: number; // Delay before the first retry, doubling for each one after
+  maxDelayMs?: number;
 }
 
-export type SupportedCurrency = 'USD' | 'BTC' | 'ETH';
+/**
+ * HTTP settings every network provider accepts. A provider with a paid tier
+ * switches to its paid endpoints when `apiKey` is set, unless `baseUrl`
+ * points elsewhere.
+ */
+export interface ProviderConfiguration {
+  apiKey?: string;
+  apiKeyPlacement?: ApiKeyPlacement; // Defaults to the provider's own convention
+  baseUrl?: string;
+  timeoutMs?: number; // Per attempt; defaults to 10 seconds
+  retry?: RetryPolicy; // Defaults to no retries
+  httpClient?: HttpClient; // Defaults to FetchHttpClient
+}
+
+export type FiatCurrency = 'USD' | 'EUR' | 'GBP' | 'CHF' | 'JPY';
+
+export type SupportedCurrency = FiatCurrency | 'BTC' | 'ETH';
+
+/**
+ * Fiat exchange rates: fetchRate returns how many units of `quote` one unit
+ * of `base` buys, as of `at` when given and as of now otherwise.
+ */
+export interface FxRateSource {
+  readonly name?: string;
+  fetchRate(base: string, quote: string, at?: Date, options?: CallOptions): Promise<number>;
+}
 
 export interface ConversionOptions {
-  from: string;
-  to: string;
-  amount?: number;
-}
\ No newline at end of file
+  from: AssetReference;
+  to: AssetReference;
+  amount?: number | string; // Strings are parsed as exact decimals
+}
+
+export interface Holding {
+  asset: AssetReference;
+  amount: number | string; // Strings are parsed as exact decimals
+}
+
+export interface PortfolioLine {
+  asset: string;
+  amount: string;
+  price: number;
+  priceDecimal?: string; // Only populated in decimal precision mode
+  value: number;
+  valueDecimal?: string; // Only populated in decimal precision mode
+  weight: number; // Share of the priced total, 0 to 1
+  priceTimestamp: Date; // When the price used for this line was fetched
+  isStale?: boolean;
+  assumed?: boolean; // Valued at the asset's peg rather than an observed price
+}
+
+export interface UnpricedHolding extends PriceFailure {
+  amount: string;
+}
+
+/**
+ * Unpriced holdings are left out of the total and the weights rather than
+ * counted at zero, so the total is a lower bound whenever `unpriced` is
+ * non-empty.
+ */
+export interface PortfolioValuation {
+  quote: string;
+  total: number;
+  totalDecimal?: string; // Only populated in decimal precision mode
+  lines: PortfolioLine[];
+  unpriced: UnpricedHolding[];
+  timestamp: Date;
+}
+
+/**
+ * In 'decimal' mode prices and amounts are carried as bigint-scaled decimals
+ * through convert and the aggregator's averaging. Conversion results are
+ * rounded to the target asset's decimal places (assetDecimals, falling back
+ * to defaultDecimals) using the rounding mode. Prices themselves are never
+ * rounded, so sub-cent token prices keep every digit.
+ */
+export interface PrecisionOptions {
+  mode?: 'float' | 'decimal';
+  rounding?: RoundingMode;
+  defaultDecimals?: number;
+  assetDecimals?: Record<string, number>;
+}
@@ -0,0 +1,139 @@
+import { CallOptions } from '../types.js';
+import { OperationAbortedException } from '../errors.js';
+
+export function abortError(signal: AbortSignal): OperationAbortedException {
+  return signal.reason instanceof OperationAbortedException ? signal.reason : new OperationAbortedException();
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
+
+// Settles like `promise`, or rejects as soon as `signal` aborts
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    if (signal.aborted) {
+      onAbort();
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `fn` under a signal of its own that aborts along with `signal`, so a
+ * branch of concurrent work adds one listener to `signal` however many
+ * requests it makes.
+ */
+export async function withChildSignal<T>(
+  signal: AbortSignal | undefined,
+  fn: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  if (!signal) {
+    return fn(undefined);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal.reason);
+  signal.addEventListener('abort', onAbort, { once: true });
+  if (signal.aborted) {
+    onAbort();
+  }
+
+  try {
+    return await fn(controller.signal);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Runs `fn` under the caller's signal and deadline combined into one
+ * signal, and rejects with OperationAbortedException as soon as either
+ * fires, whether or not `fn` is still working.
+ */
+export async function withDeadline<T>(options: CallOptions, fn: (signal?: AbortSignal) => Promise<T>): Promise<T> {
+  const { signal, timeoutMs } = options;
+
+  if (!timeoutMs) {
+    throwIfAborted(signal);
+    return abortable(fn(signal), signal);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortError(signal!));
+  const timer = setTimeout(() => controller.abort(new OperationAbortedException(timeoutMs)), timeoutMs);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) {
+    onAbort();
+  }
+
+  try {
+    throwIfAborted(controller.signal);
+    return await abortable(fn(controller.signal), controller.signal);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * The signal for work that several callers wait on, such as a deduplicated
+ * fetch. It aborts once every caller that joined with a signal has aborted,
+ * and never if one joined without a signal.
+ */
+export class SharedSignal {
+  private controller = new AbortController();
+  private waiting = 0;
+  private pinned = false;
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  // Returns a function to call once the caller has stopped waiting
+  join(signal?: AbortSignal): () => void {
+    if (!signal) {
+      this.pinned = true;
+      return () => {};
+    }
+
+    this.waiting++;
+    const onAbort = () => {
+      this.waiting--;
+      if (this.waiting === 0 && !this.pinned) {
+        this.controller.abort(abortError(signal));
+      }
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,39 @@
+import { AssetIdentifier, AssetReference } from '../types.js';
+
+const CAIP19_PATTERN = /^eip155:(\d+)\/erc20:(0x[0-9a-f]{40})$/i;
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/i;
+
+export function parseAssetId(value: string): AssetIdentifier | null {
+  const match = CAIP19_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  return { chainId: Number(match[1]), address: match[2].toLowerCase() };
+}
+
+export function formatAssetId(id: AssetIdentifier): string {
+  const chainId = Number(id.chainId);
+
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new Error(`Invalid chain id: ${id.chainId}`);
+  }
+  if (!ADDRESS_PATTERN.test(id.address)) {
+    throw new Error(`Invalid contract address: ${id.address}`);
+  }
+
+  return `eip155:${chainId}/erc20:${id.address.toLowerCase()}`;
+}
+
+/**
+ * The key an asset travels under through providers and caches: the
+ * canonical CAIP-19 string for contract identifiers, the upper-cased ticker
+ * otherwise.
+ */
+export function normalizeAssetKey(ref: AssetReference): string {
+  if (typeof ref !== 'string') {
+    return formatAssetId(ref);
+  }
+
+  const id = parseAssetId(ref);
+  return id ? formatAssetId(id) : ref.toUpperCase();
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BatchCoalescer } from './batch-coalescer.js';
+import { OperationAbortedException } from '../errors.js';
+
+describe('BatchCoalescer', () => {
+  const fetchBatch = () => vi.fn(async (keys: string[], group: string) => keys.map(key => `${key}/${group}`));
+
+  it('should fetch the union of requests made in the same turn once per group', async () => {
+    const fetch = fetchBatch();
+    const coalescer = new BatchCoalescer(fetch, item => item.split('/')[0]);
+
+    const [a, b, c] = await Promise.all([
+      coalescer.request(['BTC', 'ETH'], 'USD'),
+      coalescer.request(['SOL', 'ETH'], 'USD'),
+      coalescer.request(['BTC'], 'EUR')
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch).toHaveBeenCalledWith(['BTC', 'ETH', 'SOL'], 'USD', expect.any(AbortSignal));
+    expect(a).toEqual(['BTC/USD', 'ETH/USD']);
+    expect(b).toEqual(['SOL/USD', 'ETH/USD']);
+    expect(c).toEqual(['BTC/EUR']);
+  });
+
+  it('should join a batch in flight that already covers the request', async () => {
+    const pending: Array<() => void> = [];
+    const fetch = vi.fn((keys: string[]) => new Promise<string[]>(resolve => {
+      pending.push(() => resolve(keys));
+    }));
+    const coalescer = new BatchCoalescer(fetch, item => item);
+
+    const first = coalescer.request(['BTC', 'ETH']);
+    await new Promise(resolve => setTimeout(resolve, 1));
+
+    const covered = coalescer.request(['ETH']);
+    const uncovered = coalescer.request(['SOL']);
+    await new Promise(resolve => setTimeout(resolve, 1));
+    pending.forEach(release => release());
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[1][0]).toEqual(['SOL']);
+    expect(await first).toEqual(['BTC', 'ETH']);
+    expect(await covered).toEqual(['ETH']);
+    expect(await uncovered).toEqual(['SOL']);
+  });
+
+  it('should abort the shared fetch only once every caller has aborted', async () => {
+    let batchSignal: AbortSignal | undefined;
+    const fetch = vi.fn((keys: string[], _group: string, signal: AbortSignal) => {
+      batchSignal = signal;
+      return new Promise<string[]>(() => {});
+    });
+    const coalescer = new BatchCoalescer(fetch, item => item);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = coalescer.request(['BTC'], '', first.signal).catch(e => e);
+    const b = coalescer.request(['ETH'], '', second.signal).catch(e => e);
+    await new Promise(resolve => setTimeout(resolve, 1));
+
+    first.abort();
+    expect(await a).toBeInstanceOf(OperationAbortedException);
+    expect(batchSignal?.aborted).toBe(false);
+
+    second.abort();
+    expect(await b).toBeInstanceOf(OperationAbortedException);
+    expect(batchSignal?.aborted).toBe(true);
+  });
+});
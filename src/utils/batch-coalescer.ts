@@ -0,0 +1,80 @@
+import { SharedSignal, abortable, abortError } from './abort.js';
+
+interface Batch<T> {
+  keys: Set<string>;
+  promise: Promise<T[]>;
+  shared: SharedSignal;
+}
+
+/**
+ * Merges batch requests made within `windowMs` of each other (by default,
+ * in the same turn of the event loop) into one upstream call per group,
+ * fetching the union of their keys. Each caller receives only the items for
+ * its own keys, in the order it asked for them. A request whose keys are all
+ * covered by a batch already in flight joins that batch instead. A batch is
+ * aborted only once every caller waiting on it has aborted.
+ */
+export class BatchCoalescer<T> {
+  private collecting = new Map<string, Batch<T>>();
+  private inFlight = new Map<string, Batch<T>[]>();
+
+  constructor(
+    private fetchBatch: (keys: string[], group: string, signal: AbortSignal) => Promise<T[]>,
+    private keyOf: (item: T) => string,
+    private windowMs: number = 0
+  ) {}
+
+  async request(keys: string[], group: string = '', signal?: AbortSignal): Promise<T[]> {
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+
+    // Batches every caller has abandoned are not joined
+    const covering = (this.inFlight.get(group) || []).find(batch =>
+      !batch.shared.signal.aborted && keys.every(key => batch.keys.has(key))
+    );
+    const collecting = this.collecting.get(group);
+    const batch = covering || (collecting && !collecting.shared.signal.aborted ? collecting : this.openBatch(group));
+
+    keys.forEach(key => batch.keys.add(key));
+    const leave = batch.shared.join(signal);
+    const items = await abortable(batch.promise, signal).finally(leave);
+
+    const order = new Map(keys.map((key, index) => [key, index]));
+    return items
+      .filter(item => order.has(this.keyOf(item)))
+      .sort((a, b) => order.get(this.keyOf(a))! - order.get(this.keyOf(b))!);
+  }
+
+  private openBatch(group: string): Batch<T> {
+    const keys = new Set<string>();
+    const shared = new SharedSignal();
+    const promise = new Promise<T[]>((resolve, reject) => {
+      setTimeout(() => {
+        if (this.collecting.get(group) === batch) {
+          this.collecting.delete(group);
+        }
+        if (shared.signal.aborted) {
+          reject(abortError(shared.signal));
+          return;
+        }
+        this.inFlight.set(group, [...(this.inFlight.get(group) || []), batch]);
+
+        this.fetchBatch([...keys], group, shared.signal)
+          .then(resolve, reject)
+          .finally(() => {
+            const remaining = (this.inFlight.get(group) || []).filter(b => b !== batch);
+            if (remaining.length > 0) {
+              this.inFlight.set(group, remaining);
+            } else {
+              this.inFlight.delete(group);
+            }
+          });
+      }, this.windowMs);
+    });
+
+    const batch: Batch<T> = { keys, promise, shared };
+    this.collecting.set(group, batch);
+    return batch;
+  }
+}
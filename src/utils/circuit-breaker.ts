@@ -0,0 +1,93 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures before the circuit opens
+  cooldownMs?: number; // Time an open circuit waits before allowing a trial request
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+}
+
+/**
+ * Closed: requests flow and failures are counted.
+ * Open: requests are rejected until the cool-down has elapsed.
+ * Half-open: a single trial request is let through; success closes the
+ * circuit, failure re-opens it for another cool-down.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private options: Required<CircuitBreakerOptions>;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      failureThreshold: options.failureThreshold || 3,
+      cooldownMs: options.cooldownMs || 30000
+    };
+  }
+
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.options.cooldownMs) {
+      this.state = 'half-open';
+    }
+
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'half-open':
+        if (this.trialInFlight) {
+          return false;
+        }
+        this.trialInFlight = true;
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  // A cancelled call says nothing about the provider; it only frees the trial slot
+  recordCancellation(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.options.cooldownMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt)
+    };
+  }
+
+  reset(): void {
+    this.recordSuccess();
+  }
+}
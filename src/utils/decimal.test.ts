@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Decimal } from './decimal.js';
+
+describe('Decimal', () => {
+  it('should parse plain, signed and exponent notation', () => {
+    expect(Decimal.from('123.4500').toString()).toBe('123.45');
+    expect(Decimal.from('-0.001').toString()).toBe('-0.001');
+    expect(Decimal.from(1e-8).toString()).toBe('0.00000001');
+    expect(Decimal.from('2.5e3').toString()).toBe('2500');
+    expect(Decimal.from(1.5e21).toString()).toBe('1500000000000000000000');
+  });
+
+  it('should reject values that are not decimals', () => {
+    expect(() => Decimal.from('abc')).toThrow(/Invalid decimal/);
+    expect(() => Decimal.from('.')).toThrow(/Invalid decimal/);
+    expect(() => Decimal.from(NaN)).toThrow();
+  });
+
+  it('should add and multiply exactly', () => {
+    expect(Decimal.from(0.1).add(0.2).toString()).toBe('0.3');
+    expect(Decimal.from('12345678.12345678').mul('97250.42').toString()).toBe('1200622382690.9837068476');
+    expect(Decimal.from('0.00000001').mul('123456789').toString()).toBe('1.23456789');
+  });
+
+  it('should divide to a fixed number of places', () => {
+    expect(Decimal.from(1).div(3, 8).toString()).toBe('0.33333333');
+    expect(Decimal.from(2).div(3, 8).toString()).toBe('0.66666667');
+    expect(() => Decimal.from(1).div(0, 2)).toThrow(/zero/);
+  });
+
+  it('should apply each rounding mode', () => {
+    const cases: [string, string, string, string, string, string, string, string][] = [
+      // value, half-even, half-up, half-down, up, down, ceil, floor
+      ['2.5', '2', '3', '2', '3', '2', '3', '2'],
+      ['3.5', '4', '4', '3', '4', '3', '4', '3'],
+      ['-2.5', '-2', '-3', '-2', '-3', '-2', '-2', '-3'],
+      ['1.2', '1', '1', '1', '2', '1', '2', '1'],
+    ];
+
+    for (const [value, halfEven, halfUp, halfDown, up, down, ceil, floor] of cases) {
+      const decimal = Decimal.from(value);
+      expect(decimal.toFixed(0, 'half-even')).toBe(halfEven);
+      expect(decimal.toFixed(0, 'half-up')).toBe(halfUp);
+      expect(decimal.toFixed(0, 'half-down')).toBe(halfDown);
+      expect(decimal.toFixed(0, 'up')).toBe(up);
+      expect(decimal.toFixed(0, 'down')).toBe(down);
+      expect(decimal.toFixed(0, 'ceil')).toBe(ceil);
+      expect(decimal.toFixed(0, 'floor')).toBe(floor);
+    }
+  });
+
+  it('should pad to the requested places with toFixed', () => {
+    expect(Decimal.from('1.5').toFixed(4)).toBe('1.5000');
+    expect(Decimal.from('0.005').toFixed(2, 'half-up')).toBe('0.01');
+  });
+
+  it('should average without float error', () => {
+    expect(Decimal.mean(['0.1', '0.2']).toString()).toBe('0.15');
+    expect(Decimal.mean([97250.42, 97261.1, 97255.37]).toString()).toBe('97255.63');
+  });
+
+  it('should take a weighted mean without float error', () => {
+    expect(Decimal.weightedMean(['0.1', '0.2'], [3, 1]).toString()).toBe('0.125');
+    expect(() => Decimal.weightedMean(['0.1'], [])).toThrow('one weight per value');
+  });
+});
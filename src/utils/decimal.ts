@@ -0,0 +1,215 @@
+export type RoundingMode = 'half-even' | 'half-up' | 'half-down' | 'up' | 'down' | 'ceil' | 'floor';
+
+export type DecimalInput = Decimal | number | string | bigint;
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+function divideAndRound(numerator: bigint, denominator: bigint, rounding: RoundingMode): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const step = (numerator < 0n) !== (denominator < 0n) ? -1n : 1n;
+  const absRemainder = remainder < 0n ? -remainder : remainder;
+  const absDenominator = denominator < 0n ? -denominator : denominator;
+  const twiceRemainder = absRemainder * 2n;
+  const halfComparison = twiceRemainder === absDenominator ? 0 : twiceRemainder > absDenominator ? 1 : -1;
+
+  switch (rounding) {
+    case 'down':
+      return quotient;
+    case 'up':
+      return quotient + step;
+    case 'ceil':
+      return step > 0n ? quotient + step : quotient;
+    case 'floor':
+      return step < 0n ? quotient + step : quotient;
+    case 'half-up':
+      return halfComparison >= 0 ? quotient + step : quotient;
+    case 'half-down':
+      return halfComparison > 0 ? quotient + step : quotient;
+    case 'half-even':
+    default: {
+      const isOdd = quotient % 2n !== 0n;
+      return halfComparison > 0 || (halfComparison === 0 && isOdd) ? quotient + step : quotient;
+    }
+  }
+}
+
+/**
+ * Immutable fixed-point decimal backed by a bigint: value = units / 10^scale.
+ * Addition, subtraction and multiplication are exact; division and rounding
+ * take an explicit number of decimal places and a rounding mode.
+ */
+export class Decimal {
+  private constructor(
+    private readonly units: bigint,
+    private readonly scale: number
+  ) {}
+
+  static from(value: DecimalInput): Decimal {
+    if (value instanceof Decimal) {
+      return value;
+    }
+
+    if (typeof value === 'bigint') {
+      return new Decimal(value, 0);
+    }
+
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error(`Cannot represent ${value} as a decimal`);
+    }
+
+    // String(number) yields the shortest representation that round-trips
+    const text = String(value).trim();
+    const match = DECIMAL_PATTERN.exec(text);
+
+    if (!match || (match[2] === '' && (match[3] === undefined || match[3] === ''))) {
+      throw new Error(`Invalid decimal value: "${text}"`);
+    }
+
+    const [, sign, integerDigits, fractionDigits = '', exponentDigits] = match;
+    let units = BigInt(`${integerDigits}${fractionDigits}` || '0');
+    let scale = fractionDigits.length - (exponentDigits ? parseInt(exponentDigits, 10) : 0);
+
+    if (scale < 0) {
+      units *= pow10(-scale);
+      scale = 0;
+    }
+
+    return new Decimal(sign === '-' ? -units : units, scale);
+  }
+
+  static sum(values: DecimalInput[]): Decimal {
+    return values.reduce<Decimal>((total, value) => total.add(value), Decimal.from(0));
+  }
+
+  /**
+   * Arithmetic mean, carried to `extraDecimals` places beyond the most
+   * precise input before rounding.
+   */
+  static mean(values: DecimalInput[], rounding: RoundingMode = 'half-even', extraDecimals: number = 18): Decimal {
+    if (values.length === 0) {
+      throw new Error('Cannot take the mean of no values');
+    }
+
+    const decimals = values.map(v => Decimal.from(v));
+    const scale = Math.max(...decimals.map(d => d.scale)) + extraDecimals;
+    return Decimal.sum(decimals).div(decimals.length, scale, rounding).normalize();
+  }
+
+  /**
+   * Mean of `values` weighted by `weights`, carried to `extraDecimals`
+   * places beyond the most precise value before rounding.
+   */
+  static weightedMean(
+    values: DecimalInput[],
+    weights: DecimalInput[],
+    rounding: RoundingMode = 'half-even',
+    extraDecimals: number = 18
+  ): Decimal {
+    if (values.length === 0 || values.length !== weights.length) {
+      throw new Error('Cannot take a weighted mean without one weight per value');
+    }
+
+    const decimals = values.map(v => Decimal.from(v));
+    const scale = Math.max(...decimals.map(d => d.scale)) + extraDecimals;
+    const weighted = Decimal.sum(decimals.map((d, i) => d.mul(weights[i])));
+    return weighted.div(Decimal.sum(weights), scale, rounding).normalize();
+  }
+
+  add(other: DecimalInput): Decimal {
+    const right = Decimal.from(other);
+    const scale = Math.max(this.scale, right.scale);
+    return new Decimal(this.rescaled(scale) + right.rescaled(scale), scale);
+  }
+
+  sub(other: DecimalInput): Decimal {
+    return this.add(Decimal.from(other).negate());
+  }
+
+  mul(other: DecimalInput): Decimal {
+    const right = Decimal.from(other);
+    return new Decimal(this.units * right.units, this.scale + right.scale);
+  }
+
+  div(other: DecimalInput, decimals: number, rounding: RoundingMode = 'half-even'): Decimal {
+    const right = Decimal.from(other);
+
+    if (right.isZero()) {
+      throw new Error('Division by zero');
+    }
+
+    // this / right at `decimals` places = this.units * 10^(decimals + right.scale - this.scale) / right.units
+    const exponent = decimals + right.scale - this.scale;
+    const numerator = exponent >= 0 ? this.units * pow10(exponent) : this.units;
+    const denominator = exponent >= 0 ? right.units : right.units * pow10(-exponent);
+
+    return new Decimal(divideAndRound(numerator, denominator, rounding), decimals);
+  }
+
+  round(decimals: number, rounding: RoundingMode = 'half-even'): Decimal {
+    if (decimals >= this.scale) {
+      return new Decimal(this.rescaled(decimals), decimals);
+    }
+    return new Decimal(divideAndRound(this.units, pow10(this.scale - decimals), rounding), decimals);
+  }
+
+  negate(): Decimal {
+    return new Decimal(-this.units, this.scale);
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  compare(other: DecimalInput): -1 | 0 | 1 {
+    const difference = this.sub(other).units;
+    return difference === 0n ? 0 : difference > 0n ? 1 : -1;
+  }
+
+  // Drops trailing fractional zeros without changing the value
+  normalize(): Decimal {
+    let units = this.units;
+    let scale = this.scale;
+
+    while (scale > 0 && units % 10n === 0n) {
+      units /= 10n;
+      scale--;
+    }
+
+    return new Decimal(units, scale);
+  }
+
+  toFixed(decimals: number, rounding: RoundingMode = 'half-even'): string {
+    return this.round(decimals, rounding).format();
+  }
+
+  toString(): string {
+    return this.normalize().format();
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  private rescaled(scale: number): bigint {
+    return this.units * pow10(scale - this.scale);
+  }
+
+  private format(): string {
+    const negative = this.units < 0n;
+    const digits = (negative ? -this.units : this.units).toString().padStart(this.scale + 1, '0');
+    const integerPart = digits.slice(0, digits.length - this.scale);
+    const fractionPart = this.scale > 0 ? `.${digits.slice(digits.length - this.scale)}` : '';
+
+    return `${negative ? '-' : ''}${integerPart}${fractionPart}`;
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EdgeCache } from './edge-cache.js';
+
+describe('EdgeCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should keep expired entries for stale reads only within maxStaleMs', async () => {
+    const cache = new EdgeCache({ defaultTTL: 1000, maxStaleMs: 5000 });
+    await cache.set('BTC-usd', 50000);
+
+    vi.advanceTimersByTime(3000);
+    expect(await cache.get('BTC-usd')).toBeNull();
+    expect(await cache.getWithMetadata('BTC-usd')).toMatchObject({ data: 50000, isStale: true, ageMs: 3000 });
+
+    vi.advanceTimersByTime(3000);
+    expect(await cache.getWithMetadata('BTC-usd')).toBeNull();
+  });
+
+  it('should serve a stale entry when the refresh fails', async () => {
+    const cache = new EdgeCache({ defaultTTL: 1000, maxStaleMs: 5000 });
+    await cache.set('BTC-usd', 50000);
+    vi.advanceTimersByTime(2000);
+
+    const lookup = await cache.getOrFetch('BTC-usd', () => Promise.reject(new Error('API unavailable')));
+
+    expect(lookup).toMatchObject({ data: 50000, isStale: true });
+    await expect(cache.getOrFetch('ETH-usd', () => Promise.reject(new Error('API unavailable'))))
+      .rejects.toThrow('API unavailable');
+  });
+
+  it('should answer from a stale entry and refresh it in the background', async () => {
+    const cache = new EdgeCache({ defaultTTL: 1000, maxStaleMs: 5000, staleWhileRevalidate: true });
+    const fetcher = vi.fn(async () => 51000);
+    await cache.set('BTC-usd', 50000);
+    vi.advanceTimersByTime(2000);
+
+    const [first, second] = await Promise.all([
+      cache.getOrFetch('BTC-usd', fetcher),
+      cache.getOrFetch('BTC-usd', fetcher)
+    ]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(first.data).toBe(50000);
+    expect(second.data).toBe(50000);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(await cache.get('BTC-usd')).toBe(51000);
+  });
+});
@@ -1,4 +1,6 @@
 import { hasIndexedDB, hasLocalStorage } from './browser-detect.js';
+import { SingleFlight } from './single-flight.js';
+import { throwIfAborted } from './abort.js';
 
 export interface CacheEntry<T> {
   data: T;
@@ -10,6 +12,15 @@ export interface EdgeCacheOptions {
   defaultTTL?: number;
   maxSize?: number;
   storage?: 'memory' | 'localStorage' | 'indexedDB';
+  maxStaleMs?: number; // How long past its TTL an entry may still be served stale (default 0, never)
+  staleWhileRevalidate?: boolean; // getOrFetch answers from a stale entry and refreshes it in the background
+}
+
+export interface CacheLookup<T> {
+  data: T;
+  timestamp: number; // When the entry was written
+  ageMs: number;
+  isStale: boolean; // Past its TTL but within maxStaleMs
 }
 
 export class EdgeCache {
@@ -18,12 +29,15 @@ export class EdgeCache {
   private dbName = 'asset-valuator-cache';
   private storeName = 'prices';
   private db: any = null;
+  private refreshing = new SingleFlight();
 
   constructor(options: EdgeCacheOptions = {}) {
     this.options = {
       defaultTTL: options.defaultTTL || 60000, // 60 seconds
       maxSize: options.maxSize || 1000,
-      storage: options.storage || 'memory'
+      storage: options.storage || 'memory',
+      maxStaleMs: options.maxStaleMs || 0,
+      staleWhileRevalidate: options.staleWhileRevalidate || false
     };
 
     if (this.options.storage === 'indexedDB' && hasIndexedDB()) {
@@ -53,19 +67,79 @@ export class EdgeCache {
   }
 
   async get<T>(key: string): Promise<T | null> {
-    const now = Date.now();
+    const lookup = await this.getWithMetadata<T>(key);
+    return lookup && !lookup.isStale ? lookup.data : null;
+  }
+
+  /**
+   * Like get, but also returns entries past their TTL for up to maxStaleMs,
+   * flagged as stale, together with their age.
+   */
+  async getWithMetadata<T>(key: string): Promise<CacheLookup<T> | null> {
+    const entry = await this.readEntry<T>(key);
+    if (!entry) {
+      return null;
+    }
+
+    const ageMs = Date.now() - entry.timestamp;
+    if (ageMs >= entry.ttl + this.options.maxStaleMs) {
+      // Clean up expired entry
+      this.delete(key);
+      return null;
+    }
+
+    return { data: entry.data, timestamp: entry.timestamp, ageMs, isStale: ageMs >= entry.ttl };
+  }
+
+  /**
+   * Returns the cached value for `key`, calling `fetcher` to fill or refresh
+   * it. A stale entry is served when the fetch fails, or straight away with a
+   * background refresh when staleWhileRevalidate is on. Concurrent refreshes
+   * of one key share a single fetch. An aborted `signal` rejects rather than
+   * falling back to the stale entry; background refreshes ignore it.
+   */
+  async getOrFetch<T>(
+    key: string,
+    fetcher: (signal?: AbortSignal) => Promise<T>,
+    ttl?: number,
+    signal?: AbortSignal
+  ): Promise<CacheLookup<T>> {
+    const cached = await this.getWithMetadata<T>(key);
+    if (cached && !cached.isStale) {
+      return cached;
+    }
+
+    const refresh = (callerSignal?: AbortSignal) => this.refreshing.run(key, async shared => {
+      const data = await fetcher(shared);
+      await this.set(key, data, ttl);
+      return data;
+    }, callerSignal);
+
+    if (cached && this.options.staleWhileRevalidate) {
+      refresh().catch(error => console.warn(`Background refresh of ${key} failed`, error));
+      return cached;
+    }
+
+    try {
+      const data = await refresh(signal);
+      return { data, timestamp: Date.now(), ageMs: 0, isStale: false };
+    } catch (error) {
+      throwIfAborted(signal);
+      if (cached) {
+        return cached;
+      }
+      throw error;
+    }
+  }
 
+  private async readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
     switch (this.options.storage) {
       case 'localStorage':
         if (hasLocalStorage()) {
           try {
             const stored = localStorage.getItem(`cache_${key}`);
             if (stored) {
-              const entry: CacheEntry<T> = JSON.parse(stored);
-              if (now - entry.timestamp < entry.ttl) {
-                return entry.data;
-              }
-              localStorage.removeItem(`cache_${key}`);
+              return JSON.parse(stored);
             }
           } catch (error) {
             console.warn('localStorage read failed', error);
@@ -85,13 +159,8 @@ export class EdgeCache {
               request.onerror = () => reject(request.error);
             });
 
-            if (result && now - result.timestamp < result.ttl) {
-              return result.data;
-            }
-
-            // Clean up expired entry
             if (result) {
-              this.delete(key);
+              return result;
             }
           } catch (error) {
             console.warn('IndexedDB read failed', error);
@@ -99,16 +168,8 @@ export class EdgeCache {
         }
         break;
 
-      default: { // memory
-        const entry = this.memoryCache.get(key);
-        if (entry && now - entry.timestamp < entry.ttl) {
-          return entry.data;
-        }
-        if (entry) {
-          this.memoryCache.delete(key);
-        }
-        break;
-      }
+      default: // memory
+        return this.memoryCache.get(key) || null;
     }
 
     return null;
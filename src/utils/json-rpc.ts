@@ -0,0 +1,71 @@
+import { CallOptions, ProviderConfiguration } from '../types.js';
+import { ProviderUnavailableException } from '../errors.js';
+import { ProviderHttpClient } from './provider-http.js';
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+// The endpoint URL takes the place of baseUrl
+export type JsonRpcConfiguration = Omit<ProviderConfiguration, 'baseUrl'>;
+
+/**
+ * Minimal Ethereum JSON-RPC client. Transport failures and RPC errors,
+ * including reverted calls, surface as the owning provider's domain
+ * exceptions.
+ */
+export class JsonRpcClient {
+  private nextId = 1;
+  private http: ProviderHttpClient;
+
+  constructor(readonly url: string, private provider: string, config: JsonRpcConfiguration = {}) {
+    this.http = new ProviderHttpClient(provider, { baseUrl: url }, config);
+  }
+
+  async request<T>(method: string, params: unknown[], options: CallOptions = {}): Promise<T> {
+    const body = { jsonrpc: '2.0', id: this.nextId++, method, params };
+    const data = await this.http.post<JsonRpcResponse<T>>('', body, options);
+
+    if (data?.error) {
+      throw new ProviderUnavailableException(this.provider, `${method} failed: ${data.error.message}`);
+    }
+    if (data?.result === undefined) {
+      throw new ProviderUnavailableException(this.provider, `${method} returned no result`);
+    }
+    return data.result;
+  }
+
+  async ethCall(to: string, data: string, blockTag: string = 'latest', options: CallOptions = {}): Promise<string> {
+    return this.request<string>('eth_call', [{ to, data }, blockTag], options);
+  }
+}
+
+const WORD_BYTES = 32;
+
+// Calldata for a function whose arguments are all static: addresses and unsigned integers
+export function encodeCall(selector: string, ...args: Array<string | number | bigint>): string {
+  const words = args.map(arg => BigInt(arg).toString(16).padStart(WORD_BYTES * 2, '0'));
+  return selector + words.join('');
+}
+
+// Splits static return data into 32-byte words
+export function decodeWords(data: string): bigint[] {
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  const words: bigint[] = [];
+
+  for (let offset = 0; offset + WORD_BYTES * 2 <= hex.length; offset += WORD_BYTES * 2) {
+    words.push(BigInt('0x' + hex.slice(offset, offset + WORD_BYTES * 2)));
+  }
+  return words;
+}
+
+export function decodeAddress(word: bigint): string {
+  return '0x' + (word & ((1n << 160n) - 1n)).toString(16).padStart(40, '0');
+}
+
+// Two's complement reading of an intN value
+export function decodeSigned(word: bigint, bits: number = 256): bigint {
+  const value = word & ((1n << BigInt(bits)) - 1n);
+  return value >= 1n << BigInt(bits - 1) ? value - (1n << BigInt(bits)) : value;
+}
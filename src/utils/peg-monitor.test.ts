@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PegMonitor } from './peg-monitor.js';
+import { PegRegistry } from '../registry/peg-registry.js';
+
+describe('PegMonitor', () => {
+  let monitor: PegMonitor;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    monitor = new PegMonitor({ windowMs: 60000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only fall back while every recent observation was on peg', () => {
+    expect(monitor.fallback('USDC', 'USD')).toBeNull();
+
+    monitor.observe('USDC', 0.9991, 'USD');
+    expect(monitor.fallback('usdc', 'usd')).toMatchObject({ symbol: 'USDC', price: 1, assumed: true });
+
+    monitor.observe('USDC', 0.98, 'USD');
+    monitor.observe('USDC', 1, 'USD');
+    expect(monitor.fallback('USDC', 'USD')).toBeNull();
+
+    // The off-peg print ages out of the window
+    vi.advanceTimersByTime(30000);
+    monitor.observe('USDC', 1, 'USD');
+    vi.advanceTimersByTime(30001);
+    expect(monitor.fallback('USDC', 'USD')).not.toBeNull();
+  });
+
+  it('should report each departure from the band once', () => {
+    const listener = vi.fn();
+    monitor.onDepeg(listener);
+
+    monitor.observe('USDT', 0.97, 'USD');
+    monitor.observe('USDT', 0.95, 'USD');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toMatchObject({ asset: 'USDT', target: 1, price: 0.97 });
+    expect(listener.mock.calls[0][0].deviation).toBeCloseTo(-0.03);
+    expect(monitor.isDepegged('USDT')).toBe(true);
+
+    monitor.observe('USDT', 1.001, 'USD');
+    expect(monitor.isDepegged('USDT')).toBe(false);
+    monitor.observe('USDT', 1.02, 'USD');
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use the configured pegs and ignore other currencies', () => {
+    const listener = vi.fn();
+    const registry = new PegRegistry({ pegs: [{ asset: 'EURC', target: 1, currency: 'eur', tolerance: 0.01 }] });
+    const custom = new PegMonitor({ registry });
+    const unsubscribe = custom.onDepeg(listener);
+
+    custom.observe('EURC', 1.08, 'USD');
+    custom.observe('EURC', 0.995, 'EUR');
+    custom.observe('USDC', 0.5, 'USD');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(custom.fallback('EURC', 'EUR')).toMatchObject({ price: 1, assumed: true });
+    expect(custom.fallback('EURC', 'USD')).toBeNull();
+
+    unsubscribe();
+    custom.observe('EURC', 0.9, 'EUR');
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
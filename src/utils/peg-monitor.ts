@@ -0,0 +1,121 @@
+import { PegDefinition, PriceData } from '../types.js';
+import { PegRegistry, isOnPeg, pegDeviation } from '../registry/peg-registry.js';
+import { Unsubscribe } from './price-scheduler.js';
+
+export interface DepegEvent {
+  asset: string;
+  target: number;
+  currency: string;
+  price: number;
+  deviation: number; // Signed relative distance from the target
+  timestamp: Date;
+}
+
+export type DepegListener = (event: DepegEvent) => void;
+
+export interface PegMonitorOptions {
+  registry?: PegRegistry;
+  windowMs?: number; // How far back observations count towards the fallback decision
+}
+
+interface Observation {
+  price: number;
+  at: number;
+}
+
+/**
+ * Watches observed prices of pegged assets. The peg value may stand in for
+ * a failed fetch only while every observation within `windowMs` was inside
+ * the tolerance band, so an asset that was never observed, or was seen off
+ * peg recently, gets no fallback.
+ *
+ * Depeg listeners hear once per departure from the band; an asset has to
+ * trade back inside the band before another departure is reported.
+ */
+export class PegMonitor {
+  private registry: PegRegistry;
+  private windowMs: number;
+  private observations = new Map<string, Observation[]>();
+  private depegged = new Set<string>();
+  private listeners = new Set<DepegListener>();
+
+  constructor(options: PegMonitorOptions = {}) {
+    this.registry = options.registry || new PegRegistry();
+    this.windowMs = options.windowMs || 60 * 60 * 1000; // 1 hour
+  }
+
+  getPeg(asset: string, currency: string): PegDefinition | null {
+    const peg = this.registry.get(asset);
+    return peg && peg.currency === currency.toUpperCase() ? peg : null;
+  }
+
+  // Prices in a currency other than the peg's are ignored
+  observe(asset: string, price: number, currency: string, at: Date = new Date()): void {
+    const peg = this.getPeg(asset, currency);
+    if (!peg) {
+      return;
+    }
+
+    this.observations.set(peg.asset, [...this.recent(peg.asset, at.getTime()), { price, at: at.getTime() }]);
+
+    if (isOnPeg(peg, price)) {
+      this.depegged.delete(peg.asset);
+      return;
+    }
+
+    if (this.depegged.has(peg.asset)) {
+      return;
+    }
+    this.depegged.add(peg.asset);
+
+    const event: DepegEvent = {
+      asset: peg.asset,
+      target: peg.target,
+      currency: peg.currency,
+      price,
+      deviation: pegDeviation(peg, price),
+      timestamp: at
+    };
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn('Depeg listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * The peg value flagged as assumed, or null when recent observations
+   * don't support it.
+   */
+  fallback(asset: string, currency: string): PriceData | null {
+    const peg = this.getPeg(asset, currency);
+    if (!peg) {
+      return null;
+    }
+
+    const recent = this.recent(peg.asset, Date.now());
+    if (recent.length === 0 || recent.some(observation => !isOnPeg(peg, observation.price))) {
+      return null;
+    }
+
+    return { symbol: peg.asset, price: peg.target, timestamp: new Date(), assumed: true };
+  }
+
+  isDepegged(asset: string): boolean {
+    return this.depegged.has(this.registry.get(asset)?.asset || '');
+  }
+
+  onDepeg(listener: DepegListener): Unsubscribe {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private recent(asset: string, now: number): Observation[] {
+    return (this.observations.get(asset) || []).filter(observation => now - observation.at < this.windowMs);
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  BatchPriceResult,
+  CallOptions,
+  HistoricalPriceProvider,
+  PriceData,
+  PriceFailure,
+  PriceFailureReason,
+  PriceProvider
+} from '../types.js';
+import {
+  AssetNotFoundException,
+  RateLimitExceededException,
+  StaleDataException
+} from '../errors.js';
+import { normalizeAssetKey } from './asset-id.js';
+import { getProviderName, isDetailedBatchProvider, isDetailedHistoricalProvider } from './provider-capabilities.js';
+import { throwIfAborted } from './abort.js';
+
+export function isPriceFailure(outcome: PriceData | PriceFailure): outcome is PriceFailure {
+  return 'reason' in outcome;
+}
+
+export function failureReason(error: unknown): PriceFailureReason {
+  if (error instanceof AssetNotFoundException) {
+    return 'unknown-asset';
+  }
+  if (error instanceof RateLimitExceededException) {
+    return 'rate-limited';
+  }
+  if (error instanceof StaleDataException && error.ageMs !== null) {
+    return 'stale-only';
+  }
+  return 'provider-error';
+}
+
+export function toPriceFailure(symbol: string, error: unknown): PriceFailure {
+  return {
+    symbol: normalizeAssetKey(symbol),
+    reason: failureReason(error),
+    message: error instanceof Error ? error.message : String(error)
+  };
+}
+
+// Requested symbols a plain fetchMultiplePrices left out, which is how it reports unknown assets
+export function missingPriceFailures(symbols: string[], prices: PriceData[], provider: string): PriceFailure[] {
+  const priced = new Set(prices.map(p => normalizeAssetKey(p.symbol)));
+
+  return symbols
+    .map(normalizeAssetKey)
+    .filter(symbol => !priced.has(symbol))
+    .map(symbol => ({ symbol, reason: 'unknown-asset' as const, message: `${provider} returned no price for ${symbol}` }));
+}
+
+/**
+ * Merges what several providers said about one symbol: a shared reason is
+ * kept, while a mix means at least one provider failed for another reason.
+ */
+export function combineFailures(symbol: string, failures: PriceFailure[]): PriceFailure {
+  const key = normalizeAssetKey(symbol);
+
+  if (failures.length === 0) {
+    return { symbol: key, reason: 'provider-error', message: `No provider was available for ${key}` };
+  }
+
+  const reasons = new Set(failures.map(f => f.reason));
+  return {
+    symbol: key,
+    reason: reasons.size === 1 ? failures[0].reason : 'provider-error',
+    message: failures.map(f => f.message).join('; ')
+  };
+}
+
+// Batch prices with failure reasons, from any provider
+export async function fetchPricesDetailed(
+  provider: PriceProvider,
+  symbols: string[],
+  currency: string,
+  options?: CallOptions
+): Promise<BatchPriceResult<PriceData>> {
+  if (isDetailedBatchProvider(provider)) {
+    return provider.fetchMultiplePricesDetailed(symbols, currency, options);
+  }
+
+  const prices = await provider.fetchMultiplePrices(symbols, currency, options);
+  return { prices, failures: missingPriceFailures(symbols, prices, getProviderName(provider)) };
+}
+
+// Historical batch prices with failure reasons, from any historical provider
+export async function fetchHistoricalPricesDetailed(
+  provider: HistoricalPriceProvider,
+  symbols: string[],
+  at: Date,
+  currency: string,
+  options?: CallOptions
+): Promise<BatchPriceResult<PriceData>> {
+  if (isDetailedHistoricalProvider(provider)) {
+    return provider.fetchHistoricalPricesDetailed(symbols, at, currency, options);
+  }
+
+  const prices = await provider.fetchHistoricalPrices(symbols, at, currency, options);
+  return { prices, failures: missingPriceFailures(symbols, prices, getProviderName(provider)) };
+}
+
+/**
+ * Prices a batch one request per symbol, for endpoints that take a single
+ * symbol. Each symbol that fails is reported with its reason, but a rate
+ * limit or an abort fails the whole batch: the other requests would fare
+ * no better.
+ */
+export async function fetchEachDetailed(
+  symbols: string[],
+  fetchOne: (symbol: string) => Promise<PriceData>,
+  signal?: AbortSignal
+): Promise<BatchPriceResult<PriceData>> {
+  const outcomes = await Promise.all(symbols.map(symbol => fetchOne(symbol).catch(error => {
+    throwIfAborted(signal);
+    if (error instanceof RateLimitExceededException) {
+      throw error;
+    }
+    return toPriceFailure(symbol, error);
+  })));
+  throwIfAborted(signal);
+
+  return {
+    prices: outcomes.filter((outcome): outcome is PriceData => !isPriceFailure(outcome)),
+    failures: outcomes.filter(isPriceFailure)
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PriceScheduler } from './price-scheduler.js';
+import { AssetPrice } from '../types.js';
+
+describe('PriceScheduler', () => {
+  let prices: Record<string, number>;
+  let fetchPrices: ReturnType<typeof vi.fn<(symbols: string[], quote: string) => Promise<AssetPrice[]>>>;
+  let scheduler: PriceScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    prices = { BTC: 50000, ETH: 3000, SOL: 100 };
+    fetchPrices = vi.fn(async (symbols: string[], quote: string) =>
+      symbols.map(base => ({ base, quote, price: prices[base], timestamp: new Date() }))
+    );
+    scheduler = new PriceScheduler({ fetchPrices });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('should batch overlapping subscriptions into one request per tick', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+
+    scheduler.subscribe(['BTC', 'ETH'], 'USD', first, { intervalMs: 1000 });
+    scheduler.subscribe(['ETH', 'SOL'], 'USD', second, { intervalMs: 1000 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(fetchPrices).toHaveBeenCalledTimes(1);
+    expect(fetchPrices).toHaveBeenCalledWith(['BTC', 'ETH', 'SOL'], 'USD');
+    expect(first.mock.calls[0][0].map((p: AssetPrice) => p.base)).toEqual(['BTC', 'ETH']);
+    expect(second.mock.calls[0][0].map((p: AssetPrice) => p.base)).toEqual(['ETH', 'SOL']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchPrices).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve a new subscription from the last poll', async () => {
+    scheduler.subscribe(['BTC'], 'USD', vi.fn(), { intervalMs: 1000 });
+    await vi.advanceTimersByTimeAsync(400);
+
+    const late = vi.fn();
+    scheduler.subscribe(['BTC'], 'USD', late, { intervalMs: 1000 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(late).toHaveBeenCalledTimes(1);
+    expect(fetchPrices).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only emit prices that moved more than epsilon', async () => {
+    const listener = vi.fn();
+    scheduler.subscribe(['BTC', 'ETH'], 'USD', listener, { intervalMs: 1000, epsilon: 0.001 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    prices.BTC = 50010; // 0.02%
+    prices.ETH = 3010; // 0.33%
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1][0]).toEqual([expect.objectContaining({ base: 'ETH', price: 3010 })]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop polling once every subscription is gone', async () => {
+    const unsubscribe = scheduler.subscribe(['BTC'], 'USD', vi.fn(), { intervalMs: 1000 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(fetchPrices).toHaveBeenCalledTimes(1);
+    expect(scheduler.getSubscriptionCount()).toBe(0);
+  });
+
+  it('should back off while the rate limiter reports pressure', async () => {
+    let pressure = 1;
+    scheduler = new PriceScheduler({ fetchPrices, getPressure: () => pressure });
+    scheduler.subscribe(['BTC'], 'USD', vi.fn(), { intervalMs: 1000 });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.getBackoffFactor()).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchPrices).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchPrices).toHaveBeenCalledTimes(2);
+
+    pressure = 0;
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(scheduler.getBackoffFactor()).toBe(1);
+  });
+});
@@ -0,0 +1,203 @@
+import { AssetPrice } from '../types.js';
+
+export interface SubscriptionOptions {
+  intervalMs?: number; // How often the subscribed prices are polled
+  epsilon?: number; // Relative change a price must exceed before it is emitted again
+}
+
+export type PriceListener = (prices: AssetPrice[]) => void;
+
+export type Unsubscribe = () => void;
+
+export interface PriceSchedulerOptions {
+  fetchPrices: (symbols: string[], quote: string) => Promise<AssetPrice[]>;
+  getPressure?: () => number; // Rate-limit pressure from 0 to 1
+  pressureThreshold?: number; // Pressure at which polling starts backing off
+  maxBackoffFactor?: number; // Upper bound on how far intervals are stretched
+}
+
+interface Subscription {
+  symbols: string[];
+  quote: string;
+  listener: PriceListener;
+  intervalMs: number;
+  epsilon: number;
+  nextDue: number;
+  lastEmitted: Map<string, number>;
+}
+
+const DEFAULT_INTERVAL_MS = 30000;
+
+/**
+ * Polls prices for any number of subscriptions on one timer. Each tick takes
+ * every subscription that is due, or due within half its interval, and
+ * fetches all of their symbols in a single batch per quote currency, so
+ * overlapping subscriptions share one poll and drift into step.
+ *
+ * While rate-limit pressure is at or above the threshold, every interval is
+ * doubled per tick up to `maxBackoffFactor`; it snaps back once pressure
+ * drops.
+ */
+export class PriceScheduler {
+  private subscriptions = new Set<Subscription>();
+  private latest = new Map<string, AssetPrice>(); // Keyed by quote and symbol
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private ticking = false;
+  private backoffFactor = 1;
+  private fetchPrices: PriceSchedulerOptions['fetchPrices'];
+  private getPressure?: () => number;
+  private pressureThreshold: number;
+  private maxBackoffFactor: number;
+
+  constructor(options: PriceSchedulerOptions) {
+    this.fetchPrices = options.fetchPrices;
+    this.getPressure = options.getPressure;
+    this.pressureThreshold = options.pressureThreshold || 0.8;
+    this.maxBackoffFactor = options.maxBackoffFactor || 8;
+  }
+
+  subscribe(symbols: string[], quote: string, listener: PriceListener, options: SubscriptionOptions = {}): Unsubscribe {
+    const subscription: Subscription = {
+      symbols,
+      quote,
+      listener,
+      intervalMs: options.intervalMs || DEFAULT_INTERVAL_MS,
+      epsilon: options.epsilon ?? 0,
+      nextDue: Date.now(),
+      lastEmitted: new Map()
+    };
+
+    // Symbols another subscription already polls are served from the last tick instead of a new request
+    const known = symbols.map(symbol => this.latest.get(this.latestKey(quote, symbol)));
+    if (known.every(price => price !== undefined)) {
+      subscription.nextDue = Date.now() + subscription.intervalMs;
+      queueMicrotask(() => {
+        if (this.subscriptions.has(subscription)) {
+          this.emit(subscription, known as AssetPrice[]);
+        }
+      });
+    }
+
+    this.subscriptions.add(subscription);
+    this.schedule();
+
+    return () => {
+      this.subscriptions.delete(subscription);
+      if (this.subscriptions.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  getSubscriptionCount(): number {
+    return this.subscriptions.size;
+  }
+
+  getBackoffFactor(): number {
+    return this.backoffFactor;
+  }
+
+  stop(): void {
+    this.subscriptions.clear();
+    this.latest.clear();
+    this.backoffFactor = 1;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    // A running tick reschedules once it finishes
+    if (this.ticking) {
+      return;
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.subscriptions.size === 0) {
+      return;
+    }
+
+    const nextDue = Math.min(...[...this.subscriptions].map(s => s.nextDue));
+    this.timer = setTimeout(() => this.tick(), Math.max(0, nextDue - Date.now()));
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = null;
+    this.ticking = true;
+
+    const now = Date.now();
+    const due = [...this.subscriptions].filter(s => s.nextDue <= now + s.intervalMs / 2);
+
+    try {
+      const byQuote = new Map<string, Set<string>>();
+      for (const subscription of due) {
+        const symbols = byQuote.get(subscription.quote) || new Set<string>();
+        subscription.symbols.forEach(symbol => symbols.add(symbol));
+        byQuote.set(subscription.quote, symbols);
+      }
+
+      for (const [quote, symbols] of byQuote.entries()) {
+        try {
+          const prices = await this.fetchPrices([...symbols], quote);
+          prices.forEach(price => this.latest.set(this.latestKey(quote, price.base), price));
+          due.filter(s => s.quote === quote && this.subscriptions.has(s)).forEach(s => this.emit(s, prices));
+        } catch (error) {
+          console.warn(`Price subscription poll failed for ${quote}:`, error);
+        }
+      }
+
+      this.updateBackoff();
+      for (const subscription of due) {
+        subscription.nextDue = now + subscription.intervalMs * this.backoffFactor;
+      }
+    } finally {
+      this.ticking = false;
+      this.schedule();
+    }
+  }
+
+  private updateBackoff(): void {
+    const pressure = this.getPressure?.() ?? 0;
+
+    this.backoffFactor = pressure >= this.pressureThreshold
+      ? Math.min(this.backoffFactor * 2, this.maxBackoffFactor)
+      : 1;
+  }
+
+  private emit(subscription: Subscription, prices: AssetPrice[]): void {
+    const changed = prices.filter(price => {
+      if (!subscription.symbols.includes(price.base)) {
+        return false;
+      }
+
+      const last = subscription.lastEmitted.get(price.base);
+      if (last === undefined) {
+        return true;
+      }
+
+      const change = last === 0 ? Math.abs(price.price) : Math.abs(price.price - last) / Math.abs(last);
+      return change > subscription.epsilon;
+    });
+
+    if (changed.length === 0) {
+      return;
+    }
+
+    changed.forEach(price => subscription.lastEmitted.set(price.base, price.price));
+
+    try {
+      subscription.listener(changed);
+    } catch (error) {
+      console.warn('Price subscription listener failed:', error);
+    }
+  }
+
+  private latestKey(quote: string, symbol: string): string {
+    return `${quote}:${symbol}`;
+  }
+}
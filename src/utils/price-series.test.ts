@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { alignToInterval, bucketPriceSeries } from './price-series.js';
+
+const HOUR = 60 * 60 * 1000;
+const base = Date.parse('2024-01-01T00:00:00Z'); // A Monday
+
+function point(offsetMs: number, price: number) {
+  return { timestamp: new Date(base + offsetMs), price };
+}
+
+describe('price series bucketing', () => {
+  it('should align weekly buckets to Monday 00:00 UTC', () => {
+    const wednesday = Date.parse('2024-01-03T15:00:00Z');
+
+    expect(new Date(alignToInterval(wednesday, '1w')).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(new Date(alignToInterval(wednesday, '1d')).toISOString()).toBe('2024-01-03T00:00:00.000Z');
+  });
+
+  it('should build OHLC candles from samples within each bucket', () => {
+    const candles = bucketPriceSeries(
+      [point(0, 10), point(20 * 60 * 1000, 14), point(40 * 60 * 1000, 9), point(50 * 60 * 1000, 12), point(HOUR, 13)],
+      { from: new Date(base), to: new Date(base + HOUR), interval: '1h' }
+    );
+
+    expect(candles).toEqual([
+      { timestamp: new Date(base), open: 10, high: 14, low: 9, close: 12, filled: false },
+      { timestamp: new Date(base + HOUR), open: 13, high: 13, low: 13, close: 13, filled: false },
+    ]);
+  });
+
+  it('should interpolate interior gaps and carry values into leading and trailing gaps', () => {
+    const candles = bucketPriceSeries(
+      [point(HOUR, 100), point(4 * HOUR, 130)],
+      { from: new Date(base), to: new Date(base + 5 * HOUR), interval: '1h' }
+    );
+
+    expect(candles.map(c => [c.close, c.filled])).toEqual([
+      [100, true],
+      [100, false],
+      [110, true],
+      [120, true],
+      [130, false],
+      [130, true],
+    ]);
+  });
+
+  it('should return no candles when there are no samples in range', () => {
+    expect(bucketPriceSeries([], { from: new Date(base), to: new Date(base + HOUR), interval: '1h' })).toEqual([]);
+  });
+});
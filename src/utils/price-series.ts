@@ -0,0 +1,108 @@
+import { PriceCandle, PriceInterval, PricePoint, PriceSeriesOptions } from '../types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// The Unix epoch fell on a Thursday; shift weekly buckets so they start on Monday
+const WEEK_OFFSET_MS = 4 * DAY_MS;
+
+export const INTERVAL_MS: Record<PriceInterval, number> = {
+  '1h': HOUR_MS,
+  '1d': DAY_MS,
+  '1w': 7 * DAY_MS,
+};
+
+export function alignToInterval(time: number, interval: PriceInterval): number {
+  const size = INTERVAL_MS[interval];
+  const offset = interval === '1w' ? WEEK_OFFSET_MS : 0;
+  return Math.floor((time - offset) / size) * size + offset;
+}
+
+/**
+ * Groups raw samples into UTC-aligned OHLC buckets covering [from, to].
+ *
+ * Gap filling: a bucket without samples gets a flat candle (open = high =
+ * low = close) marked `filled`. Between two observed buckets the value is
+ * linearly interpolated from the previous close to the next open by bucket
+ * start time. Leading gaps take the first observed open and trailing gaps
+ * carry the last observed close forward. No samples yields no buckets.
+ */
+export function bucketPriceSeries(samples: PricePoint[], options: PriceSeriesOptions): PriceCandle[] {
+  const size = INTERVAL_MS[options.interval];
+  const start = alignToInterval(options.from.getTime(), options.interval);
+  const end = options.to.getTime();
+
+  const sorted = samples
+    .filter(s => s.timestamp.getTime() >= start && s.timestamp.getTime() <= end)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  if (sorted.length === 0) {
+    return [];
+  }
+
+  const buckets: (PriceCandle | null)[] = [];
+  for (let bucketStart = start; bucketStart <= end; bucketStart += size) {
+    buckets.push(null);
+  }
+
+  for (const sample of sorted) {
+    const index = Math.floor((sample.timestamp.getTime() - start) / size);
+    const bucket = buckets[index];
+
+    if (!bucket) {
+      buckets[index] = {
+        timestamp: new Date(start + index * size),
+        open: sample.price,
+        high: sample.price,
+        low: sample.price,
+        close: sample.price,
+        filled: false,
+      };
+    } else {
+      bucket.high = Math.max(bucket.high, sample.price);
+      bucket.low = Math.min(bucket.low, sample.price);
+      bucket.close = sample.price;
+    }
+  }
+
+  return fillGaps(buckets, start, size);
+}
+
+function fillGaps(buckets: (PriceCandle | null)[], start: number, size: number): PriceCandle[] {
+  const result: PriceCandle[] = [];
+  let previous: PriceCandle | null = null;
+
+  for (let i = 0; i < buckets.length; i++) {
+    const bucket = buckets[i];
+    if (bucket) {
+      result.push(bucket);
+      previous = bucket;
+      continue;
+    }
+
+    const nextIndex = buckets.findIndex((candidate, j) => j > i && candidate !== null);
+    const next = nextIndex === -1 ? null : buckets[nextIndex];
+    const timestamp = start + i * size;
+    let value: number;
+
+    if (previous && next) {
+      const ratio = (timestamp - previous.timestamp.getTime()) /
+                    (next.timestamp.getTime() - previous.timestamp.getTime());
+      value = previous.close + (next.open - previous.close) * ratio;
+    } else if (previous) {
+      value = previous.close;
+    } else {
+      value = next!.open;
+    }
+
+    result.push({
+      timestamp: new Date(timestamp),
+      open: value,
+      high: value,
+      low: value,
+      close: value,
+      filled: true,
+    });
+  }
+
+  return result;
+}
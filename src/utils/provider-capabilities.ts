@@ -0,0 +1,39 @@
+import {
+  CoinListProvider,
+  DetailedBatchPriceProvider,
+  DetailedHistoricalPriceProvider,
+  HistoricalPriceProvider,
+  PriceProvider,
+  PriceSeriesProvider,
+  RateLimitAware
+} from '../types.js';
+
+export function isHistoricalPriceProvider(provider: PriceProvider): provider is HistoricalPriceProvider {
+  const candidate = provider as Partial<HistoricalPriceProvider>;
+  return typeof candidate.fetchHistoricalPrice === 'function' &&
+         typeof candidate.fetchHistoricalPrices === 'function';
+}
+
+export function isPriceSeriesProvider(provider: PriceProvider): provider is PriceSeriesProvider {
+  return typeof (provider as Partial<PriceSeriesProvider>).fetchPriceSeries === 'function';
+}
+
+export function isCoinListProvider(provider: PriceProvider): provider is CoinListProvider {
+  return typeof (provider as Partial<CoinListProvider>).fetchCoinList === 'function';
+}
+
+export function isDetailedBatchProvider(provider: PriceProvider): provider is DetailedBatchPriceProvider {
+  return typeof (provider as Partial<DetailedBatchPriceProvider>).fetchMultiplePricesDetailed === 'function';
+}
+
+export function isDetailedHistoricalProvider(provider: HistoricalPriceProvider): provider is DetailedHistoricalPriceProvider {
+  return typeof (provider as Partial<DetailedHistoricalPriceProvider>).fetchHistoricalPricesDetailed === 'function';
+}
+
+export function isRateLimitAware<T extends PriceProvider>(provider: T): provider is T & RateLimitAware {
+  return typeof (provider as Partial<RateLimitAware>).getRateLimitPressure === 'function';
+}
+
+export function getProviderName(provider: PriceProvider): string {
+  return provider.name || provider.constructor.name;
+}
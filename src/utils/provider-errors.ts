@@ -0,0 +1,46 @@
+import {
+  AssetValuatorException,
+  ProviderUnavailableException,
+  RateLimitExceededException
+} from '../errors.js';
+import { HttpError } from '../http/http-error.js';
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(header: unknown): number | undefined {
+  if (typeof header !== 'string' || header.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function redact(text: string, secrets: string[]): string {
+  return secrets.reduce((redacted, secret) => secret ? redacted.split(secret).join('[redacted]') : redacted, text);
+}
+
+/**
+ * Maps a failed provider call onto the domain exceptions. Domain exceptions
+ * pass through; HTTP 429 becomes RateLimitExceededException and any other
+ * transport or response failure ProviderUnavailableException. `secrets`,
+ * such as API keys, are masked wherever they appear in the reason.
+ */
+export function toProviderException(provider: string, error: unknown, secrets: string[] = []): AssetValuatorException {
+  if (error instanceof AssetValuatorException) {
+    return error;
+  }
+
+  if (error instanceof HttpError) {
+    if (error.status === 429) {
+      return new RateLimitExceededException(provider, parseRetryAfter(error.headers['retry-after']));
+    }
+    return new ProviderUnavailableException(provider, redact(error.message, secrets), error.status);
+  }
+
+  return new ProviderUnavailableException(provider, redact(error instanceof Error ? error.message : String(error), secrets));
+}
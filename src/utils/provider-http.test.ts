@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ProviderHttpClient } from './provider-http.js';
+import { InMemoryHttpClient } from '../http/in-memory-http-client.js';
+import { OperationAbortedException, ProviderUnavailableException, RateLimitExceededException } from '../errors.js';
+
+const ENDPOINTS = {
+  baseUrl: 'https://api.example.com/v1',
+  paidBaseUrl: 'https://pro.example.com/v1',
+  apiKeyPlacement: { in: 'header' as const, name: 'x-example-key' }
+};
+
+describe('ProviderHttpClient', () => {
+  let transport: InMemoryHttpClient;
+
+  beforeEach(() => {
+    transport = new InMemoryHttpClient();
+  });
+
+  it('should use the free endpoint with a default timeout when no key is set', async () => {
+    transport.once('/prices', { data: { ok: true } });
+    const http = new ProviderHttpClient('example', ENDPOINTS, { httpClient: transport });
+
+    expect(await http.get('/prices', { ids: 'a' })).toEqual({ ok: true });
+    expect(transport.requests).toEqual([
+      { method: 'GET', url: 'https://api.example.com/v1/prices', params: { ids: 'a' }, timeoutMs: 10000 }
+    ]);
+  });
+
+  it('should switch to the paid endpoint and send the key where the provider expects it', async () => {
+    transport.on('/prices', { data: {} });
+
+    await new ProviderHttpClient('example', ENDPOINTS, { apiKey: 'secret', timeoutMs: 2500, httpClient: transport }).get('/prices');
+    await new ProviderHttpClient('example', ENDPOINTS, {
+      apiKey: 'secret',
+      apiKeyPlacement: { in: 'query', name: 'key' },
+      baseUrl: 'https://proxy.internal/example/',
+      httpClient: transport
+    }).get('/prices', { ids: 'a' });
+
+    expect(transport.requests).toEqual([
+      { method: 'GET', url: 'https://pro.example.com/v1/prices', timeoutMs: 2500, headers: { 'x-example-key': 'secret' } },
+      { method: 'GET', url: 'https://proxy.internal/example/prices', params: { ids: 'a', key: 'secret' }, timeoutMs: 10000 }
+    ]);
+  });
+
+  it('should never put the key in a thrown message', async () => {
+    transport.once('/prices', new Error('connect ECONNREFUSED https://pro.example.com/v1/prices?key=secret'));
+    const http = new ProviderHttpClient('example', ENDPOINTS, {
+      apiKey: 'secret',
+      apiKeyPlacement: { in: 'query', name: 'key' },
+      httpClient: transport
+    });
+
+    const error = await http.get('/prices').catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderUnavailableException);
+    expect(error.message).not.toContain('secret');
+    expect(error.message).toContain('key=[redacted]');
+  });
+
+  it('should retry timeouts and server errors with backoff, but not client errors', async () => {
+    const http = new ProviderHttpClient('example', ENDPOINTS, { retry: { retries: 2, baseDelayMs: 0 }, httpClient: transport });
+    transport
+      .once('/prices', new Error('timeout of 10000ms exceeded'))
+      .once('/prices', { status: 503 })
+      .once('/prices', { data: 'third time' });
+
+    expect(await http.get('/prices')).toBe('third time');
+
+    transport.once('/prices', { status: 429 });
+    await expect(http.get('/prices')).rejects.toThrow(RateLimitExceededException);
+    expect(transport.requests).toHaveLength(4);
+  });
+
+  it('should give up once the retries are spent', async () => {
+    const http = new ProviderHttpClient('example', ENDPOINTS, { retry: { retries: 1, baseDelayMs: 0 }, httpClient: transport });
+    transport.on('/v1', { status: 502 }, 'POST');
+
+    const error = await http.post('', { method: 'eth_call' }).catch(e => e);
+
+    expect(error).toMatchObject({ provider: 'example', status: 502 });
+    expect(transport.requests).toHaveLength(2);
+    expect(transport.requests[0]).toMatchObject({ method: 'POST', body: { method: 'eth_call' } });
+  });
+
+  it('should stop retrying once the call is aborted', async () => {
+    const http = new ProviderHttpClient('example', ENDPOINTS, { retry: { retries: 3, baseDelayMs: 0 }, httpClient: transport });
+    const controller = new AbortController();
+    transport.once('/prices', () => {
+      controller.abort();
+      return { status: 503 };
+    });
+
+    const error = await http.get('/prices', {}, { signal: controller.signal }).catch(e => e);
+
+    expect(error).toBeInstanceOf(OperationAbortedException);
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('should reject a hung request once the deadline passes', async () => {
+    const http = new ProviderHttpClient('example', ENDPOINTS, { httpClient: transport });
+    transport.once('/prices', () => new Promise(() => {}));
+
+    const error = await http.get('/prices', {}, { timeoutMs: 20 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(OperationAbortedException);
+    expect(error.timeoutMs).toBe(20);
+    expect(transport.requests[0].signal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,91 @@
+import { ApiKeyPlacement, CallOptions, HttpClient, HttpRequest, ProviderConfiguration } from '../types.js';
+import { HttpError } from '../http/http-error.js';
+import { FetchHttpClient } from '../http/fetch-http-client.js';
+import { toProviderException } from './provider-errors.js';
+import { abortError, sleep, withDeadline } from './abort.js';
+
+// What a provider's API looks like before the caller's configuration is applied
+export interface ProviderEndpoints {
+  baseUrl: string;
+  paidBaseUrl?: string; // Selected when an API key is configured
+  apiKeyPlacement?: ApiKeyPlacement;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_KEY_PLACEMENT: ApiKeyPlacement = { in: 'header', name: 'x-api-key' };
+
+function isRetryable(error: unknown): boolean {
+  // No status means a timeout or network failure
+  return error instanceof HttpError && (error.status === undefined || error.status >= 500);
+}
+
+/**
+ * HTTP for one provider under its ProviderConfiguration: every request gets
+ * the timeout and API key, failures the retry policy, and what finally fails
+ * is thrown as the provider's domain exception with the key masked. A
+ * call's signal or deadline covers all of its attempts and the waits
+ * between them.
+ */
+export class ProviderHttpClient {
+  readonly baseUrl: string;
+  private apiKey?: string;
+  private apiKeyPlacement: ApiKeyPlacement;
+  private timeoutMs: number;
+  private retries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private transport: HttpClient;
+
+  constructor(private provider: string, endpoints: ProviderEndpoints, config: ProviderConfiguration = {}) {
+    this.transport = config.httpClient || new FetchHttpClient();
+    this.apiKey = config.apiKey || undefined;
+    const baseUrl = config.baseUrl || (this.apiKey && endpoints.paidBaseUrl) || endpoints.baseUrl;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.apiKeyPlacement = config.apiKeyPlacement || endpoints.apiKeyPlacement || DEFAULT_KEY_PLACEMENT;
+    this.timeoutMs = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+    this.retries = config.retry?.retries || 0;
+    this.baseDelayMs = config.retry?.baseDelayMs ?? 500;
+    this.maxDelayMs = config.retry?.maxDelayMs ?? 8000;
+  }
+
+  // Resolves to the response body
+  async get<T>(path: string, params?: Record<string, unknown>, options: CallOptions = {}): Promise<T> {
+    return withDeadline(options, signal => this.send<T>(this.toRequest('GET', path, params), signal));
+  }
+
+  async post<T>(path: string, body: unknown, options: CallOptions = {}): Promise<T> {
+    return withDeadline(options, signal => this.send<T>({ ...this.toRequest('POST', path), body }, signal));
+  }
+
+  private toRequest(method: HttpRequest['method'], path: string, params?: Record<string, unknown>): HttpRequest {
+    const request: HttpRequest = { method, url: this.baseUrl + path, timeoutMs: this.timeoutMs };
+    const query = { ...params };
+
+    if (this.apiKey && this.apiKeyPlacement.in === 'query') {
+      query[this.apiKeyPlacement.name] = this.apiKey;
+    }
+    if (Object.keys(query).length > 0) {
+      request.params = query;
+    }
+    if (this.apiKey && this.apiKeyPlacement.in === 'header') {
+      request.headers = { [this.apiKeyPlacement.name]: this.apiKey };
+    }
+    return request;
+  }
+
+  private async send<T>(request: HttpRequest, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return (await this.transport.request<T>(signal ? { ...request, signal } : request)).data;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw abortError(signal);
+        }
+        if (attempt >= this.retries || !isRetryable(error)) {
+          throw toProviderException(this.provider, error, this.apiKey ? [this.apiKey] : []);
+        }
+        await sleep(Math.min(this.baseDelayMs * 2 ** attempt, this.maxDelayMs), signal);
+      }
+    }
+  }
+}
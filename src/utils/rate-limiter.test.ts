@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter } from './rate-limiter.js';
+import { OperationAbortedException, RateLimitExceededException } from '../errors.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should throw RateLimitExceededException with the time until a slot frees up', async () => {
+    const limiter = new RateLimiter({ maxRequests: 1, windowMs: 60000, retryAfterMs: 1000, maxRetries: 1 });
+    await limiter.execute('BTC', async () => 1);
+
+    const pending = limiter.execute('ETH', async () => 2).catch(e => e);
+    await vi.advanceTimersByTimeAsync(1000);
+    const error = await pending;
+
+    expect(error).toBeInstanceOf(RateLimitExceededException);
+    expect(error.retryAfterMs).toBe(59000);
+  });
+
+  it('should back off and retry when the call fails with RateLimitExceededException', async () => {
+    const limiter = new RateLimiter({ maxRequests: 10, windowMs: 60000, retryAfterMs: 1000, maxRetries: 3 });
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new RateLimitExceededException('coingecko', 1000))
+      .mockResolvedValueOnce(50000);
+
+    const pending = limiter.execute('BTC', fn);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await pending).toBe(50000);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop waiting for a slot when the signal aborts', async () => {
+    const limiter = new RateLimiter({ maxRequests: 1, windowMs: 60000, retryAfterMs: 1000, maxRetries: 3 });
+    await limiter.execute('BTC', async () => 1);
+    const controller = new AbortController();
+    const fn = vi.fn(async () => 2);
+
+    const pending = limiter.execute('ETH', fn, controller.signal).catch(e => e);
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+
+    expect(await pending).toBeInstanceOf(OperationAbortedException);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
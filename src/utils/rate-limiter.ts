@@ -1,3 +1,6 @@
+import { RateLimitExceededException } from '../errors.js';
+import { sleep, throwIfAborted } from './abort.js';
+
 export interface RateLimiterOptions {
   maxRequests: number;
   windowMs: number;
@@ -14,7 +17,9 @@ export class RateLimiter {
     this.options.maxRetries = options.maxRetries || 3;
   }
 
-  async execute<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  // An aborted signal ends the backoff waits and keeps fn from being called
+  async execute<T>(key: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    throwIfAborted(signal);
     const now = Date.now();
     
     // Clean up old requests
@@ -26,23 +31,25 @@ export class RateLimiter {
       
       if (retries >= this.options.maxRetries!) {
         this.retryCount.delete(key);
-        throw new Error('Rate limit exceeded. Please try again later.');
+        // The window frees up a slot once its oldest request ages out
+        throw new RateLimitExceededException(undefined, this.options.windowMs - (now - this.requests[0]));
       }
       
       // Exponential backoff
       const backoffMs = this.options.retryAfterMs! * Math.pow(2, retries);
-      await this.sleep(backoffMs);
+      await sleep(backoffMs, signal);
       
       this.retryCount.set(key, retries + 1);
-      return this.execute(key, fn);
+      return this.execute(key, fn, signal);
     }
     
-    // Execute the function
+    // Execute the function; retries are counted until it settles
     this.requests.push(now);
-    this.retryCount.delete(key);
     
     try {
-      return await fn();
+      const result = await fn();
+      this.retryCount.delete(key);
+      return result;
     } catch (error) {
       // If it's a 429 error, apply backoff
       if (this.is429Error(error)) {
@@ -54,24 +61,33 @@ export class RateLimiter {
         }
         
         const backoffMs = this.options.retryAfterMs! * Math.pow(2, retries);
-        await this.sleep(backoffMs);
+        await sleep(backoffMs, signal);
         
         this.retryCount.set(key, retries + 1);
-        return this.execute(key, fn);
+        return this.execute(key, fn, signal);
       }
       
+      this.retryCount.delete(key);
       throw error;
     }
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private is429Error(error: unknown): boolean {
+    if (error instanceof RateLimitExceededException) {
+      return true;
+    }
+
+    const candidate = error as { response?: { status?: number }; code?: unknown; message?: unknown } | null;
+    return candidate?.response?.status === 429 ||
+           candidate?.code === 'ERR_RATE_LIMITED' ||
+           (typeof candidate?.message === 'string' && candidate.message.includes('429'));
   }
 
-  private is429Error(error: any): boolean {
-    return error?.response?.status === 429 || 
-           error?.code === 'ERR_RATE_LIMITED' ||
-           (error?.message && error.message.includes('429'));
+  // Share of the current window's request budget already used, from 0 to 1
+  getPressure(): number {
+    const now = Date.now();
+    const recent = this.requests.filter(time => now - time < this.options.windowMs).length;
+    return Math.min(1, recent / this.options.maxRequests);
   }
 
   reset(): void {
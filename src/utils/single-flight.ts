@@ -0,0 +1,48 @@
+import { SharedSignal, abortable, abortError } from './abort.js';
+
+interface Flight {
+  promise: Promise<unknown>;
+  shared: SharedSignal;
+}
+
+/**
+ * Deduplicates concurrent calls: while a call for a key is in flight, later
+ * calls with the same key get the same promise instead of starting another.
+ * Nothing is remembered once the call settles. A caller that aborts stops
+ * waiting at once; the call itself is aborted only when every caller has.
+ */
+export class SingleFlight {
+  private inFlight = new Map<string, Flight>();
+
+  run<T>(key: string, fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(abortError(signal));
+    }
+
+    let flight = this.inFlight.get(key);
+    if (!flight) {
+      const shared = new SharedSignal();
+      const promise = Promise.resolve()
+        .then(() => fn(shared.signal))
+        .finally(() => this.forget(key, flight!));
+      flight = { promise, shared };
+      this.inFlight.set(key, flight);
+
+      // Callers arriving after everyone gave up start a fresh call
+      shared.signal.addEventListener('abort', () => this.forget(key, flight!), { once: true });
+    }
+
+    const leave = flight.shared.join(signal);
+    return abortable(flight.promise as Promise<T>, signal).finally(leave);
+  }
+
+  get size(): number {
+    return this.inFlight.size;
+  }
+
+  private forget(key: string, flight: Flight): void {
+    if (this.inFlight.get(key) === flight) {
+      this.inFlight.delete(key);
+    }
+  }
+}
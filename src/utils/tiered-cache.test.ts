@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TieredCache } from './tiered-cache.js';
+
+describe('TieredCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should start majors hot, pegged assets cold and everything else warm', async () => {
+    const cache = new TieredCache();
+    await cache.set('BTC-usd', 50000, { asset: 'BTC' });
+    await cache.set('LINK-usd', 15, { asset: 'LINK' });
+    await cache.set('USDC-usd', 1, { asset: 'USDC' });
+
+    vi.advanceTimersByTime(2 * 60 * 1000);
+
+    expect(await cache.lookup('BTC-usd', { asset: 'BTC' })).toMatchObject({ tier: 'hot', isStale: true });
+    expect(await cache.get('LINK-usd', { asset: 'LINK' })).toBe(15);
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    expect(await cache.get('USDC-usd', { asset: 'usdc' })).toBe(1);
+  });
+
+  it('should promote assets read often and demote ones left unread', async () => {
+    const cache = new TieredCache({ promoteAfter: 3, accessWindowMs: 60000 });
+
+    for (let i = 0; i < 3; i++) {
+      await cache.get('LINK-usd', { asset: 'LINK' });
+    }
+    expect(cache.tierOf('LINK')).toBe('hot');
+
+    vi.advanceTimersByTime(60000);
+    expect(cache.tierOf('LINK')).toBe('cold');
+    expect(cache.tierOf('BTC')).toBe('hot');
+  });
+
+  it('should write an asset read again after a quiet spell to the colder tier', async () => {
+    const cache = new TieredCache({ accessWindowMs: 60000 });
+    await cache.get('LINK-usd', { asset: 'LINK' });
+    await cache.set('LINK-usd', 15, { asset: 'LINK' });
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    await cache.get('LINK-usd', { asset: 'LINK' });
+    await cache.set('LINK-usd', 16, { asset: 'LINK' });
+
+    expect(await cache.lookup('LINK-usd', { asset: 'LINK' })).toMatchObject({ data: 16, ttl: 60 * 60 * 1000 });
+    expect(cache.tierOf('LINK')).toBe('warm');
+  });
+
+  it('should judge an entry by the TTL it was written with after its asset is demoted', async () => {
+    const cache = new TieredCache({ accessWindowMs: 60000 });
+    await cache.set('LINK-usd', 15, { asset: 'LINK' });
+
+    vi.advanceTimersByTime(30 * 60 * 1000);
+    expect(cache.tierOf('LINK')).toBe('warm');
+    await cache.get('LINK-usd', { asset: 'LINK' });
+    vi.advanceTimersByTime(60000);
+
+    expect(cache.tierOf('LINK')).toBe('cold');
+    expect(await cache.lookup('LINK-usd', { asset: 'LINK' })).toMatchObject({ tier: 'cold', isStale: true, ttl: 5 * 60 * 1000 });
+  });
+
+  it('should judge existing entries by new tier TTLs only when asked to retime them', async () => {
+    const cache = new TieredCache();
+    await cache.set('LINK-usd', 15, { asset: 'LINK' });
+    vi.advanceTimersByTime(2000);
+
+    cache.setTierTTLs({ warm: 1000 });
+    expect(await cache.get('LINK-usd', { asset: 'LINK' })).toBe(15);
+
+    cache.setTierTTLs({ warm: 1000 }, true);
+    expect(await cache.lookup('LINK-usd', { asset: 'LINK' })).toMatchObject({ isStale: true, ttl: 1000 });
+  });
+
+  it('should keep fixed placements out of the asset tiers', async () => {
+    const cache = new TieredCache();
+    await cache.set('history-BTC', 42000, { tier: 'cold', ttl: 24 * 60 * 60 * 1000 });
+
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+
+    expect(await cache.lookup('history-BTC', { tier: 'cold' })).toMatchObject({ data: 42000, isStale: false });
+  });
+
+  it('should count hits and misses per tier', async () => {
+    const cache = new TieredCache();
+    await cache.get('BTC-usd', { asset: 'BTC' });
+    await cache.set('BTC-usd', 50000, { asset: 'BTC' });
+    await cache.get('BTC-usd', { asset: 'BTC' });
+    await cache.get('USDT-usd', { asset: 'USDT' });
+
+    expect(cache.getStats()).toEqual({
+      hot: { hits: 1, misses: 1 },
+      warm: { hits: 0, misses: 0 },
+      cold: { hits: 0, misses: 1 }
+    });
+
+    cache.resetStats();
+    expect(cache.getStats().hot).toEqual({ hits: 0, misses: 0 });
+  });
+
+  it('should serve a stale entry within the policy window when the refresh fails', async () => {
+    const cache = new TieredCache({ ttls: { warm: 1000 } });
+    await cache.set('LINK-usd', 15, { asset: 'LINK' });
+    vi.advanceTimersByTime(2000);
+
+    const failing = () => Promise.reject(new Error('API unavailable'));
+
+    expect(await cache.getOrFetch('LINK-usd', failing, { asset: 'LINK', maxStaleMs: 5000 }))
+      .toMatchObject({ data: 15, isStale: true, tier: 'warm' });
+    await expect(cache.getOrFetch('LINK-usd', failing, { asset: 'LINK' })).rejects.toThrow('API unavailable');
+  });
+});
@@ -0,0 +1,289 @@
+import { EdgeCache, CacheLookup } from './edge-cache.js';
+import { SingleFlight } from './single-flight.js';
+import { throwIfAborted } from './abort.js';
+import { normalizeAssetKey } from './asset-id.js';
+import { PegRegistry } from '../registry/peg-registry.js';
+
+export type CacheTier = 'hot' | 'warm' | 'cold';
+
+export interface TieredCacheOptions {
+  storage?: 'memory' | 'localStorage' | 'indexedDB';
+  maxSize?: number;
+  ttls?: Partial<Record<CacheTier, number>>; // Defaults: hot 60 seconds, warm 5 minutes, cold 1 hour
+  retainMs?: number; // How long past its TTL an entry is kept for stale fallbacks (default 1 hour)
+  majors?: string[]; // Assets that start hot (default BTC, ETH, SOL, BNB, XRP)
+  pegRegistry?: PegRegistry; // Pegged assets start cold
+  promoteAfter?: number; // Reads within accessWindowMs that move an asset one tier hotter (default 5)
+  accessWindowMs?: number; // An asset unread for this long moves one tier colder (default 10 minutes)
+}
+
+// Where an entry lives: an asset's tier follows its class and how often it is read
+export interface CachePlacement {
+  asset?: string;
+  tier?: CacheTier; // Fixed tier for entries that aren't tied to one asset's activity
+  ttl?: number; // Fixed TTL instead of the tier's
+}
+
+export interface CacheFetchPolicy extends CachePlacement {
+  maxStaleMs?: number; // Serve an entry this long past its TTL when the fetch fails (default 0)
+  staleWhileRevalidate?: boolean; // Answer from a servable stale entry and refresh it in the background
+}
+
+export interface TieredLookup<T> extends CacheLookup<T> {
+  tier: CacheTier;
+  ttl: number;
+}
+
+export interface CacheTierStats {
+  hits: number;
+  misses: number; // Absent or past its TTL
+}
+
+export type TieredCacheStats = Record<CacheTier, CacheTierStats>;
+
+interface StoredEntry<T> {
+  value: T;
+  ttl?: number; // In force when written; absent from entries persisted before it was recorded
+}
+
+interface AccessHistory {
+  reads: number[]; // Read times within the access window, oldest first
+  lastRead: number;
+  previousRead?: number; // The read before lastRead
+}
+
+const TIERS: CacheTier[] = ['hot', 'warm', 'cold'];
+const DEFAULT_TTLS: Record<CacheTier, number> = {
+  hot: 60 * 1000,
+  warm: 5 * 60 * 1000,
+  cold: 60 * 60 * 1000
+};
+const DEFAULT_MAJORS = ['BTC', 'ETH', 'SOL', 'BNB', 'XRP'];
+
+// Key of an asset's spot price in `currency`, the same for every layer that caches one
+export function spotPriceKey(asset: string, currency: string): string {
+  return `${normalizeAssetKey(asset)}-${currency.toUpperCase()}`;
+}
+
+/**
+ * Price cache with hot, warm and cold tiers of increasing TTL. Majors start
+ * hot, pegged assets cold and everything else warm; an asset read often
+ * moves one tier hotter and one left unread moves one tier colder. Entries
+ * keep the TTL they were written with, so a change of tier or of the tier
+ * TTLs only applies to later writes unless setTierTTLs is told to retime
+ * existing entries. Entries are
+ * stored through an EdgeCache and kept past their TTL for stale fallbacks.
+ */
+export class TieredCache {
+  private store: EdgeCache;
+  private ttls: Record<CacheTier, number>;
+  private retainMs: number;
+  private majors: Set<string>;
+  private pegRegistry: PegRegistry;
+  private promoteAfter: number;
+  private accessWindowMs: number;
+  private maxSize: number;
+  private access = new Map<string, AccessHistory>();
+  private stats = TieredCache.emptyStats();
+  private refreshing = new SingleFlight();
+  private retimedAt = -Infinity; // Entries written up to then are judged by the current TTLs
+
+  constructor(options: TieredCacheOptions = {}) {
+    this.maxSize = options.maxSize || 1000;
+    this.store = new EdgeCache({ storage: options.storage || 'memory', maxSize: this.maxSize });
+    this.ttls = { ...DEFAULT_TTLS, ...options.ttls };
+    this.retainMs = options.retainMs ?? 60 * 60 * 1000;
+    this.majors = new Set((options.majors || DEFAULT_MAJORS).map(normalizeAssetKey));
+    this.pegRegistry = options.pegRegistry || new PegRegistry();
+    this.promoteAfter = options.promoteAfter || 5;
+    this.accessWindowMs = options.accessWindowMs || 10 * 60 * 1000;
+  }
+
+  private static emptyStats(): TieredCacheStats {
+    return { hot: { hits: 0, misses: 0 }, warm: { hits: 0, misses: 0 }, cold: { hits: 0, misses: 0 } };
+  }
+
+  // The tier an asset's class puts it in before any reads are counted
+  classify(asset: string): CacheTier {
+    const key = normalizeAssetKey(asset);
+    if (this.pegRegistry.get(key)) {
+      return 'cold';
+    }
+    return this.majors.has(key) ? 'hot' : 'warm';
+  }
+
+  tierOf(asset: string): CacheTier {
+    const base = TIERS.indexOf(this.classify(asset));
+    const history = this.access.get(normalizeAssetKey(asset));
+    if (!history) {
+      return TIERS[base];
+    }
+
+    // The write that follows the first read after a quiet spell is demoted too
+    const now = Date.now();
+    const idleMs = Math.max(now - history.lastRead, history.lastRead - (history.previousRead ?? history.lastRead));
+    if (idleMs >= this.accessWindowMs) {
+      return TIERS[Math.min(base + 1, TIERS.length - 1)];
+    }
+    if (history.reads.filter(at => now - at < this.accessWindowMs).length >= this.promoteAfter) {
+      return TIERS[Math.max(base - 1, 0)];
+    }
+    return TIERS[base];
+  }
+
+  ttlOf(placement: CachePlacement): number {
+    return placement.ttl ?? this.ttls[this.placementTier(placement)];
+  }
+
+  /**
+   * Returns the entry for `key` with its age, whether it is past the TTL it
+   * was written with and the tier the read counts toward; entries past their
+   * TTL are returned until retainMs runs out. Counts as a read of the asset and as a hit or miss.
+   */
+  async lookup<T>(key: string, placement: CachePlacement = {}): Promise<TieredLookup<T> | null> {
+    const tier = this.placementTier(placement);
+    if (placement.asset) {
+      this.recordRead(normalizeAssetKey(placement.asset));
+    }
+
+    const stored = await this.store.getWithMetadata<StoredEntry<T>>(key);
+    const ownTtl = stored && stored.timestamp > this.retimedAt ? stored.data.ttl : undefined;
+    const ttl = ownTtl ?? placement.ttl ?? this.ttls[tier];
+    const lookup = stored && {
+      data: stored.data.value,
+      timestamp: stored.timestamp,
+      ageMs: stored.ageMs,
+      isStale: stored.ageMs >= ttl,
+      tier,
+      ttl
+    };
+
+    if (lookup && !lookup.isStale) {
+      this.stats[tier].hits++;
+    } else {
+      this.stats[tier].misses++;
+    }
+    return lookup;
+  }
+
+  // A fresh entry, or a stale one still within the policy's maxStaleMs
+  async lookupServable<T>(key: string, policy: CacheFetchPolicy = {}): Promise<TieredLookup<T> | null> {
+    const cached = await this.lookup<T>(key, policy);
+    return cached && this.isServable(cached, policy) ? cached : null;
+  }
+
+  async get<T>(key: string, placement: CachePlacement = {}): Promise<T | null> {
+    const lookup = await this.lookup<T>(key, placement);
+    return lookup && !lookup.isStale ? lookup.data : null;
+  }
+
+  async set<T>(key: string, data: T, placement: CachePlacement = {}): Promise<void> {
+    const ttl = this.ttlOf(placement);
+    // Kept for as long as it is fresh, plus the stale window
+    await this.store.set<StoredEntry<T>>(key, { value: data, ttl }, ttl + this.retainMs);
+  }
+
+  /**
+   * Returns the entry for `key`, calling `fetcher` to fill or refresh it.
+   * Within the policy's maxStaleMs a stale entry stands in for a failed
+   * fetch, or answers at once with a background refresh when
+   * staleWhileRevalidate is set. Concurrent refreshes of one key share a
+   * single fetch; an aborted `signal` rejects instead of serving stale.
+   */
+  async getOrFetch<T>(
+    key: string,
+    fetcher: (signal?: AbortSignal) => Promise<T>,
+    policy: CacheFetchPolicy = {},
+    signal?: AbortSignal
+  ): Promise<TieredLookup<T>> {
+    const cached = await this.lookup<T>(key, policy);
+    if (cached && !cached.isStale) {
+      return cached;
+    }
+
+    const servable = cached && this.isServable(cached, policy) ? cached : null;
+    const refresh = (callerSignal?: AbortSignal) => this.refreshing.run(key, async shared => {
+      const data = await fetcher(shared);
+      await this.set(key, data, policy);
+      return data;
+    }, callerSignal);
+
+    if (servable && policy.staleWhileRevalidate) {
+      refresh().catch(error => console.warn(`Background refresh of ${key} failed`, error));
+      return servable;
+    }
+
+    try {
+      const data = await refresh(signal);
+      return {
+        data,
+        timestamp: Date.now(),
+        ageMs: 0,
+        isStale: false,
+        tier: this.placementTier(policy),
+        ttl: this.ttlOf(policy)
+      };
+    } catch (error) {
+      throwIfAborted(signal);
+      if (servable) {
+        return servable;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.access.clear();
+    await this.store.clear();
+  }
+
+  // Overrides the TTL of the given tiers; with `retimeExisting`, entries already cached are judged by them too
+  setTierTTLs(ttls: Partial<Record<CacheTier, number>>, retimeExisting: boolean = false): void {
+    this.ttls = { ...this.ttls, ...ttls };
+    if (retimeExisting) {
+      this.retimedAt = Date.now();
+    }
+  }
+
+  getStats(): TieredCacheStats {
+    return {
+      hot: { ...this.stats.hot },
+      warm: { ...this.stats.warm },
+      cold: { ...this.stats.cold }
+    };
+  }
+
+  resetStats(): void {
+    this.stats = TieredCache.emptyStats();
+  }
+
+  private isServable(lookup: TieredLookup<unknown>, policy: CacheFetchPolicy): boolean {
+    return lookup.ageMs < lookup.ttl + (policy.maxStaleMs || 0);
+  }
+
+  private placementTier(placement: CachePlacement): CacheTier {
+    if (placement.tier) {
+      return placement.tier;
+    }
+    return placement.asset ? this.tierOf(placement.asset) : 'warm';
+  }
+
+  private recordRead(asset: string): void {
+    const now = Date.now();
+    const history = this.access.get(asset);
+    const recent = (history?.reads || []).filter(at => now - at < this.accessWindowMs);
+    const reads = recent.slice(Math.max(0, recent.length - this.promoteAfter + 1));
+
+    // Re-inserted so the map stays in least-recently-read order for trimming
+    this.access.delete(asset);
+    this.access.set(asset, { reads: [...reads, now], lastRead: now, previousRead: history?.lastRead });
+
+    if (this.access.size > this.maxSize) {
+      this.access.delete(this.access.keys().next().value as string);
+    }
+  }
+}